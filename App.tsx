@@ -1,14 +1,54 @@
 
-import React, { useState, useRef, useCallback, useEffect } from 'react';
+import React, { useState, useRef, useCallback, useEffect, useMemo } from 'react';
 import Menubar from './components/Menubar';
 import Sidebar from './components/Sidebar';
 import Editor from './components/Editor';
 import Preview from './components/Preview';
 import StatusBar from './components/StatusBar';
 import Modal from './components/Modal';
-import { AiAction, Selection, Tone, FormatAction, ViewMode, AiFeature } from './types';
-import { runAiAction } from './services/geminiService';
-import { INITIAL_MARKDOWN } from './constants';
+import DocumentList from './components/DocumentList';
+import DiffReview from './components/DiffReview';
+import SettingsModal from './components/SettingsModal';
+import PromptLibraryModal from './components/PromptLibraryModal';
+import StyleProfilesModal from './components/StyleProfilesModal';
+import AssetGallery from './components/AssetGallery';
+import ImportDialog, { ImportMode } from './components/ImportDialog';
+import OutlinePanel from './components/OutlinePanel';
+import FindReplacePanel from './components/FindReplacePanel';
+import ProblemsPanel from './components/ProblemsPanel';
+import TemplateGallery from './components/TemplateGallery';
+import MetadataPanel from './components/MetadataPanel';
+import { AiAction, Selection, StyleProfile, FormatAction, ViewMode, AiFeature, AiTaskAction, CustomAction, ExportFormat, VideoJob, InsertPosition, FrontMatter } from './types';
+import { runAiAction, streamAiAction, runPrompt, streamPrompt, generateDiagram, generateDescription, parseSuggestedTitles, AiActionOptions } from './services/geminiService';
+import { renderTemplate } from './services/promptLibrary';
+import { formatStyleGuide } from './services/styleProfiles';
+import { exportDocument } from './services/exporters';
+import { lineRange } from './services/sourceLines';
+import { TextRange, mapRange } from './services/textRanges';
+import { insertBlock } from './services/editorCommands';
+import { Heading, moveSection, insertToc, refreshToc } from './services/outline';
+import { createId } from './services/storage';
+import { IMPORT_ACCEPT, ImportedFile, isImportable, readImportFile } from './services/importers';
+import { assetMarkdown, assetStore, isMediaFile, saveAsset } from './services/assets';
+import { addToBibliography, citeSearchResult } from './services/citations';
+import { Diagnostic, LINT_RULES, lintMarkdown } from './services/lint';
+import { templateFromDocument } from './services/templates';
+import { parseFrontMatter, removeFrontMatter, updateFrontMatter } from './services/frontMatter';
+import { GroundedSearchResult } from './services/aiProvider';
+import { useDocuments } from './hooks/useDocuments';
+import { useHistory, HistoryKind } from './hooks/useHistory';
+import { useAiTasks } from './hooks/useAiTasks';
+import { usePromptLibrary } from './hooks/usePromptLibrary';
+import { useStyleProfiles } from './hooks/useStyleProfiles';
+import { useStoredState } from './hooks/useStoredState';
+import { useScrollSync } from './hooks/useScrollSync';
+import { useFindReplace } from './hooks/useFindReplace';
+import { useChatSessions } from './hooks/useChatSessions';
+import { useImageStudio } from './hooks/useImageStudio';
+import { useVideoJobs } from './hooks/useVideoJobs';
+import { useLint } from './hooks/useLint';
+import { useTemplates } from './hooks/useTemplates';
+import { LoadingSpinner } from './components/icons';
 import { FabMenu, ChatModal, ImageGenModal, VideoGenModal, GroundedSearchModal } from './components/AiFeatures';
 
 /**
@@ -138,15 +178,120 @@ const applyFormat = (format: FormatAction, markdown: string, start: number, end:
     return { newMarkdown, newSelection: { start: newSelectionStart, end: newSelectionEnd } };
 };
 
+interface PendingReview {
+  /** The id of the task that produced the suggestion; its anchor tracks the original selection. */
+  id: string;
+  documentId: string;
+  action: AiTaskAction;
+  title: string;
+  original: string;
+  proposed: string;
+  isRegenerating: boolean;
+  /** Produces a fresh suggestion for Regenerate. */
+  generate: (signal: AbortSignal) => Promise<string>;
+  /** Set when the rewrite followed a style profile. */
+  bannedWords?: string[];
+}
+
+interface ResultModal {
+  title: string;
+  content: string;
+  taskId?: string;
+  isStreaming?: boolean;
+  /** Suggested titles that can be applied to the document's front matter. */
+  titles?: string[];
+  documentId?: string;
+}
+
+interface InsertOptions {
+  position?: InsertPosition;
+  /** Defaults to the editor's current selection. */
+  target?: TextRange;
+  kind?: HistoryKind;
+  group?: string;
+}
+
+// Anchor id for the insertion point of the open AI feature modal.
+const INSERT_TARGET = 'ai-feature-insert-target';
+
+const ACTION_TITLES: Record<AiAction, string> = {
+  [AiAction.IMPROVE]: 'Improve Writing',
+  [AiAction.SUMMARIZE_SELECTION]: 'Summarize Selection',
+  [AiAction.CHANGE_TONE]: 'Change Tone',
+  [AiAction.SUMMARIZE_DOCUMENT]: 'Document Summary',
+  [AiAction.GENERATE_OUTLINE]: 'Generated Outline',
+  [AiAction.SUGGEST_TITLES]: 'Suggested Titles',
+  [AiAction.GENERATE_OUTLINE_FROM_PROMPT]: 'Generate Outline',
+  [AiAction.FIX_PROBLEM]: 'Fix Problem',
+  [AiAction.GENERATE_DIAGRAM]: 'Generate Diagram',
+  [AiAction.FILL_TEMPLATE]: 'Fill Template',
+  [AiAction.GENERATE_DESCRIPTION]: 'Generate Description',
+};
 
 const App: React.FC = () => {
-  const [markdown, setMarkdown] = useState<string>(INITIAL_MARKDOWN);
+  const {
+    documents,
+    activeDocument,
+    markdown,
+    setMarkdown,
+    createDocument,
+    renameDocument,
+    duplicateDocument,
+    deleteDocument,
+    selectDocument,
+  } = useDocuments();
+  const {
+    tasks,
+    runningActions,
+    runTask,
+    cancelTask,
+    dismissTask,
+    clearFinished,
+    getAnchor,
+    setAnchor,
+    releaseAnchor,
+    remapAnchors,
+  } = useAiTasks();
+  const activeDocumentIdRef = useRef<string | null>(null);
+  activeDocumentIdRef.current = activeDocument?.id ?? null;
+  const handleDocumentChange = useCallback((prev: string, next: string) => {
+    if (activeDocumentIdRef.current) remapAnchors(activeDocumentIdRef.current, prev, next);
+  }, [remapAnchors]);
+  const { commit: commitEdit, undo, redo, canUndo, canRedo } = useHistory(activeDocument?.id ?? null, markdown, setMarkdown, handleDocumentChange);
+  // Every edit also refreshes the document's table of contents, as a separate change in the same undo step.
+  // Returns the final text, so callers can map positions from their own edit through the refresh.
+  const commit = useCallback((update: string | ((prev: string) => string), kind: HistoryKind, options?: { group?: string }) => {
+    const group = options?.group ?? createId();
+    commitEdit(update, kind, { group });
+    return commitEdit(refreshToc, kind, { group });
+  }, [commitEdit]);
+  // For callbacks created before the active document changed, e.g. a template draft streaming into the document it just created.
+  const commitRef = useRef(commit);
+  commitRef.current = commit;
   const [selection, setSelection] = useState<Selection | null>(null);
-  const [isLoading, setIsLoading] = useState<boolean>(false);
-  const [modalContent, setModalContent] = useState<{ title: string; content: string } | null>(null);
+  const [modalContent, setModalContent] = useState<ResultModal | null>(null);
+  const [reviews, setReviews] = useState<PendingReview[]>([]);
   const [isSidebarOpen, setIsSidebarOpen] = useState<boolean>(true);
+  const [isDocumentListOpen, setIsDocumentListOpen] = useState<boolean>(true);
   const [viewMode, setViewMode] = useState<ViewMode>('split');
+  const [isScrollSyncEnabled, setIsScrollSyncEnabled] = useStoredState('sync-scroll', true);
+  const [isOutlineOpen, setIsOutlineOpen] = useStoredState('outline-open', false);
+  const [isProblemsOpen, setIsProblemsOpen] = useStoredState('problems-open', false);
+  const [isMetadataOpen, setIsMetadataOpen] = useStoredState('metadata-open', false);
+  const [renderHtml, setRenderHtml] = useStoredState('render-html', true);
   const [activeAiFeature, setActiveAiFeature] = useState<AiFeature | null>(null);
+  const [isSettingsOpen, setIsSettingsOpen] = useState<boolean>(false);
+  const [isPromptLibraryOpen, setIsPromptLibraryOpen] = useState<boolean>(false);
+  const [isStyleProfilesOpen, setIsStyleProfilesOpen] = useState<boolean>(false);
+  const [isAssetGalleryOpen, setIsAssetGalleryOpen] = useState<boolean>(false);
+  const [isTemplateGalleryOpen, setIsTemplateGalleryOpen] = useState<boolean>(false);
+  const [pendingImport, setPendingImport] = useState<{ documentId: string; files: ImportedFile[] } | null>(null);
+  const chat = useChatSessions();
+  const imageStudio = useImageStudio();
+  const videoJobs = useVideoJobs();
+  const { customActions, saveCustomAction, deleteCustomAction, importCustomActions, exportJson } = usePromptLibrary();
+  const styles = useStyleProfiles();
+  const { templates, saveTemplate, deleteTemplate } = useTemplates();
   const [theme, setTheme] = useState<'light' | 'dark'>(() => {
     if (typeof window !== 'undefined' && window.matchMedia && window.matchMedia('(prefers-color-scheme: dark)').matches) {
       return 'dark';
@@ -155,11 +300,29 @@ const App: React.FC = () => {
   });
 
   const editorRef = useRef<HTMLTextAreaElement>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const previewRef = useRef<HTMLDivElement>(null);
+  const isScrollSyncActive = isScrollSyncEnabled && viewMode === 'split';
+  const { revealEditorLine } = useScrollSync(editorRef, previewRef, isScrollSyncActive);
+  // Show a match without focusing the editor, so typing stays in the find box.
+  const revealSearchMatch = useCallback((range: TextRange) => {
+    const editor = editorRef.current;
+    if (!editor) return;
+    editor.setSelectionRange(range.start, range.end);
+    revealEditorLine(editor.value.substring(0, range.start).split('\n').length);
+  }, [revealEditorLine]);
+  const find = useFindReplace(activeDocument?.id ?? null, markdown, commit, revealSearchMatch);
+  const lint = useLint(markdown);
+  const frontMatter = useMemo(() => parseFrontMatter(markdown), [markdown]);
 
   useEffect(() => {
     document.documentElement.classList.toggle('dark', theme === 'dark');
   }, [theme]);
 
+  useEffect(() => {
+    setSelection(null);
+  }, [activeDocument?.id]);
+
   const toggleTheme = () => {
     setTheme(prev => prev === 'light' ? 'dark' : 'light');
   };
@@ -172,128 +335,768 @@ const App: React.FC = () => {
     });
   };
 
-  const handleAiAction = useCallback(async (action: AiAction, options?: { tone?: Tone; prompt?: string }) => {
-    setIsLoading(true);
+  const showError = useCallback((error: unknown) => {
+    console.error("AI Action Failed:", error);
+    setModalContent({ title: 'Error', content: error instanceof Error ? error.message : 'An unknown error occurred.' });
+  }, []);
+
+  /**
+   * Runs a rewrite of `target` as a task, then queues the suggestion for diff
+   * review. A failed rewrite opens no review; the error is rethrown for the caller to show.
+   */
+  const startReview = useCallback(async (
+    action: AiTaskAction,
+    title: string,
+    documentId: string,
+    target: Selection,
+    generate: (signal: AbortSignal) => Promise<string>,
+    style?: StyleProfile | null,
+  ) => {
+    let taskId = '';
+    let proposed: string | undefined;
     try {
-      let textToProcess = '';
-      let isSelectionAction = false;
+      proposed = await runTask({ action, label: title, documentId, range: target }, (signal, id) => {
+        taskId = id;
+        return generate(signal);
+      });
+    } catch (error) {
+      releaseAnchor(taskId);
+      throw error;
+    }
+    if (proposed === undefined) {
+      releaseAnchor(taskId);
+      return;
+    }
+    setReviews(prev => [...prev, { id: taskId, documentId, action, title, original: target.text, proposed, isRegenerating: false, generate, bannedWords: style?.bannedWords }]);
+  }, [runTask, releaseAnchor]);
+
+  /** Runs a streamed generation as a task whose text fills the result modal as it arrives. */
+  const streamToModal = useCallback((
+    action: AiTaskAction,
+    title: string,
+    documentId: string,
+    stream: (onText: (text: string) => void, signal: AbortSignal) => Promise<string>,
+    finish?: (result: string) => Partial<ResultModal>,
+  ) => runTask({ action, label: title, documentId }, async (signal, taskId) => {
+    setModalContent({ title, content: '', taskId, isStreaming: true });
+    const update = (changes: Partial<ResultModal>) =>
+      setModalContent(current => (current?.taskId === taskId ? { ...current, ...changes } : current));
+    const result = await stream((partial) => update({ content: partial }), signal);
+    update({ content: result, isStreaming: false, ...finish?.(result) });
+  }), [runTask]);
 
+  const handleAiAction = useCallback(async (action: AiAction, options?: AiActionOptions) => {
+    const documentId = activeDocumentIdRef.current;
+    if (!documentId) return;
+    const label = ACTION_TITLES[action];
+
+    try {
       switch (action) {
         case AiAction.IMPROVE:
         case AiAction.SUMMARIZE_SELECTION:
-        case AiAction.CHANGE_TONE:
+        case AiAction.CHANGE_TONE: {
           if (!selection || !selection.text) {
              setModalContent({ title: 'Error', content: 'Please select text to perform this action.' });
              return;
           }
-          textToProcess = selection.text;
-          isSelectionAction = true;
-          break;
+          const original = selection.text;
+          await startReview(action, label, documentId, selection, (signal) => runAiAction(action, original, options, signal), options?.style);
+          return;
+        }
         case AiAction.SUMMARIZE_DOCUMENT:
-        case AiAction.GENERATE_OUTLINE:
-        case AiAction.SUGGEST_TITLES:
-          textToProcess = markdown;
-          break;
-        case AiAction.GENERATE_OUTLINE_FROM_PROMPT:
-            if (!options?.prompt) return;
-            textToProcess = options.prompt;
-            break;
+        case AiAction.GENERATE_OUTLINE: {
+          const text = markdown;
+          await streamToModal(action, label, documentId, (onText, signal) => streamAiAction(action, text, options, onText, signal));
+          return;
+        }
+        case AiAction.SUGGEST_TITLES: {
+          const text = markdown;
+          await streamToModal(action, label, documentId, (onText, signal) => streamAiAction(action, text, options, onText, signal),
+            (result) => ({ titles: parseSuggestedTitles(result), documentId }));
+          return;
+        }
+        case AiAction.GENERATE_OUTLINE_FROM_PROMPT: {
+          if (!options?.prompt) return;
+          const prompt = options.prompt;
+          const editor = editorRef.current;
+          const target = { start: editor?.selectionStart ?? markdown.length, end: editor?.selectionEnd ?? markdown.length };
+          // The outline goes in at the caret, or below the selected text.
+          const position: InsertPosition = target.start === target.end ? 'replace' : 'below';
+          let isPlaced = false;
+          await runTask({ action, label, documentId, range: target }, (signal, taskId) =>
+            streamAiAction(action, prompt, options, (partial) => {
+              // Results only ever land in the document that requested them.
+              if (activeDocumentIdRef.current !== documentId) {
+                cancelTask(taskId);
+                return;
+              }
+              // Replace the previously inserted partial text, wherever edits have moved it.
+              const anchor = getAnchor(taskId) ?? target;
+              let range = anchor;
+              let edited = '';
+              const final = commit(prev => {
+                if (!isPlaced) {
+                  const inserted = insertBlock(prev, anchor, partial, position);
+                  range = inserted.range;
+                  edited = inserted.value;
+                } else {
+                  range = { start: anchor.start, end: anchor.start + partial.length };
+                  edited = prev.substring(0, anchor.start) + partial + prev.substring(anchor.end);
+                }
+                return edited;
+              }, 'ai', { group: taskId });
+              isPlaced = true;
+              setAnchor(taskId, documentId, mapRange(range, edited, final));
+            }, signal).finally(() => releaseAnchor(taskId))
+          );
+          return;
+        }
+        case AiAction.GENERATE_DIAGRAM: {
+          if (!selection || !selection.text) {
+             setModalContent({ title: 'Error', content: 'Please select text to perform this action.' });
+             return;
+          }
+          const description = selection.text;
+          const target = { start: selection.start, end: selection.end };
+          // The diagram goes below the description it was made from, which stays in place.
+          await runTask({ action, label, documentId, range: target }, async (signal, taskId) => {
+            try {
+              const source = await generateDiagram(description, signal);
+              if (activeDocumentIdRef.current !== documentId) {
+                throw new Error(`"${label}" finished after its document was closed.`);
+              }
+              const anchor = getAnchor(taskId) ?? target;
+              commit(prev => insertBlock(prev, anchor, `\`\`\`mermaid\n${source}\n\`\`\``, 'below').value, 'ai');
+            } finally {
+              releaseAnchor(taskId);
+            }
+          });
+          return;
+        }
         default:
           return;
       }
+    } catch (error) {
+      showError(error);
+    }
+  }, [markdown, selection, commit, runTask, cancelTask, getAnchor, setAnchor, releaseAnchor, showError, startReview, streamToModal]);
 
-      const result = await runAiAction(action, textToProcess, options);
+  const handleCustomAction = useCallback(async (custom: CustomAction, style: StyleProfile | null) => {
+    const documentId = activeDocumentIdRef.current;
+    if (!documentId) return;
+    if (custom.scope === 'selection' && !selection?.text) {
+      setModalContent({ title: 'Error', content: 'Please select text to perform this action.' });
+      return;
+    }
+    const action: AiTaskAction = `custom:${custom.id}`;
+    const target: Selection = custom.scope === 'selection' && selection
+      ? selection
+      : { text: markdown, start: 0, end: markdown.length };
+    const prompt = renderTemplate(custom.template, {
+      selection: selection?.text ?? '',
+      document: markdown,
+      tone: style?.name ?? '',
+      style: style ? formatStyleGuide(style) : '',
+    });
+    // Banned words only apply when the template actually asked for the style.
+    const followsStyle = /\{\{\s*(?:tone|style)\s*\}\}/.test(custom.template);
 
-      if (isSelectionAction && selection) {
-        const newMarkdown = markdown.substring(0, selection.start) + result + markdown.substring(selection.end);
-        setMarkdown(newMarkdown);
-      } else if (action === AiAction.GENERATE_OUTLINE_FROM_PROMPT) {
-         setMarkdown(prev => `${prev.trim()}\n\n${result}`);
-      }
-      else {
-        let title = 'AI Result';
-        if (action === AiAction.SUMMARIZE_DOCUMENT) title = 'Document Summary';
-        if (action === AiAction.GENERATE_OUTLINE) title = 'Generated Outline';
-        if (action === AiAction.SUGGEST_TITLES) title = 'Suggested Titles';
-        setModalContent({ title, content: result });
+    try {
+      switch (custom.output) {
+        case 'replace':
+          await startReview(action, custom.name, documentId, target, (signal) => runPrompt(prompt, signal), followsStyle ? style : null);
+          return;
+        case 'insert-below':
+          await runTask({ action, label: custom.name, documentId, range: { start: target.end, end: target.end } }, async (signal, taskId) => {
+            try {
+              const result = await runPrompt(prompt, signal);
+              if (activeDocumentIdRef.current !== documentId) {
+                throw new Error(`"${custom.name}" finished after its document was closed.`);
+              }
+              const anchor = getAnchor(taskId);
+              commit(prev => {
+                // Insert after the line the target ends on, so the result starts a new block.
+                const lineEnd = prev.indexOf('\n', anchor?.end ?? prev.length);
+                const at = lineEnd === -1 ? prev.length : lineEnd;
+                return `${prev.substring(0, at)}\n\n${result}${prev.substring(at)}`;
+              }, 'ai');
+            } finally {
+              releaseAnchor(taskId);
+            }
+          });
+          return;
+        case 'modal':
+          await streamToModal(action, custom.name, documentId, (onText, signal) => streamPrompt(prompt, onText, signal));
+          return;
       }
     } catch (error) {
-      console.error("AI Action Failed:", error);
-      setModalContent({ title: 'Error', content: error instanceof Error ? error.message : 'An unknown error occurred.' });
-    } finally {
-      setIsLoading(false);
+      showError(error);
     }
-  }, [markdown, selection]);
+  }, [markdown, selection, commit, runTask, getAnchor, releaseAnchor, showError, startReview, streamToModal]);
+
+  const activeReview = reviews.find(review => review.documentId === activeDocument?.id) ?? null;
+
+  const updateReview = useCallback((id: string, changes: Partial<PendingReview>) => {
+    setReviews(prev => prev.map(review => (review.id === id ? { ...review, ...changes } : review)));
+  }, []);
+
+  const closeReview = useCallback((id: string) => {
+    releaseAnchor(id);
+    setReviews(prev => prev.filter(review => review.id !== id));
+  }, [releaseAnchor]);
+
+  const handleRegenerate = useCallback(async (review: PendingReview) => {
+    updateReview(review.id, { isRegenerating: true });
+    try {
+      const proposed = await runTask(
+        { action: review.action, label: `${review.title} (regenerate)`, documentId: review.documentId },
+        review.generate
+      );
+      updateReview(review.id, { isRegenerating: false, ...(proposed !== undefined && { proposed }) });
+    } catch (error) {
+      // The previous proposal stays up for review.
+      updateReview(review.id, { isRegenerating: false });
+      showError(error);
+    }
+  }, [runTask, updateReview, showError]);
+
+  const handleAcceptReview = useCallback((review: PendingReview, text: string) => {
+    const range = getAnchor(review.id);
+    if (!range || markdown.substring(range.start, range.end) !== review.original) {
+      setModalContent({ title: 'Error', content: 'The selected text changed while the suggestion was being reviewed.' });
+    } else {
+      commit(prev => prev.substring(0, range.start) + text + prev.substring(range.end), 'ai');
+    }
+    closeReview(review.id);
+  }, [markdown, commit, getAnchor, closeReview]);
+
+  const focusEditorRange = useCallback((start: number, end: number) => {
+    setTimeout(() => {
+        if (editorRef.current) {
+            editorRef.current.focus();
+            editorRef.current.setSelectionRange(start, end);
+            const text = editorRef.current.value.substring(start, end);
+            setSelection(text ? { text, start, end } : null);
+        }
+    }, 0);
+  }, []);
   
   const handleFormat = useCallback((format: FormatAction) => {
     if (editorRef.current) {
         const { selectionStart, selectionEnd } = editorRef.current;
         const { newMarkdown, newSelection } = applyFormat(format, markdown, selectionStart, selectionEnd);
-        setMarkdown(newMarkdown);
-        
-        setTimeout(() => {
-            if (editorRef.current) {
-                editorRef.current.focus();
-                editorRef.current.setSelectionRange(newSelection.start, newSelection.end);
-                const text = editorRef.current.value.substring(newSelection.start, newSelection.end);
-                setSelection(text ? { text, start: newSelection.start, end: newSelection.end } : null);
-            }
-        }, 0);
+        commit(newMarkdown, 'format');
+        focusEditorRange(newSelection.start, newSelection.end);
     }
-  }, [markdown]);
+  }, [markdown, commit, focusEditorRange]);
+
+  const handleExport = useCallback(async (format: ExportFormat) => {
+    try {
+      await exportDocument(format, activeDocument?.title ?? 'Untitled', markdown, renderHtml);
+    } catch (error) {
+      console.error("Export failed:", error);
+      setModalContent({ title: 'Export Failed', content: error instanceof Error ? error.message : 'An unknown error occurred.' });
+    }
+  }, [activeDocument, markdown, renderHtml]);
+
+  /**
+   * Inserts `content` as its own block relative to `target` (by default the
+   * editor's selection) as a single undo step, and puts the caret after it.
+   */
+  const insertContent = useCallback((content: string, { position = 'replace', target, kind = 'insert', group }: InsertOptions = {}) => {
+    let inserted = { value: '', range: { start: 0, end: 0 } };
+    const final = commit(prev => {
+      const range = target ?? {
+        start: editorRef.current?.selectionStart ?? prev.length,
+        end: editorRef.current?.selectionEnd ?? prev.length,
+      };
+      inserted = insertBlock(prev, range, content, position);
+      return inserted.value;
+    }, kind, { group });
+    const { end } = mapRange(inserted.range, inserted.value, final);
+    focusEditorRange(end, end);
+  }, [commit, focusEditorRange]);
+
+  // An AI feature modal inserts where the caret was when it opened, tracked through edits made meanwhile.
+  const openAiFeature = useCallback((feature: AiFeature) => {
+    const documentId = activeDocumentIdRef.current;
+    const editor = editorRef.current;
+    if (documentId && editor) setAnchor(INSERT_TARGET, documentId, { start: editor.selectionStart, end: editor.selectionEnd });
+    setActiveAiFeature(feature);
+  }, [setAnchor]);
+
+  const closeAiFeature = useCallback(() => {
+    releaseAnchor(INSERT_TARGET);
+    setActiveAiFeature(null);
+  }, [releaseAnchor]);
+
+  const insertAiResult = useCallback((content: string, position: InsertPosition, group?: string) => {
+    insertContent(content, { position, target: getAnchor(INSERT_TARGET), group });
+    closeAiFeature();
+  }, [insertContent, getAnchor, closeAiFeature]);
+
+  // The cited answer and its new sources in the bibliography are one undo step.
+  const handleInsertSearchResult = useCallback((result: GroundedSearchResult, position: InsertPosition) => {
+    const { text, added } = citeSearchResult(result, markdown);
+    const group = createId();
+    insertAiResult(text, position, group);
+    commit(prev => addToBibliography(prev, added), 'insert', { group });
+  }, [markdown, insertAiResult, commit]);
+
+  const { removeJob: removeVideoJob } = videoJobs;
+  const handleInsertVideo = useCallback(async (job: VideoJob) => {
+    const asset = job.assetId ? await assetStore.get(job.assetId).catch(() => undefined) : undefined;
+    if (!asset) {
+      setModalContent({ title: 'Video Unavailable', content: 'This video is no longer in the media library.' });
+      return;
+    }
+    insertContent(assetMarkdown(asset));
+    removeVideoJob(job.id);
+  }, [insertContent, removeVideoJob]);
+
+  const handleOpenFiles = useCallback(async (files: File[]) => {
+    const documentId = activeDocumentIdRef.current;
+    if (!documentId || files.length === 0) return;
+    const media = files.filter(isMediaFile);
+    const documents = files.filter(file => !isMediaFile(file));
+    try {
+      if (media.length) {
+        // Dropped images and videos go to the media library and are referenced from the document.
+        const assets = await Promise.all(media.map(file => saveAsset(file, file.name, 'upload')));
+        if (activeDocumentIdRef.current === documentId) {
+          insertContent(assets.map(asset => assetMarkdown(asset)).join('\n\n'));
+        }
+      }
+      if (documents.length === 0) return;
+      const importable = documents.filter(isImportable);
+      // Reading the first rejected file produces the "unsupported type" message.
+      const imported = await Promise.all((importable.length ? importable : documents.slice(0, 1)).map(readImportFile));
+      setPendingImport({ documentId, files: imported });
+    } catch (error) {
+      console.error("Import failed:", error);
+      setModalContent({ title: 'Import Failed', content: error instanceof Error ? error.message : 'An unknown error occurred.' });
+    }
+  }, [insertContent]);
+
+  const handleImport = useCallback((mode: ImportMode) => {
+    if (!pendingImport) return;
+    setPendingImport(null);
+    if (pendingImport.documentId !== activeDocumentIdRef.current) return;
+    const content = pendingImport.files.map(file => file.markdown.trim()).join('\n\n');
+
+    if (mode === 'replace') {
+      commit(`${content}\n`, 'replace');
+      focusEditorRange(0, 0);
+      return;
+    }
+    insertContent(content);
+  }, [pendingImport, commit, focusEditorRange, insertContent]);
+
+  const handlePreviewLineClick = useCallback((line: number) => {
+    const { start } = lineRange(markdown, line);
+    revealEditorLine(line);
+    focusEditorRange(start, start);
+  }, [markdown, revealEditorLine, focusEditorRange]);
+
+  const handleOutlineJump = useCallback((heading: Heading) => {
+    revealEditorLine(heading.line);
+    focusEditorRange(heading.start, heading.start);
+    previewRef.current?.querySelector(`[data-source-line="${heading.line}"]`)?.scrollIntoView({ block: 'start' });
+  }, [revealEditorLine, focusEditorRange]);
+
+  const handleProblemJump = useCallback((diagnostic: Diagnostic) => {
+    revealEditorLine(markdown.substring(0, diagnostic.start).split('\n').length);
+    focusEditorRange(diagnostic.start, diagnostic.end);
+  }, [markdown, revealEditorLine, focusEditorRange]);
+
+  // Only the flagged sentence goes to the AI; the rewrite is queued for review like any other,
+  // and a failed one is shown as an error (runAiAction throws) rather than offered as a fix.
+  const handleFixProblem = useCallback(async (diagnostic: Diagnostic) => {
+    const documentId = activeDocumentIdRef.current;
+    if (!documentId || !diagnostic.fixRange) return;
+    // The panel lists problems from a deferred lint, so its offsets may predate the latest
+    // edits. Find the same problem in the current text; if it's gone, there's nothing to fix.
+    const current = lintMarkdown(markdown, lint.options)
+      .filter(candidate => candidate.rule === diagnostic.rule && candidate.message === diagnostic.message && candidate.fixRange)
+      .sort((a, b) => Math.abs(a.start - diagnostic.start) - Math.abs(b.start - diagnostic.start))[0];
+    if (!current) return;
+    const { start, end } = current.fixRange!;
+    const text = markdown.substring(start, end);
+    try {
+      await startReview(AiAction.FIX_PROBLEM, `Fix: ${LINT_RULES[diagnostic.rule].label}`, documentId, { text, start, end },
+        (signal) => runAiAction(AiAction.FIX_PROBLEM, text, { prompt: diagnostic.message }, signal));
+    } catch (error) {
+      showError(error);
+    }
+  }, [markdown, lint.options, startReview, showError]);
+
+  // With a brief, the filled-in template is replaced by an AI draft as it streams in.
+  const handleCreateFromTemplate = useCallback(async (title: string, content: string, brief?: string) => {
+    setIsTemplateGalleryOpen(false);
+    const doc = createDocument(content, title);
+    if (!brief) return;
+    const action = AiAction.FILL_TEMPLATE;
+    const target = { start: 0, end: content.length };
+    try {
+      await runTask({ action, label: `${ACTION_TITLES[action]}: ${title}`, documentId: doc.id, range: target }, (signal, taskId) =>
+        streamAiAction(action, content, { prompt: brief }, (partial) => {
+          if (activeDocumentIdRef.current !== doc.id) {
+            cancelTask(taskId);
+            return;
+          }
+          const anchor = getAnchor(taskId) ?? target;
+          const range = { start: anchor.start, end: anchor.start + partial.length };
+          let edited = '';
+          const final = commitRef.current(prev => {
+            edited = prev.substring(0, anchor.start) + partial + prev.substring(anchor.end);
+            return edited;
+          }, 'ai', { group: taskId });
+          setAnchor(taskId, doc.id, mapRange(range, edited, final));
+        }, signal).finally(() => releaseAnchor(taskId))
+      );
+    } catch (error) {
+      showError(error);
+    }
+  }, [createDocument, runTask, cancelTask, getAnchor, setAnchor, releaseAnchor, showError]);
+
+  const handleSaveAsTemplate = useCallback(() => {
+    if (!activeDocument) return;
+    const name = window.prompt('Name this template:', activeDocument.title)?.trim();
+    if (!name) return;
+    saveTemplate(templateFromDocument({ ...activeDocument, content: markdown }, name));
+  }, [activeDocument, markdown, saveTemplate]);
+
+  // Front matter edits from the metadata panel and the AI.
+  const handleMetadataChange = useCallback((changes: Partial<FrontMatter>, kind: HistoryKind = 'typing') => {
+    commit(prev => updateFrontMatter(prev, changes), kind);
+  }, [commit]);
+
+  // A front matter title also names the document, once it has been settled on.
+  const handleTitleCommit = useCallback((title: string) => {
+    const documentId = activeDocumentIdRef.current;
+    if (documentId) renameDocument(documentId, title);
+  }, [renameDocument]);
+
+  const handleApplyTitle = useCallback((documentId: string, title: string) => {
+    setModalContent(null);
+    if (activeDocumentIdRef.current !== documentId) return;
+    handleMetadataChange({ title }, 'ai');
+    handleTitleCommit(title);
+  }, [handleMetadataChange, handleTitleCommit]);
+
+  const handleGenerateDescription = useCallback(async () => {
+    const documentId = activeDocumentIdRef.current;
+    if (!documentId) return;
+    const action = AiAction.GENERATE_DESCRIPTION;
+    const label = ACTION_TITLES[action];
+    const text = markdown;
+    try {
+      await runTask({ action, label, documentId }, async (signal) => {
+        const description = await generateDescription(text, signal);
+        if (activeDocumentIdRef.current !== documentId) {
+          throw new Error(`"${label}" finished after its document was closed.`);
+        }
+        commitRef.current(prev => updateFrontMatter(prev, { description }), 'ai');
+      });
+    } catch (error) {
+      showError(error);
+    }
+  }, [markdown, runTask, showError]);
+
+  const handleMoveSection = useCallback((from: number, to: number) => {
+    const next = moveSection(markdown, from, to);
+    if (next !== null) commit(next, 'replace');
+  }, [markdown, commit]);
+
+  const handleInsertToc = useCallback(() => {
+    const position = editorRef.current?.selectionStart ?? 0;
+    commit(prev => insertToc(prev, position), 'insert');
+  }, [commit]);
+
+  const closeFind = useCallback(() => {
+    const match = find.activeMatch;
+    find.close();
+    if (match) focusEditorRange(match.start, match.end);
+    else editorRef.current?.focus();
+  }, [find, focusEditorRange]);
+
+  const handleUndo = useCallback(() => {
+    const range = undo();
+    if (range) focusEditorRange(range.start, range.end);
+  }, [undo, focusEditorRange]);
+
+  const handleRedo = useCallback(() => {
+    const range = redo();
+    if (range) focusEditorRange(range.start, range.end);
+  }, [redo, focusEditorRange]);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.altKey) return;
+      const key = e.key.toLowerCase();
+      if (key !== 'z' && key !== 'y') return;
+      // Leave other inputs (chat box, prompts) with their native undo.
+      const target = e.target as HTMLElement | null;
+      const isOtherInput = target !== editorRef.current && !!target?.closest('input, textarea, select, [contenteditable="true"]');
+      if (isOtherInput) return;
+      e.preventDefault();
+      if (key === 'y' || e.shiftKey) handleRedo();
+      else handleUndo();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [handleUndo, handleRedo]);
+
+  const openFind = find.open;
+  const handleFind = useCallback((withReplace: boolean) => {
+    setViewMode(prev => (prev === 'preview' ? 'split' : prev));
+    openFind(withReplace, selection, editorRef.current?.selectionStart ?? 0);
+  }, [openFind, selection]);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.altKey || e.shiftKey) return;
+      const key = e.key.toLowerCase();
+      if (key !== 'f' && key !== 'h') return;
+      e.preventDefault();
+      handleFind(key === 'h');
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [handleFind]);
 
   return (
     <div className="flex flex-col h-screen bg-gray-100 dark:bg-gray-800 text-gray-900 dark:text-gray-100 font-sans antialiased relative">
       <Menubar
         theme={theme}
         toggleTheme={toggleTheme}
+        onOpenSettings={() => setIsSettingsOpen(true)}
         isSidebarOpen={isSidebarOpen}
         toggleSidebar={() => setIsSidebarOpen(prev => !prev)}
+        isDocumentListOpen={isDocumentListOpen}
+        toggleDocumentList={() => setIsDocumentListOpen(prev => !prev)}
+        documentTitle={activeDocument?.title}
         onFormat={handleFormat}
+        onExport={handleExport}
+        onNewDocument={() => createDocument()}
+        onNewFromTemplate={() => setIsTemplateGalleryOpen(true)}
+        onSaveAsTemplate={handleSaveAsTemplate}
+        onOpenFile={() => fileInputRef.current?.click()}
+        onOpenMediaLibrary={() => setIsAssetGalleryOpen(true)}
+        isScrollSyncEnabled={isScrollSyncEnabled}
+        toggleScrollSync={() => setIsScrollSyncEnabled(prev => !prev)}
+        isOutlineOpen={isOutlineOpen}
+        toggleOutline={() => setIsOutlineOpen(prev => !prev)}
+        isProblemsOpen={isProblemsOpen}
+        toggleProblems={() => setIsProblemsOpen(prev => !prev)}
+        isMetadataOpen={isMetadataOpen}
+        toggleMetadata={() => setIsMetadataOpen(prev => !prev)}
+        renderHtml={renderHtml}
+        toggleRenderHtml={() => setRenderHtml(prev => !prev)}
+        onFind={handleFind}
+        onUndo={handleUndo}
+        onRedo={handleRedo}
+        canUndo={canUndo}
+        canRedo={canRedo}
         selectionActive={!!selection}
         viewMode={viewMode}
         cycleViewMode={cycleViewMode}
       />
       <div className="flex flex-1 overflow-hidden">
+        {isDocumentListOpen && (
+          <DocumentList
+            documents={documents}
+            activeId={activeDocument?.id ?? null}
+            onSelect={selectDocument}
+            onCreate={() => createDocument()}
+            onRename={renameDocument}
+            onDuplicate={duplicateDocument}
+            onDelete={deleteDocument}
+          />
+        )}
         {isSidebarOpen && (
           <Sidebar
             onAiAction={handleAiAction}
-            isLoading={isLoading}
+            busyActions={runningActions}
             selectionActive={!!selection?.text}
+            customActions={customActions}
+            onCustomAction={handleCustomAction}
+            onManageCustomActions={() => setIsPromptLibraryOpen(true)}
+            styleProfiles={styles.profiles}
+            selectedStyle={styles.selectedProfile}
+            onSelectStyle={styles.setSelectedId}
+            onManageStyleProfiles={() => setIsStyleProfilesOpen(true)}
           />
         )}
         <main className="flex-1 grid" style={{ gridTemplateColumns: viewMode === 'split' ? '1fr 1fr' : '1fr'}}>
           { (viewMode === 'split' || viewMode === 'editor') &&
-            <div className="h-full overflow-hidden">
-                <Editor ref={editorRef} value={markdown} onChange={setMarkdown} onSelect={setSelection} />
+            <div className="h-full overflow-hidden relative">
+                <Editor
+                  ref={editorRef}
+                  value={markdown}
+                  onChange={(value) => commit(value, 'typing')}
+                  onSelect={setSelection}
+                  onDropFiles={handleOpenFiles}
+                  searchMatches={find.isOpen ? find.matches : undefined}
+                  activeSearchMatch={find.activeIndex}
+                  diagnostics={lint.diagnostics}
+                />
+                {find.isOpen && <FindReplacePanel find={find} selection={selection} onClose={closeFind} />}
             </div>
           }
           { (viewMode === 'split' || viewMode === 'preview') &&
             <div className="h-full overflow-hidden">
-              <Preview markdown={markdown} />
+              <Preview ref={previewRef} markdown={markdown} renderHtml={renderHtml} onLineClick={isScrollSyncActive ? handlePreviewLineClick : undefined} />
             </div>
           }
         </main>
+        {isOutlineOpen && (
+          <OutlinePanel
+            markdown={markdown}
+            onJump={handleOutlineJump}
+            onMove={handleMoveSection}
+            onInsertToc={handleInsertToc}
+          />
+        )}
+        {isProblemsOpen && (
+          <ProblemsPanel markdown={markdown} lint={lint} onJump={handleProblemJump} onFix={handleFixProblem} />
+        )}
+        {isMetadataOpen && (
+          <MetadataPanel
+            key={activeDocument?.id}
+            frontMatter={frontMatter}
+            documentTitle={activeDocument?.title}
+            onChange={handleMetadataChange}
+            onTitleCommit={handleTitleCommit}
+            onRemove={() => commit(removeFrontMatter, 'replace')}
+            onSuggestTitles={() => handleAiAction(AiAction.SUGGEST_TITLES)}
+            onGenerateDescription={handleGenerateDescription}
+            busyActions={runningActions}
+          />
+        )}
       </div>
-      <StatusBar text={markdown} />
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept={IMPORT_ACCEPT}
+        multiple
+        className="hidden"
+        onChange={(e) => { const files = Array.from(e.target.files ?? []); e.target.value = ''; handleOpenFiles(files); }}
+      />
+      <StatusBar
+        text={markdown}
+        tasks={tasks}
+        onCancelTask={cancelTask}
+        onDismissTask={dismissTask}
+        onClearFinishedTasks={clearFinished}
+        videoJobs={videoJobs.jobs}
+        onInsertVideo={handleInsertVideo}
+        onRetryVideo={videoJobs.retryJob}
+        onRemoveVideo={videoJobs.removeJob}
+        problemCount={lint.isEnabled ? lint.diagnostics.length : null}
+        onShowProblems={() => setIsProblemsOpen(true)}
+      />
+      {activeReview && (
+        <DiffReview
+          key={activeReview.id}
+          title={activeReview.title}
+          original={activeReview.original}
+          proposed={activeReview.proposed}
+          isRegenerating={activeReview.isRegenerating}
+          bannedWords={activeReview.bannedWords}
+          onAccept={(text) => handleAcceptReview(activeReview, text)}
+          onReject={() => closeReview(activeReview.id)}
+          onRegenerate={() => handleRegenerate(activeReview)}
+        />
+      )}
       {modalContent && (
         <Modal
           title={modalContent.title}
-          onClose={() => setModalContent(null)}
-          contentToCopy={modalContent.content}
+          onClose={() => { if (modalContent.taskId) cancelTask(modalContent.taskId); setModalContent(null); }}
+          contentToCopy={modalContent.isStreaming ? undefined : modalContent.content}
+          onStop={modalContent.isStreaming && modalContent.taskId ? () => cancelTask(modalContent.taskId!) : undefined}
         >
           <div className="prose dark:prose-invert max-w-none text-sm">
             <pre className="whitespace-pre-wrap font-sans bg-gray-100 dark:bg-gray-700 p-4 rounded-md">
                 {modalContent.content}
+                {modalContent.isStreaming && !modalContent.content && <LoadingSpinner className="w-5 h-5" />}
             </pre>
           </div>
+          {modalContent.titles && modalContent.titles.length > 0 && modalContent.documentId && (
+            <ul className="mt-4 space-y-1">
+              {modalContent.titles.map(title => (
+                <li key={title} className="flex items-center justify-between gap-2 text-sm">
+                  <span className="min-w-0 truncate">{title}</span>
+                  <button
+                    onClick={() => handleApplyTitle(modalContent.documentId!, title)}
+                    className="shrink-0 px-2 py-1 text-xs font-medium text-indigo-700 bg-indigo-50 rounded-md hover:bg-indigo-100 dark:bg-gray-700 dark:text-indigo-300 dark:hover:bg-gray-600"
+                  >
+                    Apply as title
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
         </Modal>
       )}
-      <FabMenu onSelectFeature={setActiveAiFeature} />
-      {activeAiFeature === 'chat' && <ChatModal onClose={() => setActiveAiFeature(null)} />}
-      {activeAiFeature === 'image' && <ImageGenModal onClose={() => setActiveAiFeature(null)} onInsert={(imgTag) => { setMarkdown(prev => prev + '\n' + imgTag); setActiveAiFeature(null);}} />}
-      {activeAiFeature === 'video' && <VideoGenModal onClose={() => setActiveAiFeature(null)} onInsert={(videoTag) => { setMarkdown(prev => prev + '\n' + videoTag); setActiveAiFeature(null);}} />}
-      {activeAiFeature === 'search' && <GroundedSearchModal onClose={() => setActiveAiFeature(null)} onInsert={(text) => { setMarkdown(prev => prev + '\n' + text); setActiveAiFeature(null);}} />}
+      {pendingImport && (
+        <ImportDialog files={pendingImport.files} onImport={handleImport} onClose={() => setPendingImport(null)} />
+      )}
+      {isSettingsOpen && (
+        <SettingsModal
+          onClose={() => setIsSettingsOpen(false)}
+          onManageStyleProfiles={() => { setIsSettingsOpen(false); setIsStyleProfilesOpen(true); }}
+        />
+      )}
+      {isStyleProfilesOpen && (
+        <StyleProfilesModal
+          profiles={styles.profiles}
+          onSave={styles.saveProfile}
+          onDelete={styles.deleteProfile}
+          onClose={() => setIsStyleProfilesOpen(false)}
+        />
+      )}
+      {isTemplateGalleryOpen && (
+        <TemplateGallery
+          templates={templates}
+          onCreate={handleCreateFromTemplate}
+          onDelete={deleteTemplate}
+          onSaveCurrent={handleSaveAsTemplate}
+          onClose={() => setIsTemplateGalleryOpen(false)}
+        />
+      )}
+      {isPromptLibraryOpen && (
+        <PromptLibraryModal
+          customActions={customActions}
+          onSave={saveCustomAction}
+          onDelete={deleteCustomAction}
+          onImport={importCustomActions}
+          exportJson={exportJson}
+          onClose={() => setIsPromptLibraryOpen(false)}
+        />
+      )}
+      {isAssetGalleryOpen && (
+        <AssetGallery
+          documents={documents}
+          onInsert={(asset) => { insertContent(assetMarkdown(asset)); setIsAssetGalleryOpen(false); }}
+          onClose={() => setIsAssetGalleryOpen(false)}
+        />
+      )}
+      <FabMenu onSelectFeature={openAiFeature} />
+      {activeAiFeature === 'chat' && (
+        <ChatModal
+          runTask={runTask}
+          chat={chat}
+          documentTitle={activeDocument?.title ?? 'Untitled'}
+          markdown={markdown}
+          selection={selection}
+          onInsert={(text, position) => insertAiResult(text, position)}
+          onClose={closeAiFeature}
+        />
+      )}
+      {activeAiFeature === 'image' && <ImageGenModal runTask={runTask} studio={imageStudio} canReplace={!!selection?.text} onClose={closeAiFeature} onInsert={(imageTag, position) => insertAiResult(imageTag, position)} />}
+      {activeAiFeature === 'video' && <VideoGenModal onClose={closeAiFeature} onStart={(request) => { videoJobs.startJob(request); closeAiFeature(); }} />}
+      {activeAiFeature === 'search' && <GroundedSearchModal runTask={runTask} markdown={markdown} canReplace={!!selection?.text} onClose={closeAiFeature} onInsert={handleInsertSearchResult} />}
     </div>
   );
 };
@@ -1,7 +1,17 @@
-import React, { useState, useRef, useCallback, useEffect } from 'react';
-import { AiFeature } from '../types';
-import { PlusIcon, XIcon, ChatBubbleIcon, CameraIcon, VideoCameraIcon, SearchIcon, LoadingSpinner } from './icons';
-import { sendMessageToChat, generateImage, generateVideo, runGroundedSearch } from '../services/geminiService';
+import React, { useState, useRef, useCallback, useEffect, useMemo } from 'react';
+import { AiFeature, ChatContext, ChatContextKind, ChatMessage, ChatSession, ImageRequest, InsertPosition, Selection, VideoAspectRatio } from '../types';
+import { PlusIcon, XIcon, ChevronDownIcon, ChatBubbleIcon, CameraIcon, VideoCameraIcon, SearchIcon, TrashIcon, LoadingSpinner } from './icons';
+import { streamMessageToChat, generateImages, varyImagePrompt, runGroundedSearch } from '../services/geminiService';
+import { RunAiTask } from '../hooks/useAiTasks';
+import { ChatSessionsState } from '../hooks/useChatSessions';
+import { ImageGeneration, ImageStudioState } from '../hooks/useImageStudio';
+import { titleFromMessage } from '../services/chatStore';
+import { createId } from '../services/storage';
+import { assetMarkdown, assetName, saveAsset, urlToBlob } from '../services/assets';
+import { VideoRequest } from '../services/videoJobs';
+import { GroundedSearchResult } from '../services/aiProvider';
+import { citeSearchResult, formatCitation } from '../services/citations';
+import MarkdownContent from './MarkdownContent';
 import ReactMarkdown from 'react-markdown';
 import remarkGfm from 'remark-gfm';
 
@@ -57,12 +67,25 @@ export const FabMenu: React.FC<FabMenuProps> = ({ onSelectFeature }) => {
 interface AiModalProps {
     onClose: () => void;
     title: string;
+    /** Widens the modal for layouts with a side column. */
+    wide?: boolean;
     children: React.ReactNode;
 }
 
-const AiModal: React.FC<AiModalProps> = ({ onClose, title, children }) => (
+// Lets a feature modal cancel its in-flight task when it is closed.
+const useCloseSignal = () => {
+    const controllerRef = useRef(new AbortController());
+    useEffect(() => {
+        const controller = new AbortController();
+        controllerRef.current = controller;
+        return () => controller.abort();
+    }, []);
+    return controllerRef;
+};
+
+const AiModal: React.FC<AiModalProps> = ({ onClose, title, wide, children }) => (
     <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4" onClick={onClose}>
-      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-xl w-full max-w-2xl max-h-[80vh] flex flex-col" onClick={e => e.stopPropagation()}>
+      <div className={`bg-white dark:bg-gray-800 rounded-lg shadow-xl w-full ${wide ? 'max-w-4xl h-[80vh]' : 'max-w-2xl max-h-[80vh]'} flex flex-col`} onClick={e => e.stopPropagation()}>
         <div className="flex items-center justify-between p-4 border-b border-gray-200 dark:border-gray-700">
           <h2 className="text-lg font-semibold">{title}</h2>
           <button onClick={onClose} className="p-1 rounded-full hover:bg-gray-200 dark:hover:bg-gray-600">
@@ -74,78 +97,257 @@ const AiModal: React.FC<AiModalProps> = ({ onClose, title, children }) => (
     </div>
 );
 
+// --- Insert Menu ---
+interface InsertMenuProps {
+    onInsert: (position: InsertPosition) => void;
+    /** Whether text was selected when the modal opened, so it can be replaced. */
+    canReplace: boolean;
+    label?: string;
+    disabled?: boolean;
+    /** Renders as an inline link, for use inside message bubbles. */
+    compact?: boolean;
+}
+
+const INSERT_POSITION_LABELS: Record<InsertPosition, string> = {
+    above: 'Insert Above',
+    below: 'Insert Below',
+    replace: 'Replace Selection',
+};
+
+// Inserts below the caret's line by default; the menu offers the other positions.
+const InsertMenu: React.FC<InsertMenuProps> = ({ onInsert, canReplace, label = 'Insert into Document', disabled, compact }) => {
+    const [isOpen, setIsOpen] = useState(false);
+    const choose = (position: InsertPosition) => {
+        setIsOpen(false);
+        onInsert(position);
+    };
+    const buttonClassName = compact
+        ? 'text-xs font-medium text-indigo-600 dark:text-indigo-400 hover:underline disabled:opacity-50'
+        : 'px-4 py-2 text-sm font-medium text-white bg-indigo-600 hover:bg-indigo-700 disabled:bg-indigo-400';
+
+    return (
+        <div
+            className="relative inline-flex"
+            onBlur={(e) => { if (!e.currentTarget.contains(e.relatedTarget as Node | null)) setIsOpen(false); }}
+        >
+            <button onClick={() => choose('below')} disabled={disabled} className={`${buttonClassName} ${compact ? '' : 'rounded-l-md'}`}>
+                {label}
+            </button>
+            <button
+                onClick={() => setIsOpen(prev => !prev)}
+                disabled={disabled}
+                aria-label="Insert Options"
+                title="Insert Options"
+                aria-expanded={isOpen}
+                className={`${buttonClassName} ${compact ? 'ml-1' : 'px-2 rounded-r-md border-l border-indigo-500'}`}
+            >
+                <ChevronDownIcon className={compact ? 'w-3 h-3' : 'w-4 h-4'} />
+            </button>
+            {isOpen && (
+                <div className="absolute bottom-full left-0 mb-1 w-44 py-1 bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-md shadow-lg z-10 text-sm text-gray-700 dark:text-gray-200">
+                    {(Object.keys(INSERT_POSITION_LABELS) as InsertPosition[]).map(position => (
+                        <button
+                            key={position}
+                            onClick={() => choose(position)}
+                            disabled={position === 'replace' && !canReplace}
+                            className="block w-full px-3 py-1.5 text-left hover:bg-gray-100 dark:hover:bg-gray-700 disabled:opacity-40 disabled:hover:bg-transparent"
+                        >
+                            {INSERT_POSITION_LABELS[position]}
+                        </button>
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+};
+
 // --- Chat Modal ---
 interface ChatModalProps {
     onClose: () => void;
+    runTask: RunAiTask;
+    chat: ChatSessionsState;
+    documentTitle: string;
+    markdown: string;
+    selection: Selection | null;
+    onInsert: (text: string, position: InsertPosition) => void;
 }
-interface ChatMessage {
-    sender: 'user' | 'bot';
-    text: string;
-}
 
-export const ChatModal: React.FC<ChatModalProps> = ({ onClose }) => {
-    const [messages, setMessages] = useState<ChatMessage[]>([]);
+type ContextChoice = 'none' | ChatContextKind;
+
+const CONTEXT_LABELS: Record<ChatContextKind, string> = {
+    document: 'Document',
+    selection: 'Selection',
+};
+
+export const ChatModal: React.FC<ChatModalProps> = ({ onClose, runTask, chat, documentTitle, markdown, selection, onInsert }) => {
     const [input, setInput] = useState('');
+    const [contextChoice, setContextChoice] = useState<ContextChoice>('none');
     const [isLoading, setIsLoading] = useState(false);
     const messagesEndRef = useRef<HTMLDivElement>(null);
+    const abortRef = useRef<AbortController | null>(null);
+    const { sessions, activeSession, selectSession, createSession, updateSession, deleteSession } = chat;
+    const messages = activeSession?.messages ?? [];
 
     const scrollToBottom = () => {
         messagesEndRef.current?.scrollIntoView({ behavior: "smooth" });
     }
     useEffect(scrollToBottom, [messages]);
 
+    const buildContext = (): ChatContext | undefined => {
+        if (contextChoice === 'document') return { kind: 'document', title: documentTitle, text: markdown };
+        if (contextChoice === 'selection' && selection?.text) return { kind: 'selection', title: documentTitle, text: selection.text };
+        return undefined;
+    };
+
     const handleSend = async () => {
-        if (!input.trim()) return;
-        const userMessage: ChatMessage = { sender: 'user', text: input };
-        setMessages(prev => [...prev, userMessage]);
+        const text = input.trim();
+        if (!text) return;
+        const session = activeSession ?? createSession();
+        const history = session.messages;
+        const userMessage: ChatMessage = { id: createId(), sender: 'user', text, context: buildContext() };
+        const replyId = createId();
+        updateSession(session.id, current => ({
+            ...current,
+            title: current.messages.length ? current.title : titleFromMessage(text),
+            messages: [...current.messages, userMessage, { id: replyId, sender: 'bot', text: '' }],
+        }));
         setInput('');
+        // Context is attached to one message; the model keeps it in the conversation from then on.
+        setContextChoice('none');
         setIsLoading(true);
 
+        const controller = new AbortController();
+        abortRef.current = controller;
+        const updateReply = (changes: Partial<ChatMessage>, persist: boolean) => updateSession(session.id, current => ({
+            ...current,
+            messages: current.messages.map(message => (message.id === replyId ? { ...message, ...changes } : message)),
+        }), persist);
         try {
-            const botResponse = await sendMessageToChat(input);
-            const botMessage: ChatMessage = { sender: 'bot', text: botResponse };
-            setMessages(prev => [...prev, botMessage]);
+            const botResponse = await runTask(
+                { action: 'chat', label: `Chat: ${text}`, signal: controller.signal },
+                (signal) => streamMessageToChat(session.id, history, userMessage, reply => updateReply({ text: reply }, false), signal)
+            );
+            if (botResponse) {
+                updateReply({ text: botResponse }, true);
+            } else {
+                updateSession(session.id, current => ({ ...current, messages: current.messages.filter(message => message.id !== replyId) }));
+            }
         } catch (error) {
-            const errorMessage: ChatMessage = { sender: 'bot', text: error instanceof Error ? error.message : "An unknown error occurred." };
-            setMessages(prev => [...prev, errorMessage]);
+            updateReply({ text: error instanceof Error ? error.message : "An unknown error occurred.", isError: true }, true);
         } finally {
+            abortRef.current = null;
             setIsLoading(false);
         }
     };
-    
+
+    const handleDelete = (session: ChatSession) => {
+        if (window.confirm(`Delete the chat "${session.title}"?`)) deleteSession(session.id);
+    };
+
+    const handleClose = () => {
+        abortRef.current?.abort();
+        onClose();
+    };
+
     return (
-        <AiModal onClose={onClose} title="AI Chat">
-            <div className="p-6 overflow-y-auto flex-1">
-                <div className="space-y-4">
-                    {messages.map((msg, index) => (
-                        <div key={index} className={`flex ${msg.sender === 'user' ? 'justify-end' : 'justify-start'}`}>
-                            <div className={`max-w-xs md:max-w-md lg:max-w-lg px-4 py-2 rounded-lg ${msg.sender === 'user' ? 'bg-indigo-500 text-white' : 'bg-gray-200 dark:bg-gray-700'}`}>
-                                <div className="prose dark:prose-invert prose-sm max-w-none"><ReactMarkdown remarkPlugins={[remarkGfm]}>{msg.text}</ReactMarkdown></div>
-                            </div>
+        <AiModal onClose={handleClose} title="AI Chat" wide>
+            <div className="flex flex-1 min-h-0">
+                <div className="w-48 flex-shrink-0 border-r border-gray-200 dark:border-gray-700 flex flex-col">
+                    <button
+                        onClick={() => createSession()}
+                        disabled={isLoading}
+                        className="m-2 flex items-center justify-center space-x-1 px-3 py-1.5 text-sm font-medium text-indigo-700 bg-indigo-100 rounded-md hover:bg-indigo-200 dark:bg-indigo-900/50 dark:text-indigo-300 dark:hover:bg-indigo-900 disabled:opacity-50"
+                    >
+                        <PlusIcon className="w-4 h-4" /><span>New Chat</span>
+                    </button>
+                    <ul className="flex-1 overflow-y-auto px-2 pb-2 space-y-1">
+                        {sessions.map(session => (
+                            <li key={session.id}>
+                                <div
+                                    onClick={() => !isLoading && selectSession(session.id)}
+                                    className={`group flex items-center px-2 py-1.5 rounded-md text-sm ${isLoading ? 'cursor-default' : 'cursor-pointer'} ${session.id === activeSession?.id ? 'bg-indigo-50 dark:bg-indigo-900/40 text-indigo-700 dark:text-indigo-300' : 'hover:bg-gray-100 dark:hover:bg-gray-700'}`}
+                                >
+                                    <span className="flex-1 truncate" title={session.title}>{session.title}</span>
+                                    {!isLoading && (
+                                        <button
+                                            onClick={(e) => { e.stopPropagation(); handleDelete(session); }}
+                                            title="Delete Chat"
+                                            aria-label="Delete Chat"
+                                            className="hidden group-hover:block p-0.5 rounded hover:bg-gray-200 dark:hover:bg-gray-600 text-gray-500"
+                                        >
+                                            <TrashIcon className="w-3.5 h-3.5" />
+                                        </button>
+                                    )}
+                                </div>
+                            </li>
+                        ))}
+                    </ul>
+                </div>
+                <div className="flex-1 min-w-0 flex flex-col">
+                    <div className="p-6 overflow-y-auto flex-1">
+                        <div className="space-y-4">
+                            {messages.length === 0 && (
+                                <p className="text-sm text-center text-gray-500 dark:text-gray-400">
+                                    Ask anything. Attach the document or your selection so the AI knows what you're writing.
+                                </p>
+                            )}
+                            {messages.filter(msg => msg.text).map((msg) => (
+                                <div key={msg.id} className={`flex flex-col ${msg.sender === 'user' ? 'items-end' : 'items-start'}`}>
+                                    <div className={`max-w-xs md:max-w-md lg:max-w-lg px-4 py-2 rounded-lg ${msg.sender === 'user' ? 'bg-indigo-500 text-white' : msg.isError ? 'bg-red-100 text-red-800 dark:bg-red-900/50 dark:text-red-200' : 'bg-gray-200 dark:bg-gray-700'}`}>
+                                        <div className="prose dark:prose-invert prose-sm max-w-none"><ReactMarkdown remarkPlugins={[remarkGfm]}>{msg.text}</ReactMarkdown></div>
+                                    </div>
+                                    {msg.context && (
+                                        <span className="mt-1 text-xs text-gray-500 dark:text-gray-400" title={msg.context.text.slice(0, 300)}>
+                                            Attached: {CONTEXT_LABELS[msg.context.kind].toLowerCase()} of "{msg.context.title}"
+                                        </span>
+                                    )}
+                                    {msg.sender === 'bot' && !msg.isError && !(isLoading && msg === messages[messages.length - 1]) && (
+                                        <div className="mt-1">
+                                            <InsertMenu compact onInsert={(position) => onInsert(msg.text, position)} canReplace={!!selection?.text} />
+                                        </div>
+                                    )}
+                                </div>
+                            ))}
+                            {isLoading && !messages[messages.length - 1]?.text && (
+                                <div className="flex justify-start">
+                                    <div className="bg-gray-200 dark:bg-gray-700 px-4 py-2 rounded-lg flex items-center space-x-2">
+                                        <LoadingSpinner className="w-5 h-5"/> <span>Thinking...</span>
+                                    </div>
+                                </div>
+                            )}
+                            <div ref={messagesEndRef} />
                         </div>
-                    ))}
-                    {isLoading && (
-                        <div className="flex justify-start">
-                            <div className="bg-gray-200 dark:bg-gray-700 px-4 py-2 rounded-lg flex items-center space-x-2">
-                                <LoadingSpinner className="w-5 h-5"/> <span>Thinking...</span>
-                            </div>
+                    </div>
+                    <div className="p-4 border-t border-gray-200 dark:border-gray-700 space-y-2">
+                        <div className="flex items-center space-x-2 text-xs text-gray-600 dark:text-gray-300">
+                            <span>Attach:</span>
+                            {(['none', 'document', 'selection'] as ContextChoice[]).map(choice => (
+                                <button
+                                    key={choice}
+                                    onClick={() => setContextChoice(choice)}
+                                    disabled={choice === 'selection' && !selection?.text}
+                                    aria-pressed={contextChoice === choice}
+                                    className={`px-2 py-0.5 rounded-full border disabled:opacity-40 ${contextChoice === choice ? 'border-indigo-500 bg-indigo-50 text-indigo-700 dark:bg-indigo-900/40 dark:text-indigo-300' : 'border-gray-300 dark:border-gray-600 hover:bg-gray-100 dark:hover:bg-gray-700'}`}
+                                >
+                                    {choice === 'none' ? 'Nothing' : CONTEXT_LABELS[choice]}
+                                </button>
+                            ))}
                         </div>
-                    )}
-                    <div ref={messagesEndRef} />
-                </div>
-            </div>
-            <div className="p-4 border-t border-gray-200 dark:border-gray-700">
-                <div className="flex items-center space-x-2">
-                    <input
-                        type="text"
-                        value={input}
-                        onChange={e => setInput(e.target.value)}
-                        onKeyDown={e => e.key === 'Enter' && !isLoading && handleSend()}
-                        placeholder="Type your message..."
-                        disabled={isLoading}
-                        className="flex-1 w-full px-3 py-2 text-sm rounded-md bg-gray-100 dark:bg-gray-700 disabled:opacity-50 transition-colors focus:outline-none focus:ring-2 focus:ring-indigo-500"
-                    />
-                    <button onClick={handleSend} disabled={isLoading || !input.trim()} className="px-4 py-2 text-sm font-medium text-white bg-indigo-600 rounded-md hover:bg-indigo-700 disabled:bg-indigo-400">Send</button>
+                        <div className="flex items-center space-x-2">
+                            <input
+                                type="text"
+                                value={input}
+                                onChange={e => setInput(e.target.value)}
+                                onKeyDown={e => e.key === 'Enter' && !isLoading && handleSend()}
+                                placeholder="Type your message..."
+                                disabled={isLoading}
+                                className="flex-1 w-full px-3 py-2 text-sm rounded-md bg-gray-100 dark:bg-gray-700 disabled:opacity-50 transition-colors focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                            />
+                            {isLoading
+                                ? <button onClick={() => abortRef.current?.abort()} className="px-4 py-2 text-sm font-medium text-red-700 bg-red-100 rounded-md hover:bg-red-200 dark:bg-red-900/50 dark:text-red-300">Stop</button>
+                                : <button onClick={handleSend} disabled={!input.trim()} className="px-4 py-2 text-sm font-medium text-white bg-indigo-600 rounded-md hover:bg-indigo-700 disabled:bg-indigo-400">Send</button>}
+                        </div>
+                    </div>
                 </div>
             </div>
         </AiModal>
@@ -156,24 +358,55 @@ export const ChatModal: React.FC<ChatModalProps> = ({ onClose }) => {
 // --- Image Generation Modal ---
 interface ImageGenModalProps {
     onClose: () => void;
-    onInsert: (imageTag: string) => void;
+    onInsert: (imageTag: string, position: InsertPosition) => void;
+    canReplace: boolean;
+    runTask: RunAiTask;
+    studio: ImageStudioState;
 }
 
-export const ImageGenModal: React.FC<ImageGenModalProps> = ({ onClose, onInsert }) => {
-    const [prompt, setPrompt] = useState('');
-    const [aspectRatio, setAspectRatio] = useState('1:1');
+const IMAGE_COUNTS = [1, 2, 3, 4];
+const fieldClassName = "w-full px-3 py-2 text-sm rounded-md bg-gray-100 dark:bg-gray-700 disabled:opacity-50 transition-colors focus:outline-none focus:ring-2 focus:ring-indigo-500";
+
+export const ImageGenModal: React.FC<ImageGenModalProps> = ({ onClose, onInsert, canReplace, runTask, studio }) => {
+    const closeSignal = useCloseSignal();
+    const { presets, savePreset, deletePreset, generations, addGeneration, recordAsset } = studio;
+    // Reopening the modal picks up where the last generation left off.
+    const last = generations[0]?.request;
+    const [prompt, setPrompt] = useState(last?.prompt ?? '');
+    const [style, setStyle] = useState(last?.style ?? '');
+    const [negativePrompt, setNegativePrompt] = useState(last?.negativePrompt ?? '');
+    const [aspectRatio, setAspectRatio] = useState(last?.aspectRatio ?? '1:1');
+    const [count, setCount] = useState(last?.count ?? 1);
+    const [activeId, setActiveId] = useState<string | null>(generations[0]?.id ?? null);
+    const [picked, setPicked] = useState(0);
     const [isLoading, setIsLoading] = useState(false);
-    const [imageUrl, setImageUrl] = useState<string | null>(null);
+    const [isVarying, setIsVarying] = useState(false);
+    const [isInserting, setIsInserting] = useState(false);
     const [error, setError] = useState<string | null>(null);
+    const active = generations.find(generation => generation.id === activeId) ?? null;
+    const isBusy = isLoading || isVarying;
 
-    const handleGenerate = async () => {
-        if (!prompt.trim()) return;
+    const loadRequest = (request: ImageRequest) => {
+        setPrompt(request.prompt);
+        setStyle(request.style);
+        setNegativePrompt(request.negativePrompt);
+        setAspectRatio(request.aspectRatio);
+        setCount(request.count);
+    };
+
+    const generate = async (request: ImageRequest) => {
+        if (!request.prompt.trim()) return;
         setIsLoading(true);
-        setImageUrl(null);
         setError(null);
         try {
-            const url = await generateImage(prompt, aspectRatio);
-            setImageUrl(url);
+            const images = await runTask(
+                { action: 'image', label: `Image: ${request.prompt}`, signal: closeSignal.current.signal },
+                (signal) => generateImages(request, signal)
+            );
+            if (images) {
+                setActiveId(addGeneration(request, images).id);
+                setPicked(0);
+            }
         } catch (e) {
             setError(e instanceof Error ? e.message : 'Failed to generate image.');
         } finally {
@@ -181,37 +414,181 @@ export const ImageGenModal: React.FC<ImageGenModalProps> = ({ onClose, onInsert
         }
     };
 
+    const handleGenerate = () => generate({ prompt: prompt.trim(), style, negativePrompt, aspectRatio, count });
+
+    const handleRegenerate = (generation: ImageGeneration) => {
+        loadRequest(generation.request);
+        generate(generation.request);
+    };
+
+    const handleVary = async () => {
+        if (!prompt.trim()) return;
+        setIsVarying(true);
+        setError(null);
+        try {
+            const varied = await runTask(
+                { action: 'image', label: `Vary prompt: ${prompt}`, signal: closeSignal.current.signal },
+                (signal) => varyImagePrompt(prompt, signal)
+            );
+            if (varied) setPrompt(varied);
+        } catch (e) {
+            setError(e instanceof Error ? e.message : 'Failed to vary the prompt.');
+        } finally {
+            setIsVarying(false);
+        }
+    };
+
+    const handlePreset = (id: string) => {
+        const preset = presets.find(candidate => candidate.id === id);
+        setStyle(preset?.style ?? '');
+        setNegativePrompt(preset?.negativePrompt ?? '');
+    };
+
+    const handleSavePreset = () => {
+        const name = window.prompt('Name this style preset:')?.trim();
+        if (name) savePreset({ name, style, negativePrompt });
+    };
+
+    const selectedPreset = presets.find(preset => preset.style === style && preset.negativePrompt === negativePrompt);
+
+    const handleDeletePreset = () => {
+        if (selectedPreset && window.confirm(`Delete the preset "${selectedPreset.name}"?`)) deletePreset(selectedPreset.id);
+    };
+
+    const handleInsert = async (position: InsertPosition) => {
+        if (!active) return;
+        setIsInserting(true);
+        setError(null);
+        try {
+            let asset = active.assets[picked];
+            if (!asset) {
+                asset = await saveAsset(await urlToBlob(active.images[picked]), assetName(active.request.prompt), 'generated');
+                recordAsset(active.id, picked, asset);
+            }
+            onInsert(assetMarkdown(asset, active.request.prompt), position);
+        } catch (e) {
+            setError(e instanceof Error ? e.message : 'Failed to save the image.');
+        } finally {
+            setIsInserting(false);
+        }
+    };
+
     return (
-        <AiModal onClose={onClose} title="Generate Image">
-            <div className="p-6 space-y-4 overflow-y-auto flex-1">
-                <textarea
-                    value={prompt}
-                    onChange={(e) => setPrompt(e.target.value)}
-                    placeholder="e.g., A photorealistic image of a cat wearing a tiny hat"
-                    rows={3}
-                    disabled={isLoading}
-                    className="w-full px-3 py-2 text-sm rounded-md bg-gray-100 dark:bg-gray-700 disabled:opacity-50 transition-colors focus:outline-none focus:ring-2 focus:ring-indigo-500 resize-none"
-                />
-                <div className="flex items-center space-x-4">
-                    <label className="text-sm font-medium">Aspect Ratio:</label>
-                    <select value={aspectRatio} onChange={e => setAspectRatio(e.target.value)} disabled={isLoading} className="px-3 py-2 text-sm rounded-md bg-gray-100 dark:bg-gray-700">
-                        {["1:1", "16:9", "9:16", "4:3", "3:4"].map(r => <option key={r} value={r}>{r}</option>)}
-                    </select>
+        <AiModal onClose={onClose} title="Generate Image" wide>
+            <div className="flex flex-1 min-h-0">
+                <div className="flex-1 min-w-0 flex flex-col">
+                    <div className="p-6 space-y-4 overflow-y-auto flex-1">
+                        <textarea
+                            value={prompt}
+                            onChange={(e) => setPrompt(e.target.value)}
+                            placeholder="e.g., A photorealistic image of a cat wearing a tiny hat"
+                            rows={3}
+                            disabled={isBusy}
+                            className={`${fieldClassName} resize-none`}
+                        />
+                        <div className="grid grid-cols-2 gap-3">
+                            <label className="space-y-1 text-sm font-medium">
+                                <span>Style preset</span>
+                                <div className="flex items-center space-x-1">
+                                    <select value={selectedPreset?.id ?? ''} onChange={e => handlePreset(e.target.value)} disabled={isBusy} className={fieldClassName}>
+                                        <option value="">{style || negativePrompt ? 'Custom' : 'None'}</option>
+                                        {presets.map(preset => <option key={preset.id} value={preset.id}>{preset.name}</option>)}
+                                    </select>
+                                    {selectedPreset
+                                        ? <button onClick={handleDeletePreset} title="Delete Preset" aria-label="Delete Preset" className="p-2 rounded-md text-gray-500 hover:bg-gray-200 dark:hover:bg-gray-600"><TrashIcon className="w-4 h-4" /></button>
+                                        : <button onClick={handleSavePreset} disabled={!style && !negativePrompt} title="Save as Preset" aria-label="Save as Preset" className="p-2 rounded-md text-indigo-500 hover:bg-gray-200 dark:hover:bg-gray-600 disabled:opacity-40"><PlusIcon className="w-4 h-4" /></button>}
+                                </div>
+                            </label>
+                            <div className="grid grid-cols-2 gap-3">
+                                <label className="space-y-1 text-sm font-medium">
+                                    <span>Aspect ratio</span>
+                                    <select value={aspectRatio} onChange={e => setAspectRatio(e.target.value)} disabled={isBusy} className={fieldClassName}>
+                                        {["1:1", "16:9", "9:16", "4:3", "3:4"].map(r => <option key={r} value={r}>{r}</option>)}
+                                    </select>
+                                </label>
+                                <label className="space-y-1 text-sm font-medium">
+                                    <span>Images</span>
+                                    <select value={count} onChange={e => setCount(Number(e.target.value))} disabled={isBusy} className={fieldClassName}>
+                                        {IMAGE_COUNTS.map(n => <option key={n} value={n}>{n}</option>)}
+                                    </select>
+                                </label>
+                            </div>
+                            <label className="space-y-1 text-sm font-medium">
+                                <span>Style</span>
+                                <input value={style} onChange={e => setStyle(e.target.value)} disabled={isBusy} placeholder="e.g., watercolor, soft light" className={fieldClassName} />
+                            </label>
+                            <label className="space-y-1 text-sm font-medium">
+                                <span>Avoid (negative prompt)</span>
+                                <input value={negativePrompt} onChange={e => setNegativePrompt(e.target.value)} disabled={isBusy} placeholder="e.g., text, watermark" className={fieldClassName} />
+                            </label>
+                        </div>
+                        {isLoading && <div className="flex items-center justify-center p-8"><LoadingSpinner className="w-8 h-8"/></div>}
+                        {error && <div className="text-red-500 text-sm p-2 bg-red-100 dark:bg-red-900/50 rounded-md">{error}</div>}
+                        {active && !isLoading && (
+                            <div className="space-y-2">
+                                <div className={`grid gap-2 ${active.images.length > 1 ? 'grid-cols-2' : 'grid-cols-1'}`}>
+                                    {active.images.map((url, index) => (
+                                        <button
+                                            key={index}
+                                            onClick={() => setPicked(index)}
+                                            aria-pressed={picked === index}
+                                            className={`rounded-md overflow-hidden border-2 flex items-center justify-center bg-gray-100 dark:bg-gray-900 ${picked === index ? 'border-indigo-500' : 'border-transparent hover:border-gray-300 dark:hover:border-gray-600'}`}
+                                        >
+                                            <img src={url} alt={`${active.request.prompt} (${index + 1})`} className="max-w-full max-h-64" />
+                                        </button>
+                                    ))}
+                                </div>
+                                <div className="flex justify-center">
+                                    <InsertMenu
+                                        onInsert={handleInsert}
+                                        canReplace={canReplace}
+                                        disabled={isInserting}
+                                        label={active.images.length > 1 ? `Insert Image ${picked + 1}` : 'Insert into Document'}
+                                    />
+                                </div>
+                            </div>
+                        )}
+                    </div>
+                    <div className="p-4 border-t border-gray-200 dark:border-gray-700 flex justify-end space-x-2">
+                        <button onClick={handleVary} disabled={isBusy || !prompt.trim()} title="Rewrite the prompt as a variation" className="px-4 py-2 text-sm font-medium text-indigo-700 bg-indigo-100 rounded-md hover:bg-indigo-200 dark:bg-indigo-900/50 dark:text-indigo-300 dark:hover:bg-indigo-900 disabled:opacity-50">
+                            {isVarying ? 'Varying...' : 'Vary Prompt'}
+                        </button>
+                        <button onClick={handleGenerate} disabled={isBusy || !prompt.trim()} className="px-4 py-2 text-sm font-medium text-white bg-indigo-600 rounded-md hover:bg-indigo-700 disabled:bg-indigo-400">
+                            {isLoading ? 'Generating...' : 'Generate'}
+                        </button>
+                    </div>
                 </div>
-                {isLoading && <div className="flex items-center justify-center p-8"><LoadingSpinner className="w-8 h-8"/></div>}
-                {error && <div className="text-red-500 text-sm p-2 bg-red-100 dark:bg-red-900/50 rounded-md">{error}</div>}
-                {imageUrl && (
-                    <div className="flex flex-col items-center space-y-2">
-                        <img src={imageUrl} alt={prompt} className="max-w-full max-h-64 rounded-md" />
-                        <button onClick={() => onInsert(`![${prompt}](${imageUrl})`)} className="px-4 py-2 text-sm font-medium text-white bg-indigo-600 rounded-md hover:bg-indigo-700">Insert into Document</button>
+                {generations.length > 0 && (
+                    <div className="w-56 flex-shrink-0 border-l border-gray-200 dark:border-gray-700 flex flex-col">
+                        <h3 className="px-4 pt-4 pb-2 text-xs font-semibold text-gray-500 dark:text-gray-400 uppercase tracking-wider">History</h3>
+                        <ul className="flex-1 overflow-y-auto px-2 pb-2 space-y-1">
+                            {generations.map(generation => (
+                                <li key={generation.id}>
+                                    <div
+                                        onClick={() => { if (isBusy) return; setActiveId(generation.id); setPicked(0); loadRequest(generation.request); }}
+                                        className={`group p-2 rounded-md text-xs ${isBusy ? 'cursor-default' : 'cursor-pointer'} ${generation.id === active?.id ? 'bg-indigo-50 dark:bg-indigo-900/40' : 'hover:bg-gray-100 dark:hover:bg-gray-700'}`}
+                                    >
+                                        <div className="flex space-x-1 mb-1">
+                                            {generation.images.map((url, index) => <img key={index} src={url} alt="" className="w-8 h-8 object-cover rounded" />)}
+                                        </div>
+                                        <div className="line-clamp-2" title={generation.request.prompt}>{generation.request.prompt}</div>
+                                        <div className="flex items-center justify-between text-gray-400">
+                                            <span>{new Date(generation.createdAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}</span>
+                                            <button
+                                                onClick={(e) => { e.stopPropagation(); handleRegenerate(generation); }}
+                                                disabled={isBusy}
+                                                className="hidden group-hover:inline text-indigo-600 dark:text-indigo-400 hover:underline disabled:opacity-50"
+                                            >
+                                                Regenerate
+                                            </button>
+                                        </div>
+                                    </div>
+                                </li>
+                            ))}
+                        </ul>
                     </div>
                 )}
             </div>
-            <div className="p-4 border-t border-gray-200 dark:border-gray-700 flex justify-end">
-                <button onClick={handleGenerate} disabled={isLoading || !prompt.trim()} className="px-4 py-2 text-sm font-medium text-white bg-indigo-600 rounded-md hover:bg-indigo-700 disabled:bg-indigo-400">
-                    {isLoading ? 'Generating...' : 'Generate'}
-                </button>
-            </div>
         </AiModal>
     );
 };
@@ -220,17 +597,14 @@ export const ImageGenModal: React.FC<ImageGenModalProps> = ({ onClose, onInsert
 // --- Video Generation Modal ---
 interface VideoGenModalProps {
     onClose: () => void;
-    onInsert: (videoTag: string) => void;
+    /** Hands the request to the background job queue; progress is shown outside the modal. */
+    onStart: (request: VideoRequest) => void;
 }
 
-export const VideoGenModal: React.FC<VideoGenModalProps> = ({ onClose, onInsert }) => {
+export const VideoGenModal: React.FC<VideoGenModalProps> = ({ onClose, onStart }) => {
     const [prompt, setPrompt] = useState('');
     const [imageBase64, setImageBase64] = useState('');
-    const [aspectRatio, setAspectRatio] = useState<'16:9' | '9:16'>('16:9');
-    const [isLoading, setIsLoading] = useState(false);
-    const [videoUrl, setVideoUrl] = useState<string | null>(null);
-    const [error, setError] = useState<string | null>(null);
-    const [progressMessage, setProgressMessage] = useState('');
+    const [aspectRatio, setAspectRatio] = useState<VideoAspectRatio>('16:9');
 
     const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
         const file = e.target.files?.[0];
@@ -244,25 +618,9 @@ export const VideoGenModal: React.FC<VideoGenModalProps> = ({ onClose, onInsert
         }
     };
 
-    const handleGenerate = async () => {
-        if (!prompt.trim() || !imageBase64) {
-            setError('Prompt and starting image are required.');
-            return;
-        }
-        setIsLoading(true);
-        setVideoUrl(null);
-        setError(null);
-        setProgressMessage('');
-
-        try {
-            const url = await generateVideo(prompt, imageBase64, aspectRatio, setProgressMessage);
-            setVideoUrl(url);
-        } catch (e) {
-            setError(e instanceof Error ? e.message : 'Failed to generate video.');
-        } finally {
-            setIsLoading(false);
-            setProgressMessage('');
-        }
+    const handleGenerate = () => {
+        if (!prompt.trim() || !imageBase64) return;
+        onStart({ prompt: prompt.trim(), imageBase64, aspectRatio });
     };
 
     return (
@@ -273,37 +631,26 @@ export const VideoGenModal: React.FC<VideoGenModalProps> = ({ onClose, onInsert
                     onChange={(e) => setPrompt(e.target.value)}
                     placeholder="e.g., A cinematic shot of the cat flying through space"
                     rows={3}
-                    disabled={isLoading}
                     className="w-full px-3 py-2 text-sm rounded-md bg-gray-100 dark:bg-gray-700 disabled:opacity-50 resize-none"
                 />
                  <div className="space-y-2">
                     <label className="text-sm font-medium">Starting Image:</label>
-                    <input type="file" accept="image/png, image/jpeg" onChange={handleFileChange} disabled={isLoading} className="text-sm file:mr-4 file:py-2 file:px-4 file:rounded-full file:border-0 file:text-sm file:font-semibold file:bg-indigo-50 file:text-indigo-700 hover:file:bg-indigo-100"/>
+                    <input type="file" accept="image/png, image/jpeg" onChange={handleFileChange} className="text-sm file:mr-4 file:py-2 file:px-4 file:rounded-full file:border-0 file:text-sm file:font-semibold file:bg-indigo-50 file:text-indigo-700 hover:file:bg-indigo-100"/>
                     {imageBase64 && <img src={`data:image/png;base64,${imageBase64}`} className="max-h-24 rounded-md border" alt="Preview"/>}
                 </div>
                 <div className="flex items-center space-x-4">
                     <label className="text-sm font-medium">Aspect Ratio:</label>
-                    <select value={aspectRatio} onChange={e => setAspectRatio(e.target.value as '16:9' | '9:16')} disabled={isLoading} className="px-3 py-2 text-sm rounded-md bg-gray-100 dark:bg-gray-700">
+                    <select value={aspectRatio} onChange={e => setAspectRatio(e.target.value as VideoAspectRatio)} className="px-3 py-2 text-sm rounded-md bg-gray-100 dark:bg-gray-700">
                         {["16:9", "9:16"].map(r => <option key={r} value={r}>{r}</option>)}
                     </select>
                 </div>
-                {isLoading && (
-                    <div className="flex flex-col items-center justify-center p-8 space-y-2">
-                        <LoadingSpinner className="w-8 h-8"/>
-                        <p className="text-sm text-gray-500 dark:text-gray-400">{progressMessage || 'Generating video...'}</p>
-                    </div>
-                )}
-                {error && <div className="text-red-500 text-sm p-2 bg-red-100 dark:bg-red-900/50 rounded-md">{error}</div>}
-                {videoUrl && (
-                    <div className="flex flex-col items-center space-y-2">
-                        <video src={videoUrl} controls className="max-w-full max-h-64 rounded-md" />
-                        <button onClick={() => onInsert(`<video src="${videoUrl}" controls></video>`)} className="px-4 py-2 text-sm font-medium text-white bg-indigo-600 rounded-md hover:bg-indigo-700">Insert into Document</button>
-                    </div>
-                )}
+                <p className="text-xs text-gray-500 dark:text-gray-400">
+                    Videos take a few minutes. Generation continues in the background, even across reloads; follow it from the status bar and insert the video from there when it's ready.
+                </p>
             </div>
             <div className="p-4 border-t flex justify-end">
-                <button onClick={handleGenerate} disabled={isLoading || !prompt.trim() || !imageBase64} className="px-4 py-2 text-sm font-medium text-white bg-indigo-600 rounded-md hover:bg-indigo-700 disabled:bg-indigo-400">
-                    {isLoading ? 'Generating...' : 'Generate'}
+                <button onClick={handleGenerate} disabled={!prompt.trim() || !imageBase64} className="px-4 py-2 text-sm font-medium text-white bg-indigo-600 rounded-md hover:bg-indigo-700 disabled:bg-indigo-400">
+                    Start Generating
                 </button>
             </div>
         </AiModal>
@@ -313,23 +660,37 @@ export const VideoGenModal: React.FC<VideoGenModalProps> = ({ onClose, onInsert
 // --- Grounded Search Modal ---
 interface GroundedSearchModalProps {
     onClose: () => void;
-    onInsert: (text: string) => void;
+    onInsert: (result: GroundedSearchResult, position: InsertPosition) => void;
+    canReplace: boolean;
+    runTask: RunAiTask;
+    /** The document the answer will be inserted into, so footnote numbers match its bibliography. */
+    markdown: string;
 }
 
-export const GroundedSearchModal: React.FC<GroundedSearchModalProps> = ({ onClose, onInsert }) => {
+export const GroundedSearchModal: React.FC<GroundedSearchModalProps> = ({ onClose, onInsert, canReplace, runTask, markdown }) => {
+    const closeSignal = useCloseSignal();
     const [prompt, setPrompt] = useState('');
     const [isLoading, setIsLoading] = useState(false);
-    const [result, setResult] = useState<string | null>(null);
+    const [result, setResult] = useState<GroundedSearchResult | null>(null);
     const [error, setError] = useState<string | null>(null);
 
+    const preview = useMemo(() => {
+        if (!result) return null;
+        const { text, cited } = citeSearchResult(result, markdown);
+        return cited.length ? `${text}\n\n${cited.map(formatCitation).join('\n')}` : text;
+    }, [result, markdown]);
+
     const handleSearch = async () => {
         if (!prompt.trim()) return;
         setIsLoading(true);
         setResult(null);
         setError(null);
         try {
-            const response = await runGroundedSearch(prompt);
-            setResult(response);
+            const response = await runTask(
+                { action: 'search', label: `Search: ${prompt}`, signal: closeSignal.current.signal },
+                (signal) => runGroundedSearch(prompt, signal)
+            );
+            if (response) setResult(response);
         } catch (e) {
             setError(e instanceof Error ? e.message : 'Failed to perform search.');
         } finally {
@@ -350,16 +711,19 @@ export const GroundedSearchModal: React.FC<GroundedSearchModalProps> = ({ onClos
                 />
                 {isLoading && <div className="flex items-center justify-center p-8"><LoadingSpinner className="w-8 h-8"/></div>}
                 {error && <div className="text-red-500 text-sm p-2 bg-red-100 dark:bg-red-900/50 rounded-md">{error}</div>}
-                {result && (
+                {preview && (
                     <div className="prose dark:prose-invert max-w-none text-sm p-4 bg-gray-50 dark:bg-gray-900 rounded-md">
-                        <ReactMarkdown remarkPlugins={[remarkGfm]}>{result}</ReactMarkdown>
+                        <MarkdownContent markdown={preview} />
                     </div>
                 )}
             </div>
             <div className="p-4 border-t flex justify-between items-center">
-                 <button onClick={() => onInsert(result || '')} disabled={!result} className="px-4 py-2 text-sm font-medium text-white bg-indigo-600 rounded-md hover:bg-indigo-700 disabled:bg-indigo-400">
-                    Insert into Document
-                </button>
+                 <InsertMenu
+                    onInsert={(position) => result && onInsert(result, position)}
+                    canReplace={canReplace}
+                    disabled={!result}
+                    label="Insert with Citations"
+                 />
                 <button onClick={handleSearch} disabled={isLoading || !prompt.trim()} className="px-4 py-2 text-sm font-medium text-white bg-indigo-600 rounded-md hover:bg-indigo-700 disabled:bg-indigo-400">
                     {isLoading ? 'Searching...' : 'Search'}
                 </button>
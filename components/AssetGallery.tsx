@@ -0,0 +1,138 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { MarkdownDocument } from '../types';
+import { MediaAsset, assetStore, assetUrl, isMediaFile, objectUrlFor, releaseObjectUrl, saveAsset } from '../services/assets';
+import { XIcon, PlusIcon, TrashIcon } from './icons';
+
+interface AssetGalleryProps {
+  /** Used to show where each asset is referenced before it is deleted. */
+  documents: MarkdownDocument[];
+  onInsert: (asset: MediaAsset) => void;
+  onClose: () => void;
+}
+
+const formatSize = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+const AssetGallery: React.FC<AssetGalleryProps> = ({ documents, onInsert, onClose }) => {
+  const [assets, setAssets] = useState<MediaAsset[] | null>(null);
+  const [message, setMessage] = useState<{ type: 'error' | 'info'; text: string } | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    assetStore.list()
+      .then(list => { if (!cancelled) setAssets(list.sort((a, b) => b.createdAt - a.createdAt)); })
+      .catch(error => {
+        console.error('Failed to load media:', error);
+        if (!cancelled) {
+          setAssets([]);
+          setMessage({ type: 'error', text: 'The media library could not be loaded.' });
+        }
+      });
+    return () => { cancelled = true; };
+  }, []);
+
+  const usedIn = (asset: MediaAsset) => documents.filter(doc => doc.content.includes(assetUrl(asset.id)));
+
+  const handleUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files ?? []);
+    e.target.value = '';
+    const media = files.filter(isMediaFile);
+    try {
+      const saved = await Promise.all(media.map(file => saveAsset(file, file.name, 'upload')));
+      setAssets(prev => [...saved, ...(prev ?? [])]);
+      const skipped = files.length - media.length;
+      setMessage(skipped
+        ? { type: 'error', text: `${skipped} ${skipped === 1 ? 'file was' : 'files were'} skipped: only images and videos can be added.` }
+        : { type: 'info', text: `Added ${saved.length} ${saved.length === 1 ? 'file' : 'files'}.` });
+    } catch (error) {
+      console.error('Upload failed:', error);
+      setMessage({ type: 'error', text: error instanceof Error ? error.message : 'Upload failed.' });
+    }
+  };
+
+  const handleDelete = async (asset: MediaAsset) => {
+    const references = usedIn(asset);
+    const warning = references.length
+      ? `"${asset.name}" is used in ${references.map(doc => `"${doc.title}"`).join(', ')}. Those references will stop working. Delete it anyway?`
+      : `Delete "${asset.name}"? This cannot be undone.`;
+    if (!window.confirm(warning)) return;
+    try {
+      await assetStore.remove(asset.id);
+      releaseObjectUrl(asset.id);
+      setAssets(prev => (prev ?? []).filter(existing => existing.id !== asset.id));
+    } catch (error) {
+      console.error('Delete failed:', error);
+      setMessage({ type: 'error', text: 'The file could not be deleted.' });
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4" onClick={onClose}>
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-xl w-full max-w-4xl max-h-[80vh] flex flex-col" onClick={e => e.stopPropagation()}>
+        <div className="flex items-center justify-between p-4 border-b border-gray-200 dark:border-gray-700">
+          <h2 className="text-lg font-semibold">Media Library</h2>
+          <div className="flex items-center space-x-2">
+            <button
+              onClick={() => fileInputRef.current?.click()}
+              className="flex items-center space-x-1 px-3 py-1.5 text-sm font-medium text-indigo-700 bg-indigo-100 rounded-md hover:bg-indigo-200 dark:bg-indigo-900/50 dark:text-indigo-300 dark:hover:bg-indigo-900"
+            >
+              <PlusIcon className="w-4 h-4" /><span>Upload</span>
+            </button>
+            <input ref={fileInputRef} type="file" accept="image/*,video/*" multiple className="hidden" onChange={handleUpload} />
+            <button onClick={onClose} className="p-1 rounded-full hover:bg-gray-200 dark:hover:bg-gray-600">
+              <XIcon className="w-5 h-5" />
+            </button>
+          </div>
+        </div>
+        <div className="p-6 overflow-y-auto flex-1 space-y-4">
+          {message && (
+            <div className={`text-sm p-2 rounded-md ${message.type === 'error' ? 'text-red-500 bg-red-100 dark:bg-red-900/50' : 'text-green-700 bg-green-100 dark:text-green-300 dark:bg-green-900/50'}`}>
+              {message.text}
+            </div>
+          )}
+          {assets?.length === 0 && (
+            <p className="text-sm text-center text-gray-500 dark:text-gray-400 py-8">
+              Generated images and videos are saved here. Upload your own or drop them onto the editor.
+            </p>
+          )}
+          <ul className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 gap-4">
+            {assets?.map(asset => {
+              const url = objectUrlFor(asset);
+              const references = usedIn(asset).length;
+              return (
+                <li key={asset.id} className="group flex flex-col rounded-md border border-gray-200 dark:border-gray-700 overflow-hidden">
+                  <div className="relative aspect-square bg-gray-100 dark:bg-gray-900 flex items-center justify-center">
+                    {asset.mimeType.startsWith('video/')
+                      ? <video src={url} muted className="max-w-full max-h-full" />
+                      : <img src={url} alt={asset.name} className="max-w-full max-h-full object-contain" />}
+                    <div className="absolute inset-0 hidden group-hover:flex items-center justify-center space-x-2 bg-black/40">
+                      <button onClick={() => onInsert(asset)} className="px-3 py-1.5 text-xs font-medium text-white bg-indigo-600 rounded-md hover:bg-indigo-700">
+                        Insert
+                      </button>
+                      <button onClick={() => handleDelete(asset)} title="Delete" aria-label="Delete" className="p-1.5 rounded-md bg-white/90 text-red-600 hover:bg-white">
+                        <TrashIcon className="w-4 h-4" />
+                      </button>
+                    </div>
+                  </div>
+                  <div className="p-2 text-xs">
+                    <div className="truncate font-medium" title={asset.name}>{asset.name}</div>
+                    <div className="text-gray-500 dark:text-gray-400">
+                      {formatSize(asset.size)} · {asset.source === 'generated' ? 'Generated' : 'Uploaded'}
+                      {references > 0 && ` · in ${references} ${references === 1 ? 'doc' : 'docs'}`}
+                    </div>
+                  </div>
+                </li>
+              );
+            })}
+          </ul>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default AssetGallery;
@@ -0,0 +1,127 @@
+import React, { useState, useMemo, useEffect } from 'react';
+import { diffWords, applyHunks } from '../services/diff';
+import { findBannedWords } from '../services/styleProfiles';
+import { XIcon, LoadingSpinner } from './icons';
+
+interface DiffReviewProps {
+  title: string;
+  original: string;
+  proposed: string;
+  isRegenerating: boolean;
+  onAccept: (text: string) => void;
+  onReject: () => void;
+  onRegenerate: () => void;
+  /** From the style profile the rewrite followed; any left in the proposal are flagged. */
+  bannedWords?: string[];
+}
+
+const DiffReview: React.FC<DiffReviewProps> = ({ title, original, proposed, isRegenerating, onAccept, onReject, onRegenerate, bannedWords }) => {
+  const segments = useMemo(() => diffWords(original, proposed), [original, proposed]);
+  const hunkIds = useMemo(
+    () => segments.flatMap(segment => (segment.type === 'change' ? [segment.id] : [])),
+    [segments]
+  );
+  const [accepted, setAccepted] = useState<Set<number>>(() => new Set(hunkIds));
+
+  // A regenerated proposal starts over with every hunk accepted.
+  useEffect(() => {
+    setAccepted(new Set(hunkIds));
+  }, [hunkIds]);
+
+  const toggleHunk = (id: number, accept: boolean) => {
+    setAccepted(prev => {
+      const next = new Set(prev);
+      if (accept) next.add(id);
+      else next.delete(id);
+      return next;
+    });
+  };
+
+  const banned = useMemo(() => findBannedWords(proposed, bannedWords ?? []), [proposed, bannedWords]);
+
+  const acceptedCount = hunkIds.filter(id => accepted.has(id)).length;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4" onClick={onReject}>
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-xl w-full max-w-3xl max-h-[80vh] flex flex-col" onClick={e => e.stopPropagation()}>
+        <div className="flex items-center justify-between p-4 border-b border-gray-200 dark:border-gray-700">
+          <h2 className="text-lg font-semibold">Review: {title}</h2>
+          <button onClick={onReject} className="p-1 rounded-full hover:bg-gray-200 dark:hover:bg-gray-600">
+            <XIcon className="w-5 h-5" />
+          </button>
+        </div>
+        <div className="px-6 pt-4 text-xs text-gray-500 dark:text-gray-400">
+          {hunkIds.length === 0
+            ? 'The AI proposed no changes.'
+            : `${acceptedCount} of ${hunkIds.length} ${hunkIds.length === 1 ? 'change' : 'changes'} selected. Use ✓ / ✕ to accept or reject individual changes.`}
+        </div>
+        {banned.length > 0 && (
+          <div className="mx-6 mt-3 text-sm p-2 rounded-md text-amber-800 bg-amber-100 dark:text-amber-300 dark:bg-amber-900/50">
+            Uses banned words: {banned.map(({ word, count }) => (count > 1 ? `${word} (${count}×)` : word)).join(', ')}. Reject or regenerate to keep them out.
+          </div>
+        )}
+        <div className={`p-6 overflow-y-auto text-sm leading-relaxed whitespace-pre-wrap font-mono ${isRegenerating ? 'opacity-50' : ''}`}>
+          {segments.map((segment, index) => {
+            if (segment.type === 'equal') return <span key={index}>{segment.text}</span>;
+            const isAccepted = accepted.has(segment.id);
+            return (
+              <span key={index} className="group relative rounded ring-1 ring-transparent hover:ring-indigo-300 dark:hover:ring-indigo-600">
+                {segment.removed && (
+                  <del className={`px-0.5 rounded ${isAccepted ? 'bg-red-100 text-red-700 dark:bg-red-900/50 dark:text-red-300' : 'no-underline'}`}>{segment.removed}</del>
+                )}
+                {segment.added && (
+                  <ins className={`px-0.5 rounded no-underline ${isAccepted ? 'bg-green-100 text-green-800 dark:bg-green-900/50 dark:text-green-300' : 'line-through opacity-50'}`}>{segment.added}</ins>
+                )}
+                <span className="inline-flex align-middle ml-0.5 space-x-0.5 font-sans">
+                  <button
+                    onClick={() => toggleHunk(segment.id, true)}
+                    title="Accept change"
+                    aria-label="Accept change"
+                    className={`px-1 text-xs rounded ${isAccepted ? 'bg-green-600 text-white' : 'bg-gray-200 dark:bg-gray-700'}`}
+                  >
+                    ✓
+                  </button>
+                  <button
+                    onClick={() => toggleHunk(segment.id, false)}
+                    title="Reject change"
+                    aria-label="Reject change"
+                    className={`px-1 text-xs rounded ${!isAccepted ? 'bg-red-600 text-white' : 'bg-gray-200 dark:bg-gray-700'}`}
+                  >
+                    ✕
+                  </button>
+                </span>
+              </span>
+            );
+          })}
+        </div>
+        <div className="flex justify-between p-4 border-t border-gray-200 dark:border-gray-700">
+          <button
+            onClick={onRegenerate}
+            disabled={isRegenerating}
+            className="flex items-center px-4 py-2 text-sm font-medium text-gray-700 bg-gray-100 rounded-md hover:bg-gray-200 dark:bg-gray-700 dark:text-gray-200 dark:hover:bg-gray-600 disabled:opacity-50"
+          >
+            {isRegenerating && <LoadingSpinner className="w-4 h-4 mr-2" />}
+            Regenerate
+          </button>
+          <div className="flex">
+            <button
+              onClick={onReject}
+              className="px-4 py-2 text-sm font-medium text-gray-700 bg-gray-100 rounded-md hover:bg-gray-200 dark:bg-gray-700 dark:text-gray-200 dark:hover:bg-gray-600"
+            >
+              Reject
+            </button>
+            <button
+              onClick={() => onAccept(applyHunks(segments, accepted))}
+              disabled={isRegenerating || acceptedCount === 0}
+              className="ml-2 px-4 py-2 text-sm font-medium text-white bg-indigo-600 rounded-md hover:bg-indigo-700 disabled:bg-indigo-400 disabled:cursor-not-allowed"
+            >
+              Accept
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default DiffReview;
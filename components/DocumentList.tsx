@@ -0,0 +1,161 @@
+import React, { useState, useMemo } from 'react';
+import { MarkdownDocument } from '../types';
+import { collectTags, parseFrontMatter } from '../services/frontMatter';
+import { PlusIcon, DocumentIcon, DuplicateIcon, PencilIcon, TrashIcon, SearchIcon } from './icons';
+
+interface DocumentListProps {
+  documents: MarkdownDocument[];
+  activeId: string | null;
+  onSelect: (id: string) => void;
+  onCreate: () => void;
+  onRename: (id: string, title: string) => void;
+  onDuplicate: (id: string) => void;
+  onDelete: (id: string) => void;
+}
+
+const formatUpdatedAt = (timestamp: number) => {
+  const date = new Date(timestamp);
+  const isToday = date.toDateString() === new Date().toDateString();
+  return isToday
+    ? date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })
+    : date.toLocaleDateString();
+};
+
+const IconButton: React.FC<{ onClick: () => void; title: string; children: React.ReactNode }> = ({ onClick, title, children }) => (
+  <button
+    onClick={(e) => { e.stopPropagation(); onClick(); }}
+    title={title}
+    aria-label={title}
+    className="p-1 rounded hover:bg-gray-200 dark:hover:bg-gray-600 text-gray-500 dark:text-gray-400"
+  >
+    {children}
+  </button>
+);
+
+const DocumentList: React.FC<DocumentListProps> = ({ documents, activeId, onSelect, onCreate, onRename, onDuplicate, onDelete }) => {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draftTitle, setDraftTitle] = useState('');
+  const [query, setQuery] = useState('');
+  const [activeTag, setActiveTag] = useState<string | null>(null);
+
+  const tagsById = useMemo(
+    () => new Map(documents.map(doc => [doc.id, parseFrontMatter(doc.content)?.tags ?? []])),
+    [documents]
+  );
+  const allTags = useMemo(() => collectTags(Array.from(tagsById.values())), [tagsById]);
+  // A tag stops filtering once no document uses it any more.
+  const selectedTag = allTags.some(([tag]) => tag === activeTag) ? activeTag : null;
+
+  // Search matches titles and front matter tags; a selected tag narrows the list further.
+  const sortedDocuments = useMemo(() => {
+    const needle = query.trim().toLowerCase();
+    return documents
+      .filter(doc => {
+        const tags = tagsById.get(doc.id) ?? [];
+        if (selectedTag && !tags.includes(selectedTag)) return false;
+        return !needle || doc.title.toLowerCase().includes(needle) || tags.some(tag => tag.toLowerCase().includes(needle));
+      })
+      .sort((a, b) => b.updatedAt - a.updatedAt);
+  }, [documents, tagsById, query, selectedTag]);
+
+  const startRename = (doc: MarkdownDocument) => {
+    setEditingId(doc.id);
+    setDraftTitle(doc.title);
+  };
+
+  const commitRename = () => {
+    if (editingId) onRename(editingId, draftTitle);
+    setEditingId(null);
+  };
+
+  const handleDelete = (doc: MarkdownDocument) => {
+    if (window.confirm(`Delete "${doc.title}"? This cannot be undone.`)) {
+      onDelete(doc.id);
+    }
+  };
+
+  return (
+    <aside className="w-56 bg-white dark:bg-gray-900 border-r border-gray-200 dark:border-gray-700 flex flex-col">
+      <div className="flex items-center justify-between px-4 pt-4 pb-3">
+        <h2 className="text-xs font-semibold text-gray-500 dark:text-gray-400 uppercase tracking-wider">Documents</h2>
+        <button
+          onClick={onCreate}
+          title="New Document"
+          aria-label="New Document"
+          className="p-1 rounded-md hover:bg-gray-200 dark:hover:bg-gray-700 text-indigo-500"
+        >
+          <PlusIcon className="w-4 h-4" />
+        </button>
+      </div>
+      <div className="px-2 pb-2 space-y-2">
+        <div className="relative">
+          <SearchIcon className="absolute left-2 top-1/2 -translate-y-1/2 w-3.5 h-3.5 text-gray-400" />
+          <input
+            type="search"
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder="Search titles and tags"
+            aria-label="Search documents"
+            className="w-full pl-7 pr-2 py-1 text-sm rounded-md bg-gray-100 dark:bg-gray-800 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+          />
+        </div>
+        {allTags.length > 0 && (
+          <div className="flex flex-wrap gap-1">
+            {allTags.map(([tag, count]) => (
+              <button
+                key={tag}
+                onClick={() => setActiveTag(current => (current === tag ? null : tag))}
+                aria-pressed={selectedTag === tag}
+                title={`${count} document${count === 1 ? '' : 's'}`}
+                className={`px-1.5 py-0.5 rounded text-xs ${selectedTag === tag ? 'bg-indigo-600 text-white' : 'bg-gray-100 text-gray-600 hover:bg-gray-200 dark:bg-gray-800 dark:text-gray-300 dark:hover:bg-gray-700'}`}
+              >
+                #{tag}
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+      <ul className="flex-1 overflow-y-auto px-2 pb-4 space-y-1">
+        {sortedDocuments.length === 0 && <li className="px-2 py-2 text-sm text-gray-400">No matching documents.</li>}
+        {sortedDocuments.map(doc => (
+          <li key={doc.id}>
+            <div
+              onClick={() => onSelect(doc.id)}
+              className={`group flex items-center px-2 py-2 rounded-md cursor-pointer text-sm ${doc.id === activeId ? 'bg-indigo-50 dark:bg-indigo-900/40 text-indigo-700 dark:text-indigo-300' : 'hover:bg-gray-100 dark:hover:bg-gray-800'}`}
+            >
+              <DocumentIcon className="w-4 h-4 mr-2 flex-shrink-0" />
+              {editingId === doc.id ? (
+                <input
+                  autoFocus
+                  value={draftTitle}
+                  onChange={(e) => setDraftTitle(e.target.value)}
+                  onBlur={commitRename}
+                  onClick={(e) => e.stopPropagation()}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter') commitRename();
+                    if (e.key === 'Escape') setEditingId(null);
+                  }}
+                  className="flex-1 min-w-0 px-1 text-sm rounded bg-white dark:bg-gray-700 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                />
+              ) : (
+                <div className="flex-1 min-w-0" onDoubleClick={() => startRename(doc)}>
+                  <div className="truncate font-medium">{doc.title}</div>
+                  <div className="text-xs text-gray-400">{formatUpdatedAt(doc.updatedAt)}</div>
+                </div>
+              )}
+              {editingId !== doc.id && (
+                <div className="hidden group-hover:flex items-center ml-1">
+                  <IconButton onClick={() => startRename(doc)} title="Rename"><PencilIcon className="w-3.5 h-3.5" /></IconButton>
+                  <IconButton onClick={() => onDuplicate(doc.id)} title="Duplicate"><DuplicateIcon className="w-3.5 h-3.5" /></IconButton>
+                  <IconButton onClick={() => handleDelete(doc)} title="Delete"><TrashIcon className="w-3.5 h-3.5" /></IconButton>
+                </div>
+              )}
+            </div>
+          </li>
+        ))}
+      </ul>
+    </aside>
+  );
+};
+
+export default DocumentList;
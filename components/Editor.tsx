@@ -1,38 +1,441 @@
-import React, { forwardRef } from 'react';
+import React, { forwardRef, useState, useRef, useMemo, useEffect, useLayoutEffect, useImperativeHandle, memo } from 'react';
 import { Selection } from '../types';
+import { TextRange, mapRange } from '../services/textRanges';
+import { Diagnostic } from '../services/lint';
+import { LineKind, TokenType, analyzeLines, highlightLine, findMatchingBracket } from '../services/markdownHighlight';
+import {
+  EditorState, CursorEdit, typeCharacter, deletePair, insertNewline, indentLines, editAtCursors, lineStartOf, lineEndOf,
+} from '../services/editorCommands';
 
 interface EditorProps {
   value: string;
   onChange: (value: string) => void;
   onSelect: (selection: Selection | null) => void;
+  /** Called with files dropped onto the editor pane. */
+  onDropFiles?: (files: File[]) => void;
+  /** Ranges to highlight, e.g. find results. */
+  searchMatches?: TextRange[];
+  activeSearchMatch?: number;
+  /** Lint problems to underline. */
+  diagnostics?: Diagnostic[];
 }
 
-const Editor = forwardRef<HTMLTextAreaElement, EditorProps>(({ value, onChange, onSelect }, ref) => {
-    const handleSelect = (e: React.SyntheticEvent<HTMLTextAreaElement>) => {
-        const target = e.currentTarget;
-        const text = target.value.substring(target.selectionStart, target.selectionEnd);
-        if (text) {
-            onSelect({ text, start: target.selectionStart, end: target.selectionEnd });
+const TOKEN_CLASSES: Record<TokenType, string> = {
+  heading: 'text-indigo-600 dark:text-indigo-400',
+  marker: 'text-gray-400 dark:text-gray-500',
+  strong: 'text-amber-700 dark:text-amber-400',
+  emphasis: 'text-pink-600 dark:text-pink-400',
+  strike: 'text-gray-400 line-through',
+  code: 'text-emerald-700 dark:text-emerald-400',
+  link: 'text-sky-600 dark:text-sky-400',
+  url: 'text-gray-500 dark:text-gray-400 underline',
+  html: 'text-orange-600 dark:text-orange-400',
+  quote: 'text-gray-500 dark:text-gray-400',
+  fence: 'text-gray-400 dark:text-gray-500',
+  codeBlock: 'text-emerald-800 dark:text-emerald-300',
+};
+
+// The textarea and the highlight layer must lay text out identically.
+const TEXT_CLASSES = 'font-mono text-sm leading-relaxed whitespace-pre-wrap break-words';
+const PADDING_Y = '1.5rem';
+const PADDING_RIGHT = '1.5rem';
+
+const PROBLEM_CLASSES: Record<Diagnostic['severity'], string> = {
+  warning: 'underline decoration-wavy decoration-amber-500 underline-offset-4',
+  info: 'underline decoration-dotted decoration-sky-500 decoration-2 underline-offset-4',
+};
+
+const hasFiles = (e: React.DragEvent) => Array.from(e.dataTransfer.types).includes('Files');
+
+interface EditorLineProps {
+  number: number;
+  text: string;
+  kind: LineKind;
+  gutterWidth: string;
+  /** Columns of secondary cursors on this line. */
+  carets?: number[];
+  /** Columns of matched brackets on this line. */
+  brackets?: number[];
+  /** Start/end column pairs of search matches on this line. */
+  matches?: number[];
+  /** Start/end columns of the active search match, if it is on this line. */
+  activeMatch?: number[];
+  /** Start/end column pairs of lint warnings and of lesser (info) problems. */
+  warnings?: number[];
+  notes?: number[];
+}
+
+const sameColumns = (a?: number[], b?: number[]) => a === b || (!!a && !!b && a.length === b.length && a.every((value, i) => value === b[i]));
+
+const inPairs = (pairs: number[] | undefined, column: number) => {
+  for (let i = 0; pairs && i < pairs.length; i += 2) {
+    if (column >= pairs[i] && column < pairs[i + 1]) return true;
+  }
+  return false;
+};
+
+const EditorLine = memo<EditorLineProps>(({ number, text, kind, gutterWidth, carets, brackets, matches, activeMatch, warnings, notes }) => {
+  const pieces = useMemo(() => {
+    const tokens = highlightLine(text, kind);
+    const cuts = new Set<number>([
+      ...(carets ?? []), ...(brackets ?? []).flatMap(column => [column, column + 1]), ...(matches ?? []), ...(warnings ?? []), ...(notes ?? []),
+    ]);
+    const result: { text: string; className: string }[] = [];
+    let column = 0;
+    for (const token of tokens) {
+      const className = token.type ? TOKEN_CLASSES[token.type] : '';
+      let from = 0;
+      for (let i = 1; i <= token.text.length; i++) {
+        if (i === token.text.length || cuts.has(column + i)) {
+          const start = column + from;
+          const bracket = brackets?.includes(start) && i - from === 1;
+          const match = inPairs(activeMatch, start) ? 'bg-orange-300 dark:bg-orange-600' : inPairs(matches, start) ? 'bg-yellow-200 dark:bg-yellow-700/60' : '';
+          const problem = inPairs(warnings, start) ? PROBLEM_CLASSES.warning : inPairs(notes, start) ? PROBLEM_CLASSES.info : '';
+          result.push({ text: token.text.substring(from, i), className: `${className} ${bracket ? 'bg-indigo-200 dark:bg-indigo-700 rounded-sm' : match} ${problem}` });
+          from = i;
+        }
+      }
+      column += token.text.length;
+    }
+    return result;
+  }, [text, kind, carets, brackets, matches, activeMatch, warnings, notes]);
+
+  const caretAt = (column: number) => carets?.includes(column)
+    ? <span className="relative"><span className="absolute -left-px top-0 h-[1.625em] w-0.5 bg-indigo-500 animate-pulse" /></span>
+    : null;
+
+  let column = 0;
+  return (
+    <div className="flex">
+      <span className="shrink-0 pr-4 text-right text-gray-400 dark:text-gray-600 select-none" style={{ width: gutterWidth }}>{number}</span>
+      <span className="flex-1 min-w-0">
+        {caretAt(0)}
+        {pieces.map((piece, index) => {
+          column += piece.text.length;
+          return (
+            <React.Fragment key={index}>
+              <span className={piece.className}>{piece.text}</span>
+              {caretAt(column)}
+            </React.Fragment>
+          );
+        })}
+        {text ? null : '\u200b'}
+      </span>
+    </div>
+  );
+}, (a, b) => a.number === b.number && a.text === b.text && a.kind === b.kind && a.gutterWidth === b.gutterWidth
+  && sameColumns(a.carets, b.carets) && sameColumns(a.brackets, b.brackets)
+  && sameColumns(a.matches, b.matches) && sameColumns(a.activeMatch, b.activeMatch)
+  && sameColumns(a.warnings, b.warnings) && sameColumns(a.notes, b.notes));
+
+EditorLine.displayName = 'EditorLine';
+
+/**
+ * The markdown editing surface: a native textarea (so selection APIs,
+ * IME and accessibility keep working) over a highlighted copy of the text
+ * with line numbers, secondary cursors, bracket matches, search results and
+ * lint problems.
+ */
+const Editor = forwardRef<HTMLTextAreaElement, EditorProps>(({ value, onChange, onSelect, onDropFiles, searchMatches, activeSearchMatch, diagnostics }, ref) => {
+    const textareaRef = useRef<HTMLTextAreaElement>(null);
+    const layerRef = useRef<HTMLDivElement>(null);
+    const pendingSelection = useRef<TextRange | null>(null);
+    // The text and selection the textarea last showed, to carry the caret across outside edits.
+    const domState = useRef<EditorState | null>(null);
+    const altClickAnchor = useRef<number | null>(null);
+    const [isDraggingFile, setIsDraggingFile] = useState(false);
+    const [caret, setCaret] = useState(0);
+    const [extraCursors, setExtraCursors] = useState<number[]>([]);
+    const [layerWidth, setLayerWidth] = useState<number | undefined>(undefined);
+
+    useImperativeHandle(ref, () => textareaRef.current as HTMLTextAreaElement, []);
+
+    const lines = useMemo(() => analyzeLines(value), [value]);
+    const gutterWidth = `${String(lines.length).length + 2}ch`;
+    const paddingLeft = `calc(${gutterWidth} + 0.75rem)`;
+
+    // The layer must wrap at exactly the textarea's content width, which shrinks when its scrollbar appears.
+    useEffect(() => {
+        const textarea = textareaRef.current;
+        if (!textarea) return;
+        const observer = new ResizeObserver(() => setLayerWidth(textarea.clientWidth));
+        observer.observe(textarea);
+        return () => observer.disconnect();
+    }, []);
+
+    useLayoutEffect(() => {
+        const textarea = textareaRef.current;
+        if (!textarea) return;
+        setLayerWidth(textarea.clientWidth);
+        const selection = pendingSelection.current;
+        if (selection) {
+            pendingSelection.current = null;
+            textarea.setSelectionRange(selection.start, selection.end);
+            reportSelection(textarea);
         } else {
-            onSelect(null);
+            const last = domState.current;
+            if (last && last.value !== value && document.activeElement === textarea) {
+                // E.g. a table of contents refreshed above the caret: keep the caret on the same text.
+                const mapped = mapRange({ start: last.selectionStart, end: last.selectionEnd }, last.value, value);
+                textarea.setSelectionRange(mapped.start, mapped.end);
+                reportSelection(textarea);
+            }
+            // Undo, AI insertions and other outside edits invalidate secondary cursor positions.
+            setExtraCursors(prev => (prev.length ? [] : prev));
+        }
+    }, [value]);
+
+    const reportSelection = (textarea: HTMLTextAreaElement) => {
+        const { selectionStart, selectionEnd } = textarea;
+        domState.current = { value: textarea.value, selectionStart, selectionEnd };
+        setCaret(selectionEnd);
+        const text = textarea.value.substring(selectionStart, selectionEnd);
+        onSelect(text ? { text, start: selectionStart, end: selectionEnd } : null);
+    };
+
+    const applyEdit = (next: EditorState) => {
+        const textarea = textareaRef.current;
+        if (!textarea) return;
+        if (next.value === textarea.value) {
+            textarea.setSelectionRange(next.selectionStart, next.selectionEnd);
+            reportSelection(textarea);
+            return;
         }
+        pendingSelection.current = { start: next.selectionStart, end: next.selectionEnd };
+        onChange(next.value);
     };
 
+    const applyCursorEdit = (textarea: HTMLTextAreaElement, edit: CursorEdit) => {
+        const primary = { start: textarea.selectionStart, end: textarea.selectionEnd };
+        const ranges = [primary, ...extraCursors.map(position => ({ start: position, end: position }))];
+        const result = editAtCursors(textarea.value, ranges, edit);
+        const [caretPosition, ...others] = result.cursors;
+        setExtraCursors(Array.from(new Set(others.filter(position => position !== caretPosition))));
+        applyEdit({ value: result.value, selectionStart: caretPosition, selectionEnd: caretPosition });
+    };
+
+    const addCursorOnAdjacentLine = (textarea: HTMLTextAreaElement, direction: 1 | -1) => {
+        const position = textarea.selectionEnd;
+        const lineStart = lineStartOf(textarea.value, position);
+        const column = position - lineStart;
+        const targetStart = direction === 1
+            ? lineEndOf(textarea.value, position) + 1
+            : lineStartOf(textarea.value, Math.max(0, lineStart - 1));
+        if (targetStart > textarea.value.length || (direction === -1 && lineStart === 0)) return;
+        const target = Math.min(targetStart + column, lineEndOf(textarea.value, targetStart));
+        setExtraCursors(prev => Array.from(new Set([...prev, position])).filter(cursor => cursor !== target));
+        textarea.setSelectionRange(target, target);
+        reportSelection(textarea);
+    };
+
+    const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+        const textarea = e.currentTarget;
+        if (e.nativeEvent.isComposing) return;
+        const state: EditorState = { value: textarea.value, selectionStart: textarea.selectionStart, selectionEnd: textarea.selectionEnd };
+        const command = e.ctrlKey || e.metaKey;
+
+        if (command && e.altKey && (e.key === 'ArrowDown' || e.key === 'ArrowUp')) {
+            e.preventDefault();
+            addCursorOnAdjacentLine(textarea, e.key === 'ArrowDown' ? 1 : -1);
+            return;
+        }
+
+        if (extraCursors.length > 0) {
+            if (e.key === 'Escape') {
+                e.preventDefault();
+                setExtraCursors([]);
+                return;
+            }
+            const edit: CursorEdit | null =
+                e.key === 'Backspace' ? { type: 'backspace' }
+                : e.key === 'Delete' ? { type: 'delete' }
+                : e.key === 'Enter' ? { type: 'insert', text: '\n' }
+                : e.key === 'Tab' && !e.shiftKey ? { type: 'insert', text: '  ' }
+                : e.key.length === 1 && !command && !e.altKey ? { type: 'insert', text: e.key }
+                : null;
+            if (edit) {
+                e.preventDefault();
+                applyCursorEdit(textarea, edit);
+                return;
+            }
+            if (e.key === 'ArrowLeft' || e.key === 'ArrowRight') {
+                const step = e.key === 'ArrowLeft' ? -1 : 1;
+                setExtraCursors(prev => prev.map(position => Math.min(textarea.value.length, Math.max(0, position + step))));
+                return;
+            }
+            if (!command && !['Shift', 'Alt', 'Control', 'Meta'].includes(e.key)) setExtraCursors([]);
+            return;
+        }
+
+        let next: EditorState | null = null;
+        if (e.key === 'Tab' && !command && !e.altKey) {
+            next = indentLines(state, e.shiftKey);
+        } else if (e.key === 'Enter' && !command && !e.shiftKey && !e.altKey) {
+            next = insertNewline(state);
+        } else if (e.key === 'Backspace' && !command && !e.altKey) {
+            next = deletePair(state);
+        } else if (e.key.length === 1 && !command && !e.altKey) {
+            next = typeCharacter(state, e.key);
+        }
+        if (next) {
+            e.preventDefault();
+            applyEdit(next);
+        }
+    };
+
+    const handlePaste = (e: React.ClipboardEvent<HTMLTextAreaElement>) => {
+        if (extraCursors.length === 0) return;
+        e.preventDefault();
+        applyCursorEdit(e.currentTarget, { type: 'insert', text: e.clipboardData.getData('text/plain') });
+    };
+
+    // Alt+Click keeps the current caret as a secondary cursor and puts the primary one where you clicked.
+    const handleMouseDown = (e: React.MouseEvent<HTMLTextAreaElement>) => {
+        altClickAnchor.current = e.altKey ? e.currentTarget.selectionEnd : null;
+        if (!e.altKey) setExtraCursors([]);
+    };
+
+    const handleMouseUp = (e: React.MouseEvent<HTMLTextAreaElement>) => {
+        const anchor = altClickAnchor.current;
+        altClickAnchor.current = null;
+        const target = e.currentTarget.selectionEnd;
+        if (anchor !== null && anchor !== target) {
+            setExtraCursors(prev => Array.from(new Set([...prev, anchor])).filter(cursor => cursor !== target));
+        }
+    };
+
+    const handleSelect = (e: React.SyntheticEvent<HTMLTextAreaElement>) => {
+        reportSelection(e.currentTarget);
+    };
+
+    const handleChange = (e: React.ChangeEvent<HTMLTextAreaElement>) => {
+        const { value: text, selectionStart, selectionEnd } = e.target;
+        domState.current = { value: text, selectionStart, selectionEnd };
+        onChange(text);
+    };
+
+    const handleScroll = (e: React.UIEvent<HTMLTextAreaElement>) => {
+        if (layerRef.current) layerRef.current.style.transform = `translateY(${-e.currentTarget.scrollTop}px)`;
+    };
+
+    const handleDragOver = (e: React.DragEvent) => {
+        if (!onDropFiles || !hasFiles(e)) return;
+        e.preventDefault();
+        e.dataTransfer.dropEffect = 'copy';
+        setIsDraggingFile(true);
+    };
+
+    const handleDragLeave = (e: React.DragEvent) => {
+        // Moving between child elements fires dragleave too; only react when leaving the pane.
+        if (!e.currentTarget.contains(e.relatedTarget as Node | null)) setIsDraggingFile(false);
+    };
+
+    const handleDrop = (e: React.DragEvent) => {
+        if (!onDropFiles || !hasFiles(e)) return;
+        e.preventDefault();
+        setIsDraggingFile(false);
+        onDropFiles(Array.from(e.dataTransfer.files));
+    };
+
+    // Decorations are grouped per line so only the affected lines re-render.
+    const decorations = useMemo(() => {
+        const byLine = new Map<number, { carets?: number[]; brackets?: number[]; matches?: number[]; activeMatch?: number[]; warnings?: number[]; notes?: number[] }>();
+        const lineOf = (position: number) => {
+            let low = 0;
+            let high = lines.length - 1;
+            while (low < high) {
+                const mid = (low + high + 1) >> 1;
+                if (lines[mid].start <= position) low = mid;
+                else high = mid - 1;
+            }
+            return low;
+        };
+        const add = (index: number, key: 'carets' | 'brackets' | 'matches' | 'activeMatch' | 'warnings' | 'notes', columns: number[]) => {
+            const entry = byLine.get(index) ?? {};
+            entry[key] = [...(entry[key] ?? []), ...columns];
+            byLine.set(index, entry);
+        };
+        const addPosition = (position: number, key: 'carets' | 'brackets') => {
+            const index = lineOf(position);
+            add(index, key, [position - lines[index].start]);
+        };
+        // A range can span lines (multi-line regex matches); mark its part on each.
+        const addRange = (range: TextRange, key: 'matches' | 'activeMatch' | 'warnings' | 'notes') => {
+            for (let index = lineOf(range.start); index < lines.length && lines[index].start <= range.end; index++) {
+                const { start, text } = lines[index];
+                const from = Math.max(range.start, start) - start;
+                const to = Math.min(range.end, start + text.length) - start;
+                if (to > from) add(index, key, [from, to]);
+            }
+        };
+        extraCursors.filter(position => position <= value.length).forEach(position => addPosition(position, 'carets'));
+        findMatchingBracket(lines, caret)?.forEach(position => addPosition(position, 'brackets'));
+        searchMatches?.forEach((range, index) => {
+            if (range.end <= value.length) addRange(range, index === activeSearchMatch ? 'activeMatch' : 'matches');
+        });
+        diagnostics?.forEach(diagnostic => {
+            if (diagnostic.end <= value.length) addRange(diagnostic, diagnostic.severity === 'warning' ? 'warnings' : 'notes');
+        });
+        return byLine;
+    }, [lines, value.length, extraCursors, caret, searchMatches, activeSearchMatch, diagnostics]);
+
     return (
-        <div className="h-full flex flex-col bg-white dark:bg-gray-900 border-r border-gray-200 dark:border-gray-700">
+        <div
+            className="h-full flex flex-col bg-white dark:bg-gray-900 border-r border-gray-200 dark:border-gray-700 relative overflow-hidden"
+            onDragOver={handleDragOver}
+            onDragLeave={handleDragLeave}
+            onDrop={handleDrop}
+        >
+            <div
+                className="absolute inset-y-0 left-0 bg-gray-50 dark:bg-gray-800/50 border-r border-gray-200 dark:border-gray-700 pointer-events-none"
+                style={{ width: `calc(${gutterWidth} + 0.25rem)` }}
+            />
+            <div
+                ref={layerRef}
+                aria-hidden="true"
+                className={`absolute top-0 left-0 pointer-events-none text-gray-800 dark:text-gray-200 ${TEXT_CLASSES}`}
+                style={{ width: layerWidth, padding: `${PADDING_Y} ${PADDING_RIGHT} ${PADDING_Y} 0` }}
+            >
+                {lines.map((line, index) => (
+                    <EditorLine
+                        key={index}
+                        number={index + 1}
+                        text={line.text}
+                        kind={line.kind}
+                        gutterWidth={paddingLeft}
+                        carets={decorations.get(index)?.carets}
+                        brackets={decorations.get(index)?.brackets}
+                        matches={decorations.get(index)?.matches}
+                        activeMatch={decorations.get(index)?.activeMatch}
+                        warnings={decorations.get(index)?.warnings}
+                        notes={decorations.get(index)?.notes}
+                    />
+                ))}
+            </div>
             <textarea
-                ref={ref}
+                ref={textareaRef}
                 value={value}
-                onChange={(e) => onChange(e.target.value)}
+                onChange={handleChange}
                 onSelect={handleSelect}
-                className="flex-1 w-full h-full p-6 sm:p-8 md:p-12 bg-transparent text-gray-800 dark:text-gray-200 resize-none focus:outline-none font-mono text-sm leading-relaxed"
+                onKeyDown={handleKeyDown}
+                onPaste={handlePaste}
+                onMouseDown={handleMouseDown}
+                onMouseUp={handleMouseUp}
+                onScroll={handleScroll}
+                className={`relative flex-1 w-full h-full bg-transparent text-transparent caret-gray-800 dark:caret-gray-200 selection:bg-indigo-200/60 dark:selection:bg-indigo-500/40 placeholder:text-gray-400 resize-none focus:outline-none ${TEXT_CLASSES}`}
+                style={{ padding: `${PADDING_Y} ${PADDING_RIGHT} ${PADDING_Y} ${paddingLeft}` }}
                 placeholder="Start writing your masterpiece..."
                 spellCheck="false"
             />
+            {isDraggingFile && (
+                <div className="absolute inset-2 flex items-center justify-center rounded-lg border-2 border-dashed border-indigo-500 bg-indigo-50/90 dark:bg-indigo-900/80 text-indigo-700 dark:text-indigo-200 text-sm font-medium pointer-events-none">
+                    Drop a .md, .txt or .html file to open it, or images and videos to insert them
+                </div>
+            )}
         </div>
     );
 });
 
 Editor.displayName = 'Editor';
 
-export default Editor;
\ No newline at end of file
+export default Editor;
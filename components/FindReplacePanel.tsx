@@ -0,0 +1,134 @@
+import React, { useEffect, useRef } from 'react';
+import { Selection } from '../types';
+import { FindReplaceState } from '../hooks/useFindReplace';
+import { ChevronDownIcon, XIcon } from './icons';
+
+interface FindReplacePanelProps {
+  find: FindReplaceState;
+  /** The editor's current selection, offered as the search scope. */
+  selection: Selection | null;
+  onClose: () => void;
+}
+
+const ToggleButton: React.FC<{ active: boolean; onClick: () => void; title: string; disabled?: boolean; children: React.ReactNode }> = ({ active, onClick, title, disabled, children }) => (
+  <button
+    onClick={onClick}
+    title={title}
+    aria-label={title}
+    aria-pressed={active}
+    disabled={disabled}
+    className={`w-6 h-6 flex items-center justify-center rounded text-xs font-mono disabled:opacity-40 ${active ? 'bg-indigo-100 text-indigo-700 dark:bg-indigo-900/60 dark:text-indigo-300' : 'text-gray-500 hover:bg-gray-200 dark:text-gray-400 dark:hover:bg-gray-700'}`}
+  >
+    {children}
+  </button>
+);
+
+const inputClassName = 'flex-1 min-w-0 px-2 py-1 text-sm rounded bg-gray-50 dark:bg-gray-900 border focus:outline-none focus:ring-2 focus:ring-indigo-500';
+
+const FindReplacePanel: React.FC<FindReplacePanelProps> = ({ find, selection, onClose }) => {
+  const queryRef = useRef<HTMLInputElement>(null);
+  const { options, setOptions, matches, activeIndex, error, scope } = find;
+
+  useEffect(() => {
+    queryRef.current?.focus();
+    queryRef.current?.select();
+  }, [find.focusRequest]);
+
+  const toggle = (key: keyof typeof options) => setOptions(prev => ({ ...prev, [key]: !prev[key] }));
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'Escape') {
+      e.preventDefault();
+      onClose();
+    }
+  };
+
+  const status = error
+    ? 'Invalid regex'
+    : !find.query ? '' : matches.length === 0 ? 'No results' : `${activeIndex + 1} of ${matches.length}`;
+
+  return (
+    <div
+      className="absolute top-2 right-6 z-10 w-[26rem] max-w-[calc(100%-2rem)] p-2 space-y-1.5 rounded-md shadow-lg bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700"
+      onKeyDown={handleKeyDown}
+    >
+      <div className="flex items-center gap-1">
+        <button
+          onClick={() => find.setShowReplace(prev => !prev)}
+          title={find.showReplace ? 'Hide Replace' : 'Show Replace'}
+          aria-label={find.showReplace ? 'Hide Replace' : 'Show Replace'}
+          className="w-5 h-6 flex items-center justify-center rounded text-gray-500 hover:bg-gray-200 dark:hover:bg-gray-700"
+        >
+          <ChevronDownIcon className={`w-3.5 h-3.5 transition-transform ${find.showReplace ? '' : '-rotate-90'}`} />
+        </button>
+        <input
+          ref={queryRef}
+          value={find.query}
+          onChange={(e) => find.setQuery(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key !== 'Enter') return;
+            e.preventDefault();
+            if (e.shiftKey) find.previous();
+            else find.next();
+          }}
+          placeholder="Find"
+          aria-label="Find"
+          title={error}
+          className={`${inputClassName} ${error ? 'border-red-500' : 'border-gray-300 dark:border-gray-600'}`}
+        />
+        <span className={`w-20 text-xs text-center ${error || (find.query && matches.length === 0) ? 'text-red-500' : 'text-gray-500 dark:text-gray-400'}`}>
+          {status}
+        </span>
+        <ToggleButton active={options.caseSensitive} onClick={() => toggle('caseSensitive')} title="Match Case">Aa</ToggleButton>
+        <ToggleButton active={options.wholeWord} onClick={() => toggle('wholeWord')} title="Match Whole Word"><span className="underline">ab</span></ToggleButton>
+        <ToggleButton active={options.regex} onClick={() => toggle('regex')} title="Use Regular Expression">.*</ToggleButton>
+        <ToggleButton
+          active={!!scope}
+          onClick={() => find.scopeTo(scope ? null : selection)}
+          title={scope ? 'Search Whole Document' : 'Find in Selection'}
+          disabled={!scope && !selection?.text}
+        >
+          ≡
+        </ToggleButton>
+        <ToggleButton active={false} onClick={find.previous} title="Previous Match (Shift+Enter)" disabled={matches.length === 0}>↑</ToggleButton>
+        <ToggleButton active={false} onClick={find.next} title="Next Match (Enter)" disabled={matches.length === 0}>↓</ToggleButton>
+        <ToggleButton active={false} onClick={onClose} title="Close (Escape)"><XIcon className="w-3.5 h-3.5" /></ToggleButton>
+      </div>
+      {find.showReplace && (
+        <div className="flex items-center gap-1 pl-6">
+          <input
+            value={find.replacement}
+            onChange={(e) => find.setReplacement(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key !== 'Enter') return;
+              e.preventDefault();
+              if (e.ctrlKey || e.metaKey) find.replaceAll();
+              else find.replaceCurrent();
+            }}
+            placeholder={options.regex ? 'Replace ($1 for groups)' : 'Replace'}
+            aria-label="Replace"
+            className={`${inputClassName} border-gray-300 dark:border-gray-600`}
+          />
+          <button
+            onClick={find.replaceCurrent}
+            disabled={!find.activeMatch}
+            title="Replace (Enter)"
+            className="px-2 py-1 text-xs font-medium rounded text-gray-700 bg-gray-100 hover:bg-gray-200 dark:bg-gray-700 dark:text-gray-200 dark:hover:bg-gray-600 disabled:opacity-50"
+          >
+            Replace
+          </button>
+          <button
+            onClick={find.replaceAll}
+            disabled={matches.length === 0}
+            title="Replace All (Ctrl+Enter)"
+            className="px-2 py-1 text-xs font-medium rounded text-white bg-indigo-600 hover:bg-indigo-700 disabled:opacity-50"
+          >
+            All
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default FindReplacePanel;
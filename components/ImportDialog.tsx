@@ -0,0 +1,60 @@
+import React from 'react';
+import { ImportedFile } from '../services/importers';
+
+export type ImportMode = 'replace' | 'insert';
+
+interface ImportDialogProps {
+  files: ImportedFile[];
+  onImport: (mode: ImportMode) => void;
+  onClose: () => void;
+}
+
+const PREVIEW_LENGTH = 1200;
+
+const ImportDialog: React.FC<ImportDialogProps> = ({ files, onImport, onClose }) => {
+  const markdown = files.map(file => file.markdown.trim()).join('\n\n');
+  const title = files.length === 1 ? `Open "${files[0].name}"` : `Open ${files.length} files`;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4" onClick={onClose}>
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-xl w-full max-w-2xl max-h-[80vh] flex flex-col" onClick={e => e.stopPropagation()}>
+        <div className="flex items-center justify-between p-4 border-b border-gray-200 dark:border-gray-700">
+          <h2 className="text-lg font-semibold truncate">{title}</h2>
+          <button onClick={onClose} className="p-1 rounded-full hover:bg-gray-200 dark:hover:bg-gray-600">
+            &times;
+          </button>
+        </div>
+        <div className="p-6 overflow-y-auto space-y-3">
+          <p className="text-sm text-gray-600 dark:text-gray-300">
+            Replace the current document with this content, or insert it at the cursor?
+          </p>
+          <pre className="text-xs font-mono whitespace-pre-wrap p-3 rounded-md bg-gray-100 dark:bg-gray-900 max-h-64 overflow-y-auto">
+            {markdown.length > PREVIEW_LENGTH ? `${markdown.slice(0, PREVIEW_LENGTH)}…` : markdown}
+          </pre>
+        </div>
+        <div className="flex justify-end p-4 border-t border-gray-200 dark:border-gray-700">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 text-sm font-medium text-gray-700 bg-gray-100 rounded-md hover:bg-gray-200 dark:bg-gray-700 dark:text-gray-200 dark:hover:bg-gray-600"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={() => onImport('insert')}
+            className="ml-2 px-4 py-2 text-sm font-medium text-indigo-700 bg-indigo-100 rounded-md hover:bg-indigo-200 dark:bg-indigo-900/50 dark:text-indigo-300 dark:hover:bg-indigo-900"
+          >
+            Insert at Cursor
+          </button>
+          <button
+            onClick={() => onImport('replace')}
+            className="ml-2 px-4 py-2 text-sm font-medium text-white bg-indigo-600 rounded-md hover:bg-indigo-700"
+          >
+            Replace Document
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ImportDialog;
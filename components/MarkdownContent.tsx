@@ -0,0 +1,116 @@
+import React, { useState, useEffect } from 'react';
+import ReactMarkdown, { Options } from 'react-markdown';
+import remarkGfm from 'remark-gfm';
+import remarkFrontmatter from 'remark-frontmatter';
+import remarkMath from 'remark-math';
+import rehypeKatex from 'rehype-katex';
+import rehypeRaw from 'rehype-raw';
+import rehypeSanitize from 'rehype-sanitize';
+import { Prism as SyntaxHighlighter } from 'react-syntax-highlighter';
+import { oneDark } from 'react-syntax-highlighter/dist/esm/styles/prism';
+import { remarkMedia, mediaUrlTransform } from '../services/remarkMedia';
+import { rehypeSourceLines } from '../services/sourceLines';
+import { rehypeHeadingIds } from '../services/outline';
+import { DiagramResult, diagramUrl, getRenderedDiagram, remarkDiagrams, renderDiagram } from '../services/diagrams';
+import { HTML_SCHEMA, rehypeDropHtml, rehypeReportUnsafe } from '../services/htmlPolicy';
+
+interface MarkdownContentProps {
+  markdown: string;
+  /** Tags rendered blocks with `data-source-line` for scroll sync (preview only). */
+  sourceLines?: boolean;
+  /** Renders raw HTML through the sanitizer; when false it is hidden. Defaults to true. */
+  renderHtml?: boolean;
+  /** Called after rendering with what was removed or hidden, e.g. "<script>"; empty when nothing was. */
+  onStripped?: (descriptions: string[]) => void;
+}
+
+/**
+ * A Mermaid block as an SVG image. Exports pre-render their diagrams (see
+ * `renderDiagrams`), so they come out of the cache on the first, static render.
+ * While an edited diagram re-renders, the previous version stays on screen.
+ */
+const Diagram: React.FC<{ source: string }> = ({ source }) => {
+  const [result, setResult] = useState<DiagramResult | undefined>(() => getRenderedDiagram(source));
+
+  useEffect(() => {
+    let isCurrent = true;
+    renderDiagram(source).then(next => {
+      if (isCurrent) setResult(next);
+    });
+    return () => { isCurrent = false; };
+  }, [source]);
+
+  if (!result) return <p className="text-sm text-gray-400">Rendering diagram…</p>;
+  if ('error' in result) {
+    return (
+      <>
+        <pre><code>{source}</code></pre>
+        <figcaption className="text-sm text-red-500">Diagram error: {result.error}</figcaption>
+      </>
+    );
+  }
+  return <img src={diagramUrl(result.svg)} alt="Diagram" className="bg-white rounded-md p-2" />;
+};
+
+/** The markdown pipeline shared by the preview pane and every export format. */
+const MarkdownContent: React.FC<MarkdownContentProps> = ({ markdown, sourceLines, renderHtml = true, onStripped }) => {
+  // Filled by the plugins while ReactMarkdown renders below, and read once the render is committed.
+  const stripped = new Set<string>();
+  const onStrip = (description: string) => { stripped.add(description); };
+
+  useEffect(() => {
+    onStripped?.(Array.from(stripped));
+    // Only a new render produces a new report.
+  }, [markdown, renderHtml, onStripped]);
+
+  // Sanitizing comes first, so only HTML from the document is filtered, not what later plugins add.
+  const htmlPlugins: NonNullable<Options['rehypePlugins']> = renderHtml
+    ? [rehypeRaw, [rehypeReportUnsafe, { onStrip }], [rehypeSanitize, HTML_SCHEMA]]
+    : [[rehypeDropHtml, { onStrip }]];
+
+  return (
+    <ReactMarkdown
+      // Front matter is parsed out of the body (Preview shows it as a header card), so it never reaches the HTML.
+      remarkPlugins={[remarkFrontmatter, remarkGfm, remarkMath, remarkDiagrams, remarkMedia]}
+      rehypePlugins={[...htmlPlugins, rehypeKatex, rehypeHeadingIds, ...(sourceLines ? [rehypeSourceLines] : [])]}
+      urlTransform={mediaUrlTransform}
+      // Footnotes are how documents cite sources, so their section is titled accordingly.
+      remarkRehypeOptions={{ footnoteLabel: 'References', allowDangerousHtml: true }}
+      components={{
+        figure({node, children, ...props}) {
+          const source = node?.properties?.dataDiagram;
+          // The source stays out of the markup; an empty attribute still marks the figure for styling.
+          return typeof source === 'string' ? (
+            <figure {...props} data-diagram="">
+              <Diagram source={source} />
+            </figure>
+          ) : (
+            <figure {...props}>{children}</figure>
+          );
+        },
+        code({node, className, children, ...props}) {
+          const match = /language-(\w+)/.exec(className || '')
+          return match ? (
+            <SyntaxHighlighter
+              style={oneDark}
+              language={match[1]}
+              PreTag="div"
+              data-code-block=""
+              {...props}
+            >
+              {String(children).replace(/\n$/, '')}
+            </SyntaxHighlighter>
+          ) : (
+            <code className={className} {...props}>
+              {children}
+            </code>
+          )
+        }
+      }}
+    >
+      {markdown}
+    </ReactMarkdown>
+  );
+};
+
+export default MarkdownContent;
@@ -1,18 +1,44 @@
 import React, { useState } from 'react';
-import { FormatAction, ViewMode } from '../types';
+import { FormatAction, ViewMode, ExportFormat } from '../types';
 import {
   SunIcon, MoonIcon, SidebarIcon, WritingIcon, PreviewViewIcon, SplitScreenIcon,
   BoldIcon, ItalicIcon, StrikethroughIcon, LinkIcon, ImageIcon, TableIcon,
-  ListUlIcon, ListOlIcon, HeadingIcon, ChevronDownIcon, CodeIcon,
+  ListUlIcon, ListOlIcon, HeadingIcon, ChevronDownIcon, CodeIcon, DocumentIcon,
+  UndoIcon, RedoIcon, CogIcon,
 } from './icons';
 
 
 interface MenubarProps {
   theme: 'light' | 'dark';
   toggleTheme: () => void;
+  onOpenSettings: () => void;
   isSidebarOpen: boolean;
   toggleSidebar: () => void;
+  isDocumentListOpen: boolean;
+  toggleDocumentList: () => void;
+  documentTitle?: string;
   onFormat: (format: FormatAction) => void;
+  onExport: (format: ExportFormat) => void;
+  onNewDocument: () => void;
+  onNewFromTemplate: () => void;
+  onSaveAsTemplate: () => void;
+  onOpenFile: () => void;
+  onOpenMediaLibrary: () => void;
+  isScrollSyncEnabled: boolean;
+  toggleScrollSync: () => void;
+  isOutlineOpen: boolean;
+  toggleOutline: () => void;
+  isProblemsOpen: boolean;
+  toggleProblems: () => void;
+  isMetadataOpen: boolean;
+  toggleMetadata: () => void;
+  renderHtml: boolean;
+  toggleRenderHtml: () => void;
+  onFind: (withReplace: boolean) => void;
+  onUndo: () => void;
+  onRedo: () => void;
+  canUndo: boolean;
+  canRedo: boolean;
   selectionActive: boolean;
   viewMode: ViewMode;
   cycleViewMode: () => void;
@@ -21,14 +47,40 @@ interface MenubarProps {
 const Menubar: React.FC<MenubarProps> = ({
   theme,
   toggleTheme,
+  onOpenSettings,
   isSidebarOpen,
   toggleSidebar,
+  isDocumentListOpen,
+  toggleDocumentList,
+  documentTitle,
   onFormat,
+  onExport,
+  onNewDocument,
+  onNewFromTemplate,
+  onSaveAsTemplate,
+  onOpenFile,
+  onOpenMediaLibrary,
+  isScrollSyncEnabled,
+  toggleScrollSync,
+  isOutlineOpen,
+  toggleOutline,
+  isProblemsOpen,
+  toggleProblems,
+  isMetadataOpen,
+  toggleMetadata,
+  renderHtml,
+  toggleRenderHtml,
+  onFind,
+  onUndo,
+  onRedo,
+  canUndo,
+  canRedo,
   selectionActive,
   viewMode,
   cycleViewMode,
 }) => {
   const [isHeadingDropdownOpen, setIsHeadingDropdownOpen] = useState(false);
+  const [openMenu, setOpenMenu] = useState<string | null>(null);
 
   // eslint-disable-next-line @typescript-eslint/ban-types
   const ToolbarButton: React.FC<{ onClick?: () => void; children: React.ReactNode; 'aria-label': string, title: string, className?: string, disabled?: boolean }> = ({ onClick, children, className, ...props }) => (
@@ -47,6 +99,38 @@ const Menubar: React.FC<MenubarProps> = ({
       </button>
   );
 
+  const MenuDropdown: React.FC<{ label: string; items: { label: string; onClick: () => void; disabled?: boolean; checked?: boolean }[] }> = ({ label, items }) => (
+      <div className="relative" onMouseLeave={() => setOpenMenu(null)}>
+          <button
+            onClick={() => setOpenMenu(prev => (prev === label ? null : label))}
+            className={`px-3 py-1 text-sm rounded-md hover:bg-gray-200 dark:hover:bg-gray-700 transition-colors ${openMenu === label ? 'bg-gray-200 dark:bg-gray-700' : ''}`}
+            aria-haspopup="menu"
+            aria-expanded={openMenu === label}
+          >
+              {label}
+          </button>
+          {openMenu === label && (
+            <div role="menu" className="absolute left-0 top-full pt-1 z-20">
+              <div className="w-56 py-1 bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-md shadow-lg">
+                {items.map(item => (
+                  <button
+                    key={item.label}
+                    disabled={item.disabled}
+                    onClick={() => { setOpenMenu(null); item.onClick(); }}
+                    role={item.checked === undefined ? 'menuitem' : 'menuitemcheckbox'}
+                    aria-checked={item.checked}
+                    className="flex items-center w-full text-left px-4 py-2 text-sm hover:bg-gray-100 dark:hover:bg-gray-600 disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    {item.checked !== undefined && <span className="w-4 mr-2 text-indigo-500">{item.checked ? '✓' : ''}</span>}
+                    {item.label}
+                  </button>
+                ))}
+              </div>
+            </div>
+          )}
+      </div>
+  );
+
   const viewModeIcon = () => {
     switch (viewMode) {
       case 'split': return <SplitScreenIcon className="w-5 h-5" />;
@@ -70,6 +154,9 @@ const Menubar: React.FC<MenubarProps> = ({
       {/* Top Row: Header */}
       <div className="flex items-center justify-between px-4 py-2 w-full">
         <div className="flex items-center space-x-2">
+            <ToolbarButton onClick={toggleDocumentList} aria-label="Toggle Documents" title="Toggle Documents">
+                <DocumentIcon className={`w-5 h-5 transition-colors ${isDocumentListOpen ? 'text-indigo-500' : ''}`} />
+            </ToolbarButton>
             <ToolbarButton onClick={toggleSidebar} aria-label="Toggle Sidebar" title="Toggle Sidebar">
                 <SidebarIcon className={`w-5 h-5 transition-colors ${isSidebarOpen ? 'text-indigo-500' : ''}`} />
             </ToolbarButton>
@@ -77,8 +164,12 @@ const Menubar: React.FC<MenubarProps> = ({
         <div className="flex items-center space-x-2">
             <WritingIcon className="w-6 h-6 text-indigo-500" />
             <h1 className="text-lg font-semibold hidden sm:block">Sam's AI Writer</h1>
+            {documentTitle && <span className="text-sm text-gray-500 dark:text-gray-400 hidden md:block truncate max-w-xs">— {documentTitle}</span>}
         </div>
         <div className="flex items-center space-x-2">
+            <ToolbarButton onClick={onOpenSettings} aria-label="Settings" title="Settings">
+                <CogIcon className="w-5 h-5" />
+            </ToolbarButton>
             <ToolbarButton onClick={toggleTheme} aria-label="Toggle Theme" title="Toggle Theme">
                 {theme === 'light' ? <MoonIcon className="w-5 h-5" /> : <SunIcon className="w-5 h-5" />}
             </ToolbarButton>
@@ -88,11 +179,45 @@ const Menubar: React.FC<MenubarProps> = ({
       {/* Middle Row: Menu Bar */}
       <div className="flex items-center px-4 py-1 border-y border-gray-200 dark:border-gray-700 w-full">
         <div className="flex items-center space-x-1">
-            <MenuLink>File</MenuLink>
-            <MenuLink>Edit</MenuLink>
+            <MenuDropdown
+              label="File"
+              items={[
+                { label: 'New Document', onClick: onNewDocument },
+                { label: 'New from Template…', onClick: onNewFromTemplate },
+                { label: 'Open…', onClick: onOpenFile },
+                { label: 'Save as Template…', onClick: onSaveAsTemplate },
+                { label: 'Media Library…', onClick: onOpenMediaLibrary },
+              ]}
+            />
+            <MenuDropdown
+              label="Export"
+              items={[
+                { label: 'HTML Document (.html)', onClick: () => onExport('html') },
+                { label: 'Print / Save as PDF…', onClick: () => onExport('pdf') },
+                { label: 'Word Document (.docx)', onClick: () => onExport('docx') },
+              ]}
+            />
+            <MenuDropdown
+              label="Edit"
+              items={[
+                { label: 'Undo', onClick: onUndo, disabled: !canUndo },
+                { label: 'Redo', onClick: onRedo, disabled: !canRedo },
+                { label: 'Find…', onClick: () => onFind(false) },
+                { label: 'Replace…', onClick: () => onFind(true) },
+              ]}
+            />
             <MenuLink>Paragraph</MenuLink>
             <MenuLink>Format</MenuLink>
-            <MenuLink>View</MenuLink>
+            <MenuDropdown
+              label="View"
+              items={[
+                { label: 'Synchronized Scrolling', onClick: toggleScrollSync, checked: isScrollSyncEnabled },
+                { label: 'Outline', onClick: toggleOutline, checked: isOutlineOpen },
+                { label: 'Problems', onClick: toggleProblems, checked: isProblemsOpen },
+                { label: 'Metadata', onClick: toggleMetadata, checked: isMetadataOpen },
+                { label: 'Render HTML', onClick: toggleRenderHtml, checked: renderHtml },
+              ]}
+            />
             <MenuLink>Themes</MenuLink>
             <MenuLink>Help</MenuLink>
         </div>
@@ -101,6 +226,11 @@ const Menubar: React.FC<MenubarProps> = ({
       {/* Bottom Row: Toolbar */}
       <div className="flex items-center justify-between px-4 py-1 w-full">
           <div className="flex items-center space-x-1 md:space-x-2 overflow-x-auto">
+            <ToolbarButton onClick={onUndo} disabled={!canUndo} aria-label="Undo" title="Undo (Ctrl+Z)"><UndoIcon className="w-5 h-5" /></ToolbarButton>
+            <ToolbarButton onClick={onRedo} disabled={!canRedo} aria-label="Redo" title="Redo (Ctrl+Shift+Z)"><RedoIcon className="w-5 h-5" /></ToolbarButton>
+
+            <div className="h-6 w-px bg-gray-200 dark:bg-gray-700 mx-1 md:mx-2"></div>
+
             <div className="relative">
               <ToolbarButton onClick={() => setIsHeadingDropdownOpen(prev => !prev)} aria-label="Headings" title="Headings">
                 <HeadingIcon className="w-5 h-5" />
@@ -0,0 +1,144 @@
+import React, { useState, useEffect } from 'react';
+import { AiAction, AiTaskAction, FrontMatter } from '../types';
+import { LoadingSpinner, SparklesIcon } from './icons';
+
+interface MetadataPanelProps {
+  /** The document's parsed front matter, or null when it has none. */
+  frontMatter: FrontMatter | null;
+  documentTitle?: string;
+  onChange: (changes: Partial<FrontMatter>) => void;
+  /** Called when the title field loses focus, so the document is renamed once rather than per keystroke. */
+  onTitleCommit: (title: string) => void;
+  onRemove: () => void;
+  onSuggestTitles: () => void;
+  onGenerateDescription: () => void;
+  busyActions: AiTaskAction[];
+}
+
+type TextField = Exclude<keyof FrontMatter, 'tags'>;
+type Draft = Record<keyof FrontMatter, string>;
+
+// Search engines cut descriptions off at around this length.
+const DESCRIPTION_LENGTH = 160;
+const STATUSES = ['Draft', 'In review', 'Published', 'Archived'];
+
+const inputClassName = "w-full px-2 py-1.5 text-sm rounded-md bg-gray-100 dark:bg-gray-800 focus:outline-none focus:ring-2 focus:ring-indigo-500";
+
+const toDraft = (frontMatter: FrontMatter | null): Draft => ({
+  title: frontMatter?.title ?? '',
+  tags: frontMatter?.tags.join(', ') ?? '',
+  author: frontMatter?.author ?? '',
+  date: frontMatter?.date ?? '',
+  status: frontMatter?.status ?? '',
+  description: frontMatter?.description ?? '',
+});
+
+const parseTags = (value: string) => value.split(',').map(tag => tag.trim()).filter(Boolean);
+const normalize = (value: string) => value.replace(/\s+/g, ' ').trim();
+
+// Whether the draft already says what the document says, so typing (e.g. a
+// trailing space or comma the YAML won't keep) isn't overwritten mid-word.
+const matches = (draft: Draft, frontMatter: FrontMatter | null) => {
+  const saved = toDraft(frontMatter);
+  return parseTags(draft.tags).join(',') === parseTags(saved.tags).join(',')
+    && (['title', 'author', 'date', 'status', 'description'] as TextField[]).every(field => normalize(draft[field]) === saved[field]);
+};
+
+const AiButton: React.FC<{ busy: boolean; title: string; onClick: () => void }> = ({ busy, title, onClick }) => (
+  <button
+    onClick={onClick}
+    disabled={busy}
+    title={title}
+    aria-label={title}
+    className="p-1.5 rounded-md hover:bg-gray-200 dark:hover:bg-gray-700 text-indigo-500 disabled:opacity-50"
+  >
+    {busy ? <LoadingSpinner className="w-4 h-4" /> : <SparklesIcon className="w-4 h-4" />}
+  </button>
+);
+
+const MetadataPanel: React.FC<MetadataPanelProps> = ({ frontMatter, documentTitle, onChange, onTitleCommit, onRemove, onSuggestTitles, onGenerateDescription, busyActions }) => {
+  const [draft, setDraft] = useState<Draft>(() => toDraft(frontMatter));
+
+  // Pick up edits made in the editor, by undo or by the AI.
+  useEffect(() => {
+    setDraft(prev => (matches(prev, frontMatter) ? prev : toDraft(frontMatter)));
+  }, [frontMatter]);
+
+  const update = (field: keyof FrontMatter, value: string) => {
+    setDraft(prev => ({ ...prev, [field]: value }));
+    onChange(field === 'tags' ? { tags: parseTags(value) } : { [field]: value });
+  };
+
+  // Leaving the field without changing the title (or after clearing it) keeps the document's name.
+  const commitTitle = (value: string) => {
+    const title = normalize(value);
+    if (title && title !== documentTitle) onTitleCommit(title);
+  };
+
+  return (
+    <aside className="w-72 bg-white dark:bg-gray-900 border-l border-gray-200 dark:border-gray-700 flex flex-col">
+      <div className="flex items-center justify-between px-4 pt-4 pb-3">
+        <h2 className="text-xs font-semibold text-gray-500 dark:text-gray-400 uppercase tracking-wider">Metadata</h2>
+        {frontMatter && (
+          <button onClick={onRemove} className="px-2 py-0.5 rounded-md text-xs font-medium hover:bg-gray-200 dark:hover:bg-gray-700 text-indigo-500">
+            Remove
+          </button>
+        )}
+      </div>
+      {frontMatter ? (
+        <div className="flex-1 overflow-y-auto px-4 pb-4 space-y-3 text-sm">
+          <label className="block space-y-1">
+            <span className="font-medium">Title</span>
+            <div className="flex items-center space-x-1">
+              <input type="text" value={draft.title} onChange={e => update('title', e.target.value)} onBlur={e => commitTitle(e.target.value)} className={inputClassName} />
+              <AiButton busy={busyActions.includes(AiAction.SUGGEST_TITLES)} title="Suggest titles" onClick={onSuggestTitles} />
+            </div>
+          </label>
+          <label className="block space-y-1">
+            <span className="font-medium">Tags</span>
+            <input type="text" value={draft.tags} onChange={e => update('tags', e.target.value)} placeholder="Separated by commas" className={inputClassName} />
+          </label>
+          <label className="block space-y-1">
+            <span className="font-medium">Author</span>
+            <input type="text" value={draft.author} onChange={e => update('author', e.target.value)} className={inputClassName} />
+          </label>
+          <div className="grid grid-cols-2 gap-2">
+            <label className="block space-y-1">
+              <span className="font-medium">Date</span>
+              <input type="text" value={draft.date} onChange={e => update('date', e.target.value)} placeholder="YYYY-MM-DD" className={inputClassName} />
+            </label>
+            <label className="block space-y-1">
+              <span className="font-medium">Status</span>
+              <input type="text" list="front-matter-statuses" value={draft.status} onChange={e => update('status', e.target.value)} className={inputClassName} />
+              <datalist id="front-matter-statuses">
+                {STATUSES.map(status => <option key={status} value={status} />)}
+              </datalist>
+            </label>
+          </div>
+          <label className="block space-y-1">
+            <span className="flex items-center justify-between">
+              <span className="font-medium">Description</span>
+              <AiButton busy={busyActions.includes(AiAction.GENERATE_DESCRIPTION)} title="Write an SEO description" onClick={onGenerateDescription} />
+            </span>
+            <textarea value={draft.description} onChange={e => update('description', e.target.value)} rows={4} className={`${inputClassName} resize-y`} />
+            <span className={`block text-xs text-right ${draft.description.length > DESCRIPTION_LENGTH ? 'text-amber-500' : 'text-gray-400'}`}>
+              {draft.description.length}/{DESCRIPTION_LENGTH}
+            </span>
+          </label>
+        </div>
+      ) : (
+        <div className="px-4 pb-4 space-y-3 text-sm text-gray-500 dark:text-gray-400">
+          <p>This document has no front matter. Front matter is a YAML block at the top that holds its title, tags and other details.</p>
+          <button
+            onClick={() => onChange({ title: documentTitle || 'Untitled' })}
+            className="px-3 py-1.5 text-sm font-medium text-white bg-indigo-600 rounded-md hover:bg-indigo-700"
+          >
+            Add Front Matter
+          </button>
+        </div>
+      )}
+    </aside>
+  );
+};
+
+export default MetadataPanel;
@@ -5,9 +5,11 @@ interface ModalProps {
   onClose: () => void;
   children: React.ReactNode;
   contentToCopy?: string;
+  /** Shows a Stop button while content is still streaming in. */
+  onStop?: () => void;
 }
 
-const Modal: React.FC<ModalProps> = ({ title, onClose, children, contentToCopy }) => {
+const Modal: React.FC<ModalProps> = ({ title, onClose, children, contentToCopy, onStop }) => {
   return (
     <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4" onClick={onClose}>
       <div className="bg-white dark:bg-gray-800 rounded-lg shadow-xl w-full max-w-2xl max-h-[80vh] flex flex-col" onClick={e => e.stopPropagation()}>
@@ -21,6 +23,14 @@ const Modal: React.FC<ModalProps> = ({ title, onClose, children, contentToCopy }
           {children}
         </div>
         <div className="flex justify-end p-4 border-t border-gray-200 dark:border-gray-700">
+          {onStop && (
+            <button
+              onClick={onStop}
+              className="mr-2 px-4 py-2 text-sm font-medium text-red-700 bg-red-100 rounded-md hover:bg-red-200 dark:bg-red-900/50 dark:text-red-300 dark:hover:bg-red-900 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-red-500"
+            >
+              Stop
+            </button>
+          )}
           <button
             onClick={() => {
                 if (contentToCopy) {
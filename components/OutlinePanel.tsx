@@ -0,0 +1,83 @@
+import React, { useState, useMemo } from 'react';
+import { Heading, parseHeadings } from '../services/outline';
+
+interface OutlinePanelProps {
+  markdown: string;
+  onJump: (heading: Heading) => void;
+  /** Moves section `from` before section `to`; `to` may equal the heading count for "to the end". */
+  onMove: (from: number, to: number) => void;
+  onInsertToc: () => void;
+}
+
+const OutlinePanel: React.FC<OutlinePanelProps> = ({ markdown, onJump, onMove, onInsertToc }) => {
+  const headings = useMemo(() => parseHeadings(markdown), [markdown]);
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+  const [dropIndex, setDropIndex] = useState<number | null>(null);
+  const minLevel = headings.length ? Math.min(...headings.map(heading => heading.level)) : 1;
+
+  const endDrag = () => {
+    setDragIndex(null);
+    setDropIndex(null);
+  };
+
+  const dropTargetProps = (index: number) => ({
+    onDragOver: (e: React.DragEvent) => {
+      if (dragIndex === null) return;
+      e.preventDefault();
+      e.dataTransfer.dropEffect = 'move';
+      setDropIndex(index);
+    },
+    onDrop: (e: React.DragEvent) => {
+      e.preventDefault();
+      if (dragIndex !== null) onMove(dragIndex, index);
+      endDrag();
+    },
+  });
+
+  return (
+    <aside className="w-56 bg-white dark:bg-gray-900 border-l border-gray-200 dark:border-gray-700 flex flex-col">
+      <div className="flex items-center justify-between px-4 pt-4 pb-3">
+        <h2 className="text-xs font-semibold text-gray-500 dark:text-gray-400 uppercase tracking-wider">Outline</h2>
+        <button
+          onClick={onInsertToc}
+          title="Insert or update a table of contents at the cursor"
+          className="px-2 py-0.5 rounded-md text-xs font-medium hover:bg-gray-200 dark:hover:bg-gray-700 text-indigo-500"
+        >
+          Insert TOC
+        </button>
+      </div>
+      {headings.length === 0 ? (
+        <p className="px-4 text-sm text-gray-400">Headings you add will appear here.</p>
+      ) : (
+        <ul className="flex-1 overflow-y-auto px-2 pb-4">
+          {headings.map((heading, index) => (
+            <li
+              key={`${heading.slug}-${heading.line}`}
+              draggable
+              onDragStart={(e) => {
+                e.dataTransfer.effectAllowed = 'move';
+                e.dataTransfer.setData('text/plain', heading.text);
+                setDragIndex(index);
+              }}
+              onDragEnd={endDrag}
+              {...dropTargetProps(index)}
+              onClick={() => onJump(heading)}
+              title={heading.text}
+              style={{ paddingLeft: `${0.5 + (heading.level - minLevel) * 0.75}rem` }}
+              className={`pr-2 py-1 rounded-md cursor-pointer text-sm truncate border-t-2 ${dropIndex === index && dragIndex !== index ? 'border-indigo-500' : 'border-transparent'} ${dragIndex === index ? 'opacity-50' : ''} ${heading.level === minLevel ? 'font-medium' : 'text-gray-600 dark:text-gray-300'} hover:bg-gray-100 dark:hover:bg-gray-800`}
+            >
+              {heading.text || <span className="italic text-gray-400">Untitled</span>}
+            </li>
+          ))}
+          {/* Dropping here moves a section to the end of the document. */}
+          <li
+            {...dropTargetProps(headings.length)}
+            className={`h-6 border-t-2 ${dropIndex === headings.length ? 'border-indigo-500' : 'border-transparent'}`}
+          />
+        </ul>
+      )}
+    </aside>
+  );
+};
+
+export default OutlinePanel;
@@ -1,45 +1,70 @@
-import React from 'react';
-import ReactMarkdown from 'react-markdown';
-import remarkGfm from 'remark-gfm';
-import { Prism as SyntaxHighlighter } from 'react-syntax-highlighter';
-import { oneDark } from 'react-syntax-highlighter/dist/esm/styles/prism';
+import React, { forwardRef, useMemo, useState } from 'react';
+import MarkdownContent from './MarkdownContent';
+import { useAssetUrls } from '../hooks/useAssetUrls';
+import { parseFrontMatter } from '../services/frontMatter';
+import { FrontMatter } from '../types';
 
 
 interface PreviewProps {
   markdown: string;
+  /** When set, clicking a rendered block reports the 1-based source line it came from. */
+  onLineClick?: (line: number) => void;
+  renderHtml: boolean;
 }
 
-const Preview: React.FC<PreviewProps> = ({ markdown }) => {
+/** The front matter shown above the document, instead of as raw YAML. */
+const FrontMatterCard: React.FC<{ frontMatter: FrontMatter }> = ({ frontMatter: { title, tags, author, date, status, description } }) => {
+  const details = [author, date].filter(Boolean).join(' · ');
+  if (!title && !description && !details && !status && tags.length === 0) return null;
   return (
-    <div className="h-full overflow-y-auto bg-gray-50 dark:bg-gray-800">
-      <article className="prose dark:prose-invert max-w-full mx-auto p-6 sm:p-8 md:p-12">
-        <ReactMarkdown
-          remarkPlugins={[remarkGfm]}
-          components={{
-            code({node, inline, className, children, ...props}) {
-              const match = /language-(\w+)/.exec(className || '')
-              return !inline && match ? (
-                <SyntaxHighlighter
-                  style={oneDark}
-                  language={match[1]}
-                  PreTag="div"
-                  {...props}
-                >
-                  {String(children).replace(/\n$/, '')}
-                </SyntaxHighlighter>
-              ) : (
-                <code className={className} {...props}>
-                  {children}
-                </code>
-              )
-            }
-          }}
-        >
-          {markdown}
-        </ReactMarkdown>
+    <header className="not-prose mb-8 p-4 rounded-lg border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-900">
+      <div className="flex items-start justify-between gap-2">
+        {title && <p className="text-xl font-semibold text-gray-900 dark:text-gray-100">{title}</p>}
+        {status && <span className="shrink-0 px-2 py-0.5 rounded-full text-xs font-medium text-indigo-700 bg-indigo-100 dark:text-indigo-300 dark:bg-indigo-900/50">{status}</span>}
+      </div>
+      {details && <p className="mt-1 text-sm text-gray-500 dark:text-gray-400">{details}</p>}
+      {description && <p className="mt-2 text-sm text-gray-700 dark:text-gray-300">{description}</p>}
+      {tags.length > 0 && (
+        <ul className="mt-3 flex flex-wrap gap-1">
+          {tags.map(tag => <li key={tag} className="px-2 py-0.5 rounded text-xs bg-gray-100 text-gray-600 dark:bg-gray-800 dark:text-gray-300">#{tag}</li>)}
+        </ul>
+      )}
+    </header>
+  );
+};
+
+const Preview = forwardRef<HTMLDivElement, PreviewProps>(({ markdown, onLineClick, renderHtml }, ref) => {
+  const [stripped, setStripped] = useState<string[]>([]);
+  // Re-renders once referenced media has been read from the asset library.
+  useAssetUrls(markdown);
+  const frontMatter = useMemo(() => parseFrontMatter(markdown), [markdown]);
+
+  const handleClick = (e: React.MouseEvent) => {
+    if (!onLineClick) return;
+    const target = e.target as HTMLElement;
+    // Let links work and don't fight the user selecting text to copy.
+    if (target.closest('a') || window.getSelection()?.toString()) return;
+    const block = target.closest<HTMLElement>('[data-source-line]');
+    if (block) onLineClick(Number(block.dataset.sourceLine));
+  };
+
+  return (
+    <div ref={ref} className="h-full overflow-y-auto bg-gray-50 dark:bg-gray-800" onClick={handleClick}>
+      {stripped.length > 0 && (
+        <div role="status" className="mx-6 mt-4 text-sm p-2 rounded-md text-amber-800 bg-amber-100 dark:text-amber-300 dark:bg-amber-900/50">
+          {renderHtml
+            ? `Removed for safety: ${stripped.join(', ')}.`
+            : 'HTML in this document is hidden. Turn on View › Render HTML to show it.'}
+        </div>
+      )}
+      <article className={`prose dark:prose-invert max-w-full mx-auto p-6 sm:p-8 md:p-12 ${onLineClick ? 'cursor-text' : ''}`}>
+        {frontMatter && <FrontMatterCard frontMatter={frontMatter} />}
+        <MarkdownContent markdown={markdown} sourceLines renderHtml={renderHtml} onStripped={setStripped} />
       </article>
     </div>
   );
-};
+});
+
+Preview.displayName = 'Preview';
 
 export default Preview;
\ No newline at end of file
@@ -0,0 +1,113 @@
+import React, { useState, useMemo } from 'react';
+import { Diagnostic, LINT_RULES, LintRuleId, MAX_DIAGNOSTICS } from '../services/lint';
+import { LintState } from '../hooks/useLint';
+import { SparklesIcon } from './icons';
+
+interface ProblemsPanelProps {
+  markdown: string;
+  lint: LintState;
+  onJump: (diagnostic: Diagnostic) => void;
+  /** Sends the sentence around a problem to the AI for a rewrite. */
+  onFix: (diagnostic: Diagnostic) => void;
+}
+
+const SEVERITY_DOTS: Record<Diagnostic['severity'], string> = {
+  warning: 'bg-amber-500',
+  info: 'bg-sky-500',
+};
+
+const ProblemsPanel: React.FC<ProblemsPanelProps> = ({ markdown, lint, onJump, onFix }) => {
+  const { diagnostics, isEnabled, setIsEnabled, options, toggleRule, setMaxSentenceWords } = lint;
+  const [isConfiguring, setIsConfiguring] = useState(false);
+
+  // Line numbers for each problem, counted in one pass over the text.
+  const lineNumbers = useMemo(() => {
+    const numbers = new Map<string, number>();
+    let line = 1;
+    let offset = 0;
+    diagnostics.forEach(diagnostic => {
+      for (; offset < diagnostic.start && offset < markdown.length; offset++) {
+        if (markdown[offset] === '\n') line++;
+      }
+      numbers.set(diagnostic.id, line);
+    });
+    return numbers;
+  }, [diagnostics, markdown]);
+
+  return (
+    <aside className="w-72 bg-white dark:bg-gray-900 border-l border-gray-200 dark:border-gray-700 flex flex-col">
+      <div className="flex items-center justify-between px-4 pt-4 pb-3">
+        <h2 className="text-xs font-semibold text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+          Problems{isEnabled && diagnostics.length > 0 && ` (${diagnostics.length})`}
+        </h2>
+        <button
+          onClick={() => setIsConfiguring(prev => !prev)}
+          aria-expanded={isConfiguring}
+          className="px-2 py-0.5 rounded-md text-xs font-medium hover:bg-gray-200 dark:hover:bg-gray-700 text-indigo-500"
+        >
+          Rules
+        </button>
+      </div>
+      {isConfiguring && (
+        <div className="mx-4 mb-3 p-3 space-y-2 text-sm rounded-md bg-gray-50 dark:bg-gray-800">
+          <label className="flex items-center space-x-2 font-medium">
+            <input type="checkbox" checked={isEnabled} onChange={e => setIsEnabled(e.target.checked)} />
+            <span>Check writing as I type</span>
+          </label>
+          {(Object.keys(LINT_RULES) as LintRuleId[]).map(rule => (
+            <label key={rule} className={`flex items-center space-x-2 pl-4 ${isEnabled ? '' : 'opacity-50'}`}>
+              <input type="checkbox" disabled={!isEnabled} checked={!options.disabledRules.includes(rule)} onChange={() => toggleRule(rule)} />
+              <span>{LINT_RULES[rule].label}</span>
+            </label>
+          ))}
+          <label className={`flex items-center justify-between pl-4 ${isEnabled ? '' : 'opacity-50'}`}>
+            <span>Max words per sentence</span>
+            <input
+              type="number"
+              min={5}
+              max={200}
+              value={options.maxSentenceWords}
+              disabled={!isEnabled}
+              onChange={e => { const value = Number(e.target.value); if (value >= 5) setMaxSentenceWords(value); }}
+              className="w-16 px-2 py-0.5 rounded-md bg-white dark:bg-gray-700 border border-gray-200 dark:border-gray-600"
+            />
+          </label>
+        </div>
+      )}
+      {!isEnabled ? (
+        <p className="px-4 text-sm text-gray-400">Writing checks are turned off.</p>
+      ) : diagnostics.length === 0 ? (
+        <p className="px-4 text-sm text-gray-400">No problems found.</p>
+      ) : (
+        <ul className="flex-1 overflow-y-auto px-2 pb-4">
+          {diagnostics.map(diagnostic => (
+            <li key={diagnostic.id} className="group flex items-start rounded-md hover:bg-gray-100 dark:hover:bg-gray-800">
+              <button onClick={() => onJump(diagnostic)} className="flex-1 min-w-0 flex items-start space-x-2 px-2 py-1.5 text-left text-sm">
+                <span className={`mt-1.5 w-2 h-2 rounded-full flex-shrink-0 ${SEVERITY_DOTS[diagnostic.severity]}`} />
+                <span className="min-w-0">
+                  <span className="block text-gray-700 dark:text-gray-200">{diagnostic.message}</span>
+                  <span className="block text-xs text-gray-400">{LINT_RULES[diagnostic.rule].label} · line {lineNumbers.get(diagnostic.id)}</span>
+                </span>
+              </button>
+              {diagnostic.fixRange && (
+                <button
+                  onClick={() => onFix(diagnostic)}
+                  title="Fix with AI"
+                  aria-label="Fix with AI"
+                  className="hidden group-hover:block m-1 p-1 rounded-md text-indigo-500 hover:bg-gray-200 dark:hover:bg-gray-700"
+                >
+                  <SparklesIcon className="w-4 h-4" />
+                </button>
+              )}
+            </li>
+          ))}
+          {diagnostics.length >= MAX_DIAGNOSTICS && (
+            <li className="px-2 py-1.5 text-xs text-gray-400">Only the first {MAX_DIAGNOSTICS} problems are shown.</li>
+          )}
+        </ul>
+      )}
+    </aside>
+  );
+};
+
+export default ProblemsPanel;
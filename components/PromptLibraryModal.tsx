@@ -0,0 +1,171 @@
+import React, { useState, useRef } from 'react';
+import { CustomAction, CustomActionOutput, CustomActionScope } from '../types';
+import { TEMPLATE_VARIABLES } from '../services/promptLibrary';
+import { createId } from '../services/storage';
+import { downloadText } from '../services/files';
+import { XIcon, PlusIcon, PencilIcon, TrashIcon } from './icons';
+
+interface PromptLibraryModalProps {
+  customActions: CustomAction[];
+  onSave: (action: CustomAction) => void;
+  onDelete: (id: string) => void;
+  onImport: (json: string) => number;
+  exportJson: () => string;
+  onClose: () => void;
+}
+
+const SCOPE_LABELS: Record<CustomActionScope, string> = {
+  selection: 'Selection',
+  document: 'Whole document',
+};
+
+const OUTPUT_LABELS: Record<CustomActionOutput, string> = {
+  'replace': 'Replace (with review)',
+  'insert-below': 'Insert below',
+  'modal': 'Show in dialog',
+};
+
+const inputClassName = "w-full px-3 py-2 text-sm rounded-md bg-gray-100 dark:bg-gray-700 focus:outline-none focus:ring-2 focus:ring-indigo-500";
+
+const emptyAction = (): CustomAction => ({
+  id: createId(),
+  name: '',
+  template: 'Rewrite the following text:\n\n---\n{{selection}}\n---',
+  scope: 'selection',
+  output: 'replace',
+});
+
+const PromptLibraryModal: React.FC<PromptLibraryModalProps> = ({ customActions, onSave, onDelete, onImport, exportJson, onClose }) => {
+  const [draft, setDraft] = useState<CustomAction | null>(null);
+  const [message, setMessage] = useState<{ type: 'error' | 'info'; text: string } | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const count = onImport(await file.text());
+      setMessage({ type: 'info', text: `Imported ${count} ${count === 1 ? 'action' : 'actions'}.` });
+    } catch (error) {
+      setMessage({ type: 'error', text: error instanceof Error ? error.message : 'Import failed.' });
+    }
+  };
+
+  const handleSave = () => {
+    if (!draft || !draft.name.trim() || !draft.template.trim()) return;
+    onSave({ ...draft, name: draft.name.trim() });
+    setDraft(null);
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4" onClick={onClose}>
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-xl w-full max-w-2xl max-h-[80vh] flex flex-col" onClick={e => e.stopPropagation()}>
+        <div className="flex items-center justify-between p-4 border-b border-gray-200 dark:border-gray-700">
+          <h2 className="text-lg font-semibold">Custom Actions</h2>
+          <button onClick={onClose} className="p-1 rounded-full hover:bg-gray-200 dark:hover:bg-gray-600">
+            <XIcon className="w-5 h-5" />
+          </button>
+        </div>
+        <div className="p-6 overflow-y-auto space-y-4">
+          {message && (
+            <div className={`text-sm p-2 rounded-md ${message.type === 'error' ? 'text-red-500 bg-red-100 dark:bg-red-900/50' : 'text-green-700 bg-green-100 dark:text-green-300 dark:bg-green-900/50'}`}>
+              {message.text}
+            </div>
+          )}
+          {draft ? (
+            <div className="space-y-4">
+              <label className="block space-y-1">
+                <span className="text-sm font-medium">Name</span>
+                <input
+                  type="text"
+                  value={draft.name}
+                  onChange={e => setDraft({ ...draft, name: e.target.value })}
+                  placeholder="e.g., Convert to release notes"
+                  className={inputClassName}
+                />
+              </label>
+              <label className="block space-y-1">
+                <span className="text-sm font-medium">Prompt template</span>
+                <textarea
+                  value={draft.template}
+                  onChange={e => setDraft({ ...draft, template: e.target.value })}
+                  rows={6}
+                  className={`${inputClassName} font-mono resize-y`}
+                />
+                <span className="block text-xs text-gray-500 dark:text-gray-400">
+                  Available variables: {TEMPLATE_VARIABLES.map(name => <code key={name} className="mr-2">{`{{${name}}}`}</code>)}
+                </span>
+              </label>
+              <div className="grid grid-cols-2 gap-4">
+                <label className="block space-y-1">
+                  <span className="text-sm font-medium">Scope</span>
+                  <select value={draft.scope} onChange={e => setDraft({ ...draft, scope: e.target.value as CustomActionScope })} className={inputClassName}>
+                    {(Object.keys(SCOPE_LABELS) as CustomActionScope[]).map(scope => <option key={scope} value={scope}>{SCOPE_LABELS[scope]}</option>)}
+                  </select>
+                </label>
+                <label className="block space-y-1">
+                  <span className="text-sm font-medium">Output</span>
+                  <select value={draft.output} onChange={e => setDraft({ ...draft, output: e.target.value as CustomActionOutput })} className={inputClassName}>
+                    {(Object.keys(OUTPUT_LABELS) as CustomActionOutput[]).map(output => <option key={output} value={output}>{OUTPUT_LABELS[output]}</option>)}
+                  </select>
+                </label>
+              </div>
+            </div>
+          ) : (
+            <ul className="divide-y divide-gray-100 dark:divide-gray-700">
+              {customActions.length === 0 && <li className="py-4 text-sm text-gray-500 dark:text-gray-400">No custom actions yet.</li>}
+              {customActions.map(action => (
+                <li key={action.id} className="flex items-center py-2">
+                  <div className="flex-1 min-w-0">
+                    <div className="text-sm font-medium truncate">{action.name}</div>
+                    <div className="text-xs text-gray-500 dark:text-gray-400">{SCOPE_LABELS[action.scope]} · {OUTPUT_LABELS[action.output]}</div>
+                  </div>
+                  <button onClick={() => setDraft(action)} title="Edit" aria-label="Edit" className="p-1 rounded hover:bg-gray-200 dark:hover:bg-gray-600">
+                    <PencilIcon className="w-4 h-4" />
+                  </button>
+                  <button onClick={() => onDelete(action.id)} title="Delete" aria-label="Delete" className="ml-1 p-1 rounded hover:bg-gray-200 dark:hover:bg-gray-600">
+                    <TrashIcon className="w-4 h-4" />
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+        <div className="flex justify-between p-4 border-t border-gray-200 dark:border-gray-700">
+          {draft ? (
+            <>
+              <button onClick={() => setDraft(null)} className="px-4 py-2 text-sm font-medium text-gray-700 bg-gray-100 rounded-md hover:bg-gray-200 dark:bg-gray-700 dark:text-gray-200 dark:hover:bg-gray-600">Back</button>
+              <button
+                onClick={handleSave}
+                disabled={!draft.name.trim() || !draft.template.trim()}
+                className="px-4 py-2 text-sm font-medium text-white bg-indigo-600 rounded-md hover:bg-indigo-700 disabled:bg-indigo-400"
+              >
+                Save Action
+              </button>
+            </>
+          ) : (
+            <>
+              <div className="flex space-x-2">
+                <button onClick={() => fileInputRef.current?.click()} className="px-4 py-2 text-sm font-medium text-gray-700 bg-gray-100 rounded-md hover:bg-gray-200 dark:bg-gray-700 dark:text-gray-200 dark:hover:bg-gray-600">Import JSON</button>
+                <button
+                  onClick={() => downloadText('custom-actions.json', exportJson(), 'application/json')}
+                  disabled={customActions.length === 0}
+                  className="px-4 py-2 text-sm font-medium text-gray-700 bg-gray-100 rounded-md hover:bg-gray-200 dark:bg-gray-700 dark:text-gray-200 dark:hover:bg-gray-600 disabled:opacity-50"
+                >
+                  Export JSON
+                </button>
+                <input ref={fileInputRef} type="file" accept="application/json,.json" onChange={handleImport} className="hidden" />
+              </div>
+              <button onClick={() => { setMessage(null); setDraft(emptyAction()); }} className="flex items-center px-4 py-2 text-sm font-medium text-white bg-indigo-600 rounded-md hover:bg-indigo-700">
+                <PlusIcon className="w-4 h-4 mr-1" /> New Action
+              </button>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PromptLibraryModal;
@@ -0,0 +1,133 @@
+import React, { useState } from 'react';
+import { AiProviderId, AiSettings } from '../types';
+import { DEFAULT_IMAGE_MODEL, DEFAULT_MODELS, PROVIDER_LABELS, getAiSettings, saveAiSettings } from '../services/aiProvider';
+import { XIcon } from './icons';
+
+interface SettingsModalProps {
+  onClose: () => void;
+  onManageStyleProfiles: () => void;
+}
+
+const inputClassName = "w-full px-3 py-2 text-sm rounded-md bg-gray-100 dark:bg-gray-700 focus:outline-none focus:ring-2 focus:ring-indigo-500";
+
+const SettingsModal: React.FC<SettingsModalProps> = ({ onClose, onManageStyleProfiles }) => {
+  const [settings, setSettings] = useState<AiSettings>(getAiSettings);
+
+  const update = (changes: Partial<AiSettings>) => setSettings(prev => ({ ...prev, ...changes }));
+
+  const handleProviderChange = (providerId: AiProviderId) => {
+    // Only carry the model name over if the user had customized it.
+    const keepModel = settings.model && settings.model !== DEFAULT_MODELS[settings.providerId];
+    update({ providerId, model: keepModel ? settings.model : DEFAULT_MODELS[providerId] });
+  };
+
+  const handleSave = () => {
+    saveAiSettings(settings);
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4" onClick={onClose}>
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-xl w-full max-w-2xl max-h-[80vh] flex flex-col" onClick={e => e.stopPropagation()}>
+        <div className="flex items-center justify-between p-4 border-b border-gray-200 dark:border-gray-700">
+          <h2 className="text-lg font-semibold">Settings</h2>
+          <button onClick={onClose} className="p-1 rounded-full hover:bg-gray-200 dark:hover:bg-gray-600">
+            <XIcon className="w-5 h-5" />
+          </button>
+        </div>
+        <div className="p-6 overflow-y-auto space-y-6">
+          <section className="space-y-4">
+            <h3 className="text-xs font-semibold text-gray-500 dark:text-gray-400 uppercase tracking-wider">AI Provider</h3>
+            <label className="block space-y-1">
+              <span className="text-sm font-medium">Provider</span>
+              <select
+                value={settings.providerId}
+                onChange={e => handleProviderChange(e.target.value as AiProviderId)}
+                className={inputClassName}
+              >
+                {(Object.keys(PROVIDER_LABELS) as AiProviderId[]).map(id => (
+                  <option key={id} value={id}>{PROVIDER_LABELS[id]}</option>
+                ))}
+              </select>
+            </label>
+            <label className="block space-y-1">
+              <span className="text-sm font-medium">Model</span>
+              <input
+                type="text"
+                value={settings.model}
+                onChange={e => update({ model: e.target.value })}
+                placeholder={DEFAULT_MODELS[settings.providerId]}
+                className={inputClassName}
+              />
+            </label>
+            {settings.providerId === 'openai' && (
+              <>
+                <label className="block space-y-1">
+                  <span className="text-sm font-medium">Base URL</span>
+                  <input
+                    type="url"
+                    value={settings.baseUrl}
+                    onChange={e => update({ baseUrl: e.target.value })}
+                    placeholder="http://localhost:11434/v1"
+                    className={inputClassName}
+                  />
+                </label>
+                <label className="block space-y-1">
+                  <span className="text-sm font-medium">API Key</span>
+                  <input
+                    type="password"
+                    value={settings.apiKey}
+                    onChange={e => update({ apiKey: e.target.value })}
+                    placeholder="Leave empty for local servers"
+                    className={inputClassName}
+                  />
+                  <span className="block text-xs text-gray-500 dark:text-gray-400">Stored in this browser's local storage.</span>
+                </label>
+                <label className="block space-y-1">
+                  <span className="text-sm font-medium">Image Model</span>
+                  <input
+                    type="text"
+                    value={settings.imageModel}
+                    onChange={e => update({ imageModel: e.target.value })}
+                    placeholder={DEFAULT_IMAGE_MODEL}
+                    className={inputClassName}
+                  />
+                  <span className="block text-xs text-gray-500 dark:text-gray-400">dall-e-3 makes 1:1, 16:9 and 9:16 images; gpt-image-1 makes 1:1, 3:2 and 2:3.</span>
+                </label>
+              </>
+            )}
+            {settings.providerId === 'gemini' && (
+              <p className="text-xs text-gray-500 dark:text-gray-400">Gemini uses the <code>GEMINI_API_KEY</code> configured in <code>.env.local</code>.</p>
+            )}
+          </section>
+          <section className="space-y-2">
+            <h3 className="text-xs font-semibold text-gray-500 dark:text-gray-400 uppercase tracking-wider">Writing Style</h3>
+            <p className="text-sm text-gray-500 dark:text-gray-400">Style profiles describe a voice (rules, banned words, reading level and examples) for Change Tone and custom actions.</p>
+            <button
+              onClick={onManageStyleProfiles}
+              className="px-4 py-2 text-sm font-medium text-gray-700 bg-gray-100 rounded-md hover:bg-gray-200 dark:bg-gray-700 dark:text-gray-200 dark:hover:bg-gray-600"
+            >
+              Manage Style Profiles…
+            </button>
+          </section>
+        </div>
+        <div className="flex justify-end p-4 border-t border-gray-200 dark:border-gray-700">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 text-sm font-medium text-gray-700 bg-gray-100 rounded-md hover:bg-gray-200 dark:bg-gray-700 dark:text-gray-200 dark:hover:bg-gray-600"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleSave}
+            className="ml-2 px-4 py-2 text-sm font-medium text-white bg-indigo-600 rounded-md hover:bg-indigo-700"
+          >
+            Save
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SettingsModal;
@@ -1,15 +1,35 @@
 import React, { useState } from 'react';
-import { AiAction, Tone } from '../types';
+import { AiAction, AiTaskAction, CustomAction, StyleProfile } from '../types';
+import { AiActionOptions } from '../services/geminiService';
 import { SparklesIcon, ChevronDownIcon, LoadingSpinner } from './icons';
 
 interface SidebarProps {
-  onAiAction: (action: AiAction, options?: { tone?: Tone; prompt?: string }) => void;
-  isLoading: boolean;
+  onAiAction: (action: AiAction, options?: AiActionOptions) => void;
+  /** Actions with a request in flight; more can be started while these run. */
+  busyActions: AiTaskAction[];
   selectionActive: boolean;
+  customActions: CustomAction[];
+  onCustomAction: (action: CustomAction, style: StyleProfile | null) => void;
+  onManageCustomActions: () => void;
+  styleProfiles: StyleProfile[];
+  /** Used by Change Tone and by custom actions' {{tone}} and {{style}}. */
+  selectedStyle: StyleProfile | null;
+  onSelectStyle: (id: string) => void;
+  onManageStyleProfiles: () => void;
 }
 
-const Sidebar: React.FC<SidebarProps> = ({ onAiAction, isLoading, selectionActive }) => {
-  const [selectedTone, setSelectedTone] = useState<Tone>(Tone.PROFESSIONAL);
+const Sidebar: React.FC<SidebarProps> = ({
+  onAiAction,
+  busyActions,
+  selectionActive,
+  customActions,
+  onCustomAction,
+  onManageCustomActions,
+  styleProfiles,
+  selectedStyle,
+  onSelectStyle,
+  onManageStyleProfiles,
+}) => {
   const [outlinePrompt, setOutlinePrompt] = useState<string>('');
 
   const ActionButton: React.FC<{
@@ -17,9 +37,8 @@ const Sidebar: React.FC<SidebarProps> = ({ onAiAction, isLoading, selectionActiv
     text: string;
     disabled?: boolean;
     requiresSelection?: boolean;
-    activeAction?: AiAction | null;
   }> = ({ action, text, disabled = false, requiresSelection = false }) => {
-    const isButtonDisabled = disabled || isLoading || (requiresSelection && !selectionActive);
+    const isButtonDisabled = disabled || (requiresSelection && !selectionActive);
     const
      handleClick = () => {
         if (!isButtonDisabled) {
@@ -33,7 +52,7 @@ const Sidebar: React.FC<SidebarProps> = ({ onAiAction, isLoading, selectionActiv
         className="w-full flex items-center justify-between text-left px-3 py-2 text-sm font-medium rounded-md bg-gray-100 dark:bg-gray-700 hover:bg-gray-200 dark:hover:bg-gray-600 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
       >
         <span>{text}</span>
-        {isLoading && disabled ? <LoadingSpinner className="w-4 h-4" /> : <SparklesIcon className="w-4 h-4 text-indigo-400" />}
+        {busyActions.includes(action) ? <LoadingSpinner className="w-4 h-4" /> : <SparklesIcon className="w-4 h-4 text-indigo-400" />}
       </button>
     );
   };
@@ -43,16 +62,18 @@ const Sidebar: React.FC<SidebarProps> = ({ onAiAction, isLoading, selectionActiv
       <div>
         <h2 className="text-xs font-semibold text-gray-500 dark:text-gray-400 uppercase tracking-wider mb-3">Selection Actions</h2>
         <div className="space-y-2">
-          <ActionButton action={AiAction.IMPROVE} text="Improve Writing" requiresSelection={true} disabled={isLoading}/>
-          <ActionButton action={AiAction.SUMMARIZE_SELECTION} text="Summarize Selection" requiresSelection={true} disabled={isLoading}/>
+          <ActionButton action={AiAction.IMPROVE} text="Improve Writing" requiresSelection={true}/>
+          <ActionButton action={AiAction.SUMMARIZE_SELECTION} text="Summarize Selection" requiresSelection={true}/>
+          <ActionButton action={AiAction.GENERATE_DIAGRAM} text="Make Diagram" requiresSelection={true}/>
           <div className="relative">
             <select
-              value={selectedTone}
-              onChange={(e) => setSelectedTone(e.target.value as Tone)}
-              disabled={isLoading || !selectionActive}
+              value={selectedStyle?.id ?? ''}
+              onChange={(e) => onSelectStyle(e.target.value)}
+              disabled={!selectionActive || styleProfiles.length === 0}
+              title={selectedStyle?.description}
               className="w-full appearance-none px-3 py-2 text-sm font-medium rounded-md bg-gray-100 dark:bg-gray-700 hover:bg-gray-200 dark:hover:bg-gray-600 disabled:opacity-50 disabled:cursor-not-allowed transition-colors focus:outline-none focus:ring-2 focus:ring-indigo-500"
             >
-              {Object.values(Tone).map(tone => <option key={tone} value={tone}>{tone}</option>)}
+              {styleProfiles.map(profile => <option key={profile.id} value={profile.id}>{profile.name}</option>)}
             </select>
              <div
               className="absolute inset-y-0 right-0 flex items-center pr-3 pointer-events-none"
@@ -61,21 +82,48 @@ const Sidebar: React.FC<SidebarProps> = ({ onAiAction, isLoading, selectionActiv
              </div>
           </div>
            <button
-              onClick={() => onAiAction(AiAction.CHANGE_TONE, { tone: selectedTone })}
-              disabled={isLoading || !selectionActive}
+              onClick={() => selectedStyle && onAiAction(AiAction.CHANGE_TONE, { style: selectedStyle })}
+              disabled={!selectionActive || !selectedStyle}
               className="w-full flex items-center justify-between text-left px-3 py-2 text-sm font-medium rounded-md bg-indigo-500 text-white hover:bg-indigo-600 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
             >
               <span>Change Tone</span>
-               {isLoading ? <LoadingSpinner className="w-4 h-4" /> : <SparklesIcon className="w-4 h-4" />}
+               {busyActions.includes(AiAction.CHANGE_TONE) ? <LoadingSpinner className="w-4 h-4" /> : <SparklesIcon className="w-4 h-4" />}
             </button>
+          <button onClick={onManageStyleProfiles} className="text-xs text-indigo-500 hover:text-indigo-600">Manage style profiles</button>
         </div>
       </div>
       <div>
         <h2 className="text-xs font-semibold text-gray-500 dark:text-gray-400 uppercase tracking-wider mb-3">Document Actions</h2>
         <div className="space-y-2">
-          <ActionButton action={AiAction.SUMMARIZE_DOCUMENT} text="Summarize Document" disabled={isLoading} />
-          <ActionButton action={AiAction.GENERATE_OUTLINE} text="Generate Outline" disabled={isLoading}/>
-          <ActionButton action={AiAction.SUGGEST_TITLES} text="Suggest Titles" disabled={isLoading}/>
+          <ActionButton action={AiAction.SUMMARIZE_DOCUMENT} text="Summarize Document" />
+          <ActionButton action={AiAction.GENERATE_OUTLINE} text="Generate Outline" />
+          <ActionButton action={AiAction.SUGGEST_TITLES} text="Suggest Titles" />
+        </div>
+      </div>
+      <div>
+        <div className="flex items-center justify-between mb-3">
+          <h2 className="text-xs font-semibold text-gray-500 dark:text-gray-400 uppercase tracking-wider">Custom Actions</h2>
+          <button onClick={onManageCustomActions} className="text-xs text-indigo-500 hover:text-indigo-600">Manage</button>
+        </div>
+        <div className="space-y-2">
+          {customActions.map(action => {
+            const isDisabled = action.scope === 'selection' && !selectionActive;
+            return (
+              <button
+                key={action.id}
+                onClick={() => onCustomAction(action, selectedStyle)}
+                disabled={isDisabled}
+                title={action.scope === 'selection' ? 'Runs on the selected text' : 'Runs on the whole document'}
+                className="w-full flex items-center justify-between text-left px-3 py-2 text-sm font-medium rounded-md bg-gray-100 dark:bg-gray-700 hover:bg-gray-200 dark:hover:bg-gray-600 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+              >
+                <span className="truncate">{action.name}</span>
+                {busyActions.includes(`custom:${action.id}`) ? <LoadingSpinner className="w-4 h-4 flex-shrink-0" /> : <SparklesIcon className="w-4 h-4 flex-shrink-0 text-indigo-400" />}
+              </button>
+            );
+          })}
+          {customActions.length === 0 && (
+            <p className="text-xs text-gray-500 dark:text-gray-400">Create your own prompts with <button onClick={onManageCustomActions} className="text-indigo-500">Manage</button>.</p>
+          )}
         </div>
       </div>
        <div>
@@ -86,16 +134,15 @@ const Sidebar: React.FC<SidebarProps> = ({ onAiAction, isLoading, selectionActiv
                 onChange={(e) => setOutlinePrompt(e.target.value)}
                 placeholder="e.g., An essay about the history of AI"
                 rows={3}
-                disabled={isLoading}
                 className="w-full px-3 py-2 text-sm rounded-md bg-gray-100 dark:bg-gray-700 disabled:opacity-50 transition-colors focus:outline-none focus:ring-2 focus:ring-indigo-500 resize-none"
             />
             <button
                 onClick={() => onAiAction(AiAction.GENERATE_OUTLINE_FROM_PROMPT, { prompt: outlinePrompt })}
-                disabled={isLoading || !outlinePrompt.trim()}
+                disabled={!outlinePrompt.trim()}
                 className="w-full flex items-center justify-center text-center px-3 py-2 text-sm font-medium rounded-md bg-indigo-500 text-white hover:bg-indigo-600 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
             >
                 <span>Generate Outline</span>
-                {isLoading ? <LoadingSpinner className="w-4 h-4 ml-2" /> : <SparklesIcon className="w-4 h-4 ml-2" />}
+                {busyActions.includes(AiAction.GENERATE_OUTLINE_FROM_PROMPT) ? <LoadingSpinner className="w-4 h-4 ml-2" /> : <SparklesIcon className="w-4 h-4 ml-2" />}
             </button>
         </div>
       </div>
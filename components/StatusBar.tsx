@@ -1,11 +1,25 @@
 
 import React, { useMemo } from 'react';
+import { AiTask, VideoJob } from '../types';
+import TaskTray from './TaskTray';
+import VideoJobsTray from './VideoJobsTray';
 
 interface StatusBarProps {
   text: string;
+  tasks: AiTask[];
+  onCancelTask: (id: string) => void;
+  onDismissTask: (id: string) => void;
+  onClearFinishedTasks: () => void;
+  videoJobs: VideoJob[];
+  onInsertVideo: (job: VideoJob) => void;
+  onRetryVideo: (id: string) => void;
+  onRemoveVideo: (id: string) => void;
+  /** Lint problems in the document; null when checks are off. */
+  problemCount: number | null;
+  onShowProblems: () => void;
 }
 
-const StatusBar: React.FC<StatusBarProps> = ({ text }) => {
+const StatusBar: React.FC<StatusBarProps> = ({ text, tasks, onCancelTask, onDismissTask, onClearFinishedTasks, videoJobs, onInsertVideo, onRetryVideo, onRemoveVideo, problemCount, onShowProblems }) => {
   const { words, characters } = useMemo(() => {
     const trimmedText = text.trim();
     const wordMatch = trimmedText.match(/\S+/g);
@@ -17,6 +31,15 @@ const StatusBar: React.FC<StatusBarProps> = ({ text }) => {
 
   return (
     <footer className="flex items-center justify-end px-4 py-1 bg-white dark:bg-gray-800 border-t border-gray-200 dark:border-gray-700 text-xs text-gray-500 dark:text-gray-400 space-x-4">
+      <div className="flex items-center space-x-4 mr-auto">
+        <TaskTray tasks={tasks} onCancel={onCancelTask} onDismiss={onDismissTask} onClearFinished={onClearFinishedTasks} />
+        <VideoJobsTray jobs={videoJobs} onInsert={onInsertVideo} onRetry={onRetryVideo} onRemove={onRemoveVideo} />
+      </div>
+      {problemCount !== null && (
+        <button onClick={onShowProblems} title="Show Problems" className={`px-2 rounded hover:bg-gray-100 dark:hover:bg-gray-700 ${problemCount > 0 ? 'text-amber-600 dark:text-amber-400' : ''}`}>
+          {problemCount} {problemCount === 1 ? 'problem' : 'problems'}
+        </button>
+      )}
       <span>{words} {words === 1 ? 'word' : 'words'}</span>
       <span>{characters} {characters === 1 ? 'character' : 'characters'}</span>
     </footer>
@@ -0,0 +1,155 @@
+import React, { useState } from 'react';
+import { StyleProfile } from '../types';
+import { parseList } from '../services/styleProfiles';
+import { createId } from '../services/storage';
+import { XIcon, PlusIcon, PencilIcon, TrashIcon } from './icons';
+
+interface StyleProfilesModalProps {
+  profiles: StyleProfile[];
+  onSave: (profile: StyleProfile) => void;
+  onDelete: (id: string) => void;
+  onClose: () => void;
+}
+
+// List fields are edited as plain text: rules one per line, examples separated by a blank line.
+interface ProfileDraft {
+  id: string;
+  name: string;
+  description: string;
+  dos: string;
+  donts: string;
+  bannedWords: string;
+  readingLevel: string;
+  examples: string;
+}
+
+const inputClassName = "w-full px-3 py-2 text-sm rounded-md bg-gray-100 dark:bg-gray-700 focus:outline-none focus:ring-2 focus:ring-indigo-500";
+
+const toDraft = (profile?: StyleProfile): ProfileDraft => ({
+  id: profile?.id ?? createId(),
+  name: profile?.name ?? '',
+  description: profile?.description ?? '',
+  dos: profile?.dos.join('\n') ?? '',
+  donts: profile?.donts.join('\n') ?? '',
+  bannedWords: profile?.bannedWords.join(', ') ?? '',
+  readingLevel: profile?.readingLevel ? String(profile.readingLevel) : '',
+  examples: profile?.examples.join('\n\n') ?? '',
+});
+
+const fromDraft = (draft: ProfileDraft): StyleProfile => ({
+  id: draft.id,
+  name: draft.name.trim(),
+  description: draft.description.trim(),
+  dos: draft.dos.split('\n').map(rule => rule.trim()).filter(Boolean),
+  donts: draft.donts.split('\n').map(rule => rule.trim()).filter(Boolean),
+  bannedWords: parseList(draft.bannedWords),
+  readingLevel: Number(draft.readingLevel) > 0 ? Number(draft.readingLevel) : null,
+  examples: draft.examples.split(/\n\s*\n/).map(example => example.trim()).filter(Boolean),
+});
+
+const StyleProfilesModal: React.FC<StyleProfilesModalProps> = ({ profiles, onSave, onDelete, onClose }) => {
+  const [draft, setDraft] = useState<ProfileDraft | null>(null);
+
+  const update = (changes: Partial<ProfileDraft>) => setDraft(prev => (prev ? { ...prev, ...changes } : prev));
+
+  const handleSave = () => {
+    if (!draft || !draft.name.trim()) return;
+    onSave(fromDraft(draft));
+    setDraft(null);
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4" onClick={onClose}>
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-xl w-full max-w-2xl max-h-[80vh] flex flex-col" onClick={e => e.stopPropagation()}>
+        <div className="flex items-center justify-between p-4 border-b border-gray-200 dark:border-gray-700">
+          <h2 className="text-lg font-semibold">Style Profiles</h2>
+          <button onClick={onClose} className="p-1 rounded-full hover:bg-gray-200 dark:hover:bg-gray-600">
+            <XIcon className="w-5 h-5" />
+          </button>
+        </div>
+        <div className="p-6 overflow-y-auto space-y-4">
+          {draft ? (
+            <div className="space-y-4">
+              <div className="grid grid-cols-3 gap-4">
+                <label className="col-span-2 block space-y-1">
+                  <span className="text-sm font-medium">Name</span>
+                  <input type="text" value={draft.name} onChange={e => update({ name: e.target.value })} placeholder="e.g., Brand voice" className={inputClassName} />
+                </label>
+                <label className="block space-y-1">
+                  <span className="text-sm font-medium">Reading level</span>
+                  <input type="number" min={1} max={18} value={draft.readingLevel} onChange={e => update({ readingLevel: e.target.value })} placeholder="Grade, e.g. 8" className={inputClassName} />
+                </label>
+              </div>
+              <label className="block space-y-1">
+                <span className="text-sm font-medium">Description</span>
+                <input type="text" value={draft.description} onChange={e => update({ description: e.target.value })} placeholder="e.g., Plain, upbeat and practical" className={inputClassName} />
+              </label>
+              <div className="grid grid-cols-2 gap-4">
+                <label className="block space-y-1">
+                  <span className="text-sm font-medium">Do</span>
+                  <textarea value={draft.dos} onChange={e => update({ dos: e.target.value })} rows={4} placeholder="One rule per line" className={`${inputClassName} resize-y`} />
+                </label>
+                <label className="block space-y-1">
+                  <span className="text-sm font-medium">Don't</span>
+                  <textarea value={draft.donts} onChange={e => update({ donts: e.target.value })} rows={4} placeholder="One rule per line" className={`${inputClassName} resize-y`} />
+                </label>
+              </div>
+              <label className="block space-y-1">
+                <span className="text-sm font-medium">Banned words</span>
+                <input type="text" value={draft.bannedWords} onChange={e => update({ bannedWords: e.target.value })} placeholder="e.g., leverage, synergy, world-class" className={inputClassName} />
+                <span className="block text-xs text-gray-500 dark:text-gray-400">Separated by commas. Rewrites that still use them are flagged before you accept them.</span>
+              </label>
+              <label className="block space-y-1">
+                <span className="text-sm font-medium">Examples</span>
+                <textarea value={draft.examples} onChange={e => update({ examples: e.target.value })} rows={6} placeholder="Paragraphs written in this style, separated by a blank line" className={`${inputClassName} resize-y`} />
+              </label>
+            </div>
+          ) : (
+            <ul className="divide-y divide-gray-100 dark:divide-gray-700">
+              {profiles.length === 0 && <li className="py-4 text-sm text-gray-500 dark:text-gray-400">No style profiles yet.</li>}
+              {profiles.map(profile => (
+                <li key={profile.id} className="flex items-center py-2">
+                  <div className="flex-1 min-w-0">
+                    <div className="text-sm font-medium truncate">{profile.name}</div>
+                    <div className="text-xs text-gray-500 dark:text-gray-400 truncate">
+                      {[profile.description, profile.readingLevel && `Grade ${profile.readingLevel}`, profile.bannedWords.length && `${profile.bannedWords.length} banned`].filter(Boolean).join(' · ')}
+                    </div>
+                  </div>
+                  <button onClick={() => setDraft(toDraft(profile))} title="Edit" aria-label="Edit" className="p-1 rounded hover:bg-gray-200 dark:hover:bg-gray-600">
+                    <PencilIcon className="w-4 h-4" />
+                  </button>
+                  <button onClick={() => onDelete(profile.id)} title="Delete" aria-label="Delete" className="ml-1 p-1 rounded hover:bg-gray-200 dark:hover:bg-gray-600">
+                    <TrashIcon className="w-4 h-4" />
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+        <div className="flex justify-between p-4 border-t border-gray-200 dark:border-gray-700">
+          {draft ? (
+            <>
+              <button onClick={() => setDraft(null)} className="px-4 py-2 text-sm font-medium text-gray-700 bg-gray-100 rounded-md hover:bg-gray-200 dark:bg-gray-700 dark:text-gray-200 dark:hover:bg-gray-600">Back</button>
+              <button
+                onClick={handleSave}
+                disabled={!draft.name.trim()}
+                className="px-4 py-2 text-sm font-medium text-white bg-indigo-600 rounded-md hover:bg-indigo-700 disabled:bg-indigo-400"
+              >
+                Save Profile
+              </button>
+            </>
+          ) : (
+            <>
+              <span />
+              <button onClick={() => setDraft(toDraft())} className="flex items-center px-4 py-2 text-sm font-medium text-white bg-indigo-600 rounded-md hover:bg-indigo-700">
+                <PlusIcon className="w-4 h-4 mr-1" /> New Profile
+              </button>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default StyleProfilesModal;
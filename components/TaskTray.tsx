@@ -0,0 +1,80 @@
+import React, { useState, useEffect } from 'react';
+import { AiTask } from '../types';
+import { LoadingSpinner, XIcon } from './icons';
+
+interface TaskTrayProps {
+  tasks: AiTask[];
+  onCancel: (id: string) => void;
+  onDismiss: (id: string) => void;
+  onClearFinished: () => void;
+}
+
+const formatElapsed = (ms: number) => {
+  const seconds = Math.floor(ms / 1000);
+  return seconds < 60 ? `${seconds}s` : `${Math.floor(seconds / 60)}m ${seconds % 60}s`;
+};
+
+const STATUS_STYLES: Record<AiTask['status'], string> = {
+  running: 'text-indigo-500',
+  done: 'text-green-600 dark:text-green-400',
+  error: 'text-red-500',
+  cancelled: 'text-gray-400',
+};
+
+const TaskTray: React.FC<TaskTrayProps> = ({ tasks, onCancel, onDismiss, onClearFinished }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [now, setNow] = useState(() => Date.now());
+  const runningCount = tasks.filter(task => task.status === 'running').length;
+
+  // Tick once a second so elapsed times stay current while anything is running.
+  useEffect(() => {
+    if (runningCount === 0) return;
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [runningCount]);
+
+  if (tasks.length === 0) return null;
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(prev => !prev)}
+        className="flex items-center space-x-2 px-2 rounded hover:bg-gray-100 dark:hover:bg-gray-700"
+        aria-label="AI Tasks"
+        title="AI Tasks"
+      >
+        {runningCount > 0 && <LoadingSpinner className="w-3 h-3" />}
+        <span>{runningCount > 0 ? `${runningCount} AI ${runningCount === 1 ? 'task' : 'tasks'} running` : 'AI tasks'}</span>
+      </button>
+      {isOpen && (
+        <div className="absolute bottom-full left-0 mb-2 w-80 bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-md shadow-lg z-20">
+          <div className="flex items-center justify-between px-3 py-2 border-b border-gray-200 dark:border-gray-700">
+            <span className="font-semibold uppercase tracking-wider">AI Tasks</span>
+            <button onClick={onClearFinished} className="hover:text-gray-700 dark:hover:text-gray-200">Clear finished</button>
+          </div>
+          <ul className="max-h-64 overflow-y-auto divide-y divide-gray-100 dark:divide-gray-700">
+            {tasks.map(task => (
+              <li key={task.id} className="flex items-center px-3 py-2 space-x-2">
+                <div className="flex-1 min-w-0">
+                  <div className="truncate text-gray-700 dark:text-gray-200">{task.label}</div>
+                  <div className={STATUS_STYLES[task.status]} title={task.error}>
+                    {task.status} · {formatElapsed((task.finishedAt ?? now) - task.startedAt)}
+                  </div>
+                </div>
+                {task.status === 'running' ? (
+                  <button onClick={() => onCancel(task.id)} className="px-2 rounded bg-gray-100 dark:bg-gray-700 hover:bg-gray-200 dark:hover:bg-gray-600">Cancel</button>
+                ) : (
+                  <button onClick={() => onDismiss(task.id)} className="p-1 rounded hover:bg-gray-100 dark:hover:bg-gray-700" aria-label="Dismiss">
+                    <XIcon className="w-3 h-3" />
+                  </button>
+                )}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TaskTray;
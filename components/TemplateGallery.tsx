@@ -0,0 +1,113 @@
+import React, { useMemo, useState } from 'react';
+import { DocumentTemplate } from '../types';
+import { defaultPlaceholderValue, fillTemplate, templatePlaceholders } from '../services/templates';
+import { XIcon, TrashIcon, SparklesIcon, DocumentIcon } from './icons';
+
+interface TemplateGalleryProps {
+  templates: DocumentTemplate[];
+  /** `brief` is set when the new document should be drafted by AI. */
+  onCreate: (title: string, content: string, brief?: string) => void;
+  onDelete: (id: string) => void;
+  onSaveCurrent: () => void;
+  onClose: () => void;
+}
+
+const inputClassName = "w-full px-3 py-2 text-sm rounded-md bg-gray-100 dark:bg-gray-700 focus:outline-none focus:ring-2 focus:ring-indigo-500";
+
+const initialValues = (template: DocumentTemplate | undefined) =>
+  Object.fromEntries(templatePlaceholders(template?.title ?? '', template?.content ?? '').map(name => [name, defaultPlaceholderValue(name)]));
+
+const TemplateGallery: React.FC<TemplateGalleryProps> = ({ templates, onCreate, onDelete, onSaveCurrent, onClose }) => {
+  const [selectedId, setSelectedId] = useState(templates[0]?.id);
+  const selected = templates.find(template => template.id === selectedId) ?? templates[0];
+  const [values, setValues] = useState<Record<string, string>>(() => initialValues(selected));
+  const [brief, setBrief] = useState('');
+  const placeholders = useMemo(() => templatePlaceholders(selected?.title ?? '', selected?.content ?? ''), [selected]);
+
+  const select = (template: DocumentTemplate) => {
+    setSelectedId(template.id);
+    setValues(initialValues(template));
+  };
+
+  const handleCreate = (withAi: boolean) => {
+    if (!selected) return;
+    const title = fillTemplate(selected.title, values).trim() || selected.name;
+    onCreate(title, fillTemplate(selected.content, values), withAi ? brief.trim() : undefined);
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4" onClick={onClose}>
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-xl w-full max-w-3xl max-h-[80vh] flex flex-col" onClick={e => e.stopPropagation()}>
+        <div className="flex items-center justify-between p-4 border-b border-gray-200 dark:border-gray-700">
+          <h2 className="text-lg font-semibold">New from Template</h2>
+          <button onClick={onClose} className="p-1 rounded-full hover:bg-gray-200 dark:hover:bg-gray-600">
+            <XIcon className="w-5 h-5" />
+          </button>
+        </div>
+        <div className="flex flex-1 min-h-0">
+          <ul className="w-60 shrink-0 overflow-y-auto p-2 border-r border-gray-200 dark:border-gray-700">
+            {templates.map(template => (
+              <li key={template.id} className="group flex items-center">
+                <button
+                  onClick={() => select(template)}
+                  className={`flex-1 min-w-0 flex items-center text-left px-2 py-2 rounded-md ${template.id === selected?.id ? 'bg-indigo-50 dark:bg-gray-700' : 'hover:bg-gray-100 dark:hover:bg-gray-700'}`}
+                >
+                  <DocumentIcon className="w-4 h-4 mr-2 shrink-0 text-gray-400" />
+                  <span className="text-sm truncate">{template.name}</span>
+                </button>
+                {!template.builtIn && (
+                  <button onClick={() => onDelete(template.id)} title="Delete template" aria-label="Delete template" className="ml-1 p-1 rounded opacity-0 group-hover:opacity-100 hover:bg-gray-200 dark:hover:bg-gray-600">
+                    <TrashIcon className="w-4 h-4" />
+                  </button>
+                )}
+              </li>
+            ))}
+          </ul>
+          {selected && (
+            <div className="flex-1 p-6 overflow-y-auto space-y-4">
+              <div>
+                <h3 className="text-base font-semibold">{selected.name}</h3>
+                {selected.description && <p className="text-sm text-gray-500 dark:text-gray-400">{selected.description}</p>}
+              </div>
+              {placeholders.length === 0 && <p className="text-sm text-gray-500 dark:text-gray-400">This template has no placeholders to fill in.</p>}
+              {placeholders.map(name => (
+                <label key={name} className="block space-y-1">
+                  <span className="text-sm font-medium">{name}</span>
+                  <input type="text" value={values[name] ?? ''} onChange={e => setValues(prev => ({ ...prev, [name]: e.target.value }))} className={inputClassName} />
+                </label>
+              ))}
+              <label className="block space-y-1 pt-2 border-t border-gray-200 dark:border-gray-700">
+                <span className="text-sm font-medium">Brief (optional)</span>
+                <textarea value={brief} onChange={e => setBrief(e.target.value)} rows={3} placeholder="e.g., Launch post for our offline mode, aimed at existing customers" className={`${inputClassName} resize-y`} />
+                <span className="block text-xs text-gray-500 dark:text-gray-400">With a brief, AI drafts the rest of the template. Placeholders left blank are filled in from it.</span>
+              </label>
+            </div>
+          )}
+        </div>
+        <div className="flex justify-between p-4 border-t border-gray-200 dark:border-gray-700">
+          <button onClick={onSaveCurrent} className="px-4 py-2 text-sm font-medium text-gray-700 bg-gray-100 rounded-md hover:bg-gray-200 dark:bg-gray-700 dark:text-gray-200 dark:hover:bg-gray-600">
+            Save Current as Template…
+          </button>
+          <div className="flex space-x-2">
+            <button
+              onClick={() => handleCreate(true)}
+              disabled={!selected || !brief.trim()}
+              className="flex items-center px-4 py-2 text-sm font-medium text-indigo-700 bg-indigo-50 rounded-md hover:bg-indigo-100 dark:bg-gray-700 dark:text-indigo-300 dark:hover:bg-gray-600 disabled:opacity-50"
+            >
+              <SparklesIcon className="w-4 h-4 mr-1" /> Fill with AI
+            </button>
+            <button
+              onClick={() => handleCreate(false)}
+              disabled={!selected}
+              className="px-4 py-2 text-sm font-medium text-white bg-indigo-600 rounded-md hover:bg-indigo-700 disabled:bg-indigo-400"
+            >
+              Create Document
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default TemplateGallery;
@@ -0,0 +1,97 @@
+import React, { useState, useEffect } from 'react';
+import { VideoJob } from '../types';
+import { isVideoJobActive } from '../services/videoJobs';
+import { LoadingSpinner, XIcon } from './icons';
+
+interface VideoJobsTrayProps {
+  jobs: VideoJob[];
+  onInsert: (job: VideoJob) => void;
+  onRetry: (id: string) => void;
+  onRemove: (id: string) => void;
+}
+
+const formatElapsed = (ms: number) => {
+  const seconds = Math.floor(ms / 1000);
+  return seconds < 60 ? `${seconds}s` : `${Math.floor(seconds / 60)}m ${seconds % 60}s`;
+};
+
+const STATUS_LABELS: Record<VideoJob['status'], string> = {
+  starting: 'starting',
+  running: 'processing',
+  ready: 'ready',
+  failed: 'failed',
+};
+
+const STATUS_STYLES: Record<VideoJob['status'], string> = {
+  starting: 'text-indigo-500',
+  running: 'text-indigo-500',
+  ready: 'text-green-600 dark:text-green-400',
+  failed: 'text-red-500',
+};
+
+const buttonClassName = 'px-2 rounded bg-gray-100 dark:bg-gray-700 hover:bg-gray-200 dark:hover:bg-gray-600';
+
+const VideoJobsTray: React.FC<VideoJobsTrayProps> = ({ jobs, onInsert, onRetry, onRemove }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [now, setNow] = useState(() => Date.now());
+  const activeCount = jobs.filter(isVideoJobActive).length;
+  const readyCount = jobs.filter(job => job.status === 'ready').length;
+
+  useEffect(() => {
+    if (activeCount === 0) return;
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [activeCount]);
+
+  if (jobs.length === 0) return null;
+
+  const summary = readyCount > 0
+    ? `${readyCount} ${readyCount === 1 ? 'video' : 'videos'} ready`
+    : activeCount > 0 ? `Generating ${activeCount} ${activeCount === 1 ? 'video' : 'videos'}` : 'Videos';
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(prev => !prev)}
+        className={`flex items-center space-x-2 px-2 rounded hover:bg-gray-100 dark:hover:bg-gray-700 ${readyCount > 0 ? 'text-green-600 dark:text-green-400 font-medium' : ''}`}
+        aria-label="Video Jobs"
+        title="Video Jobs"
+      >
+        {activeCount > 0 && <LoadingSpinner className="w-3 h-3" />}
+        <span>{summary}</span>
+      </button>
+      {isOpen && (
+        <div className="absolute bottom-full left-0 mb-2 w-80 bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-md shadow-lg z-20">
+          <div className="px-3 py-2 border-b border-gray-200 dark:border-gray-700 font-semibold uppercase tracking-wider">Video Jobs</div>
+          <ul className="max-h-64 overflow-y-auto divide-y divide-gray-100 dark:divide-gray-700">
+            {jobs.map(job => (
+              <li key={job.id} className="flex items-center px-3 py-2 space-x-2">
+                <img src={`data:image/png;base64,${job.imageBase64}`} alt="" className="w-8 h-8 object-cover rounded flex-shrink-0" />
+                <div className="flex-1 min-w-0">
+                  <div className="truncate text-gray-700 dark:text-gray-200" title={job.prompt}>{job.prompt}</div>
+                  <div className={`truncate ${STATUS_STYLES[job.status]}`} title={job.error}>
+                    {STATUS_LABELS[job.status]}
+                    {isVideoJobActive(job) && ` · ${formatElapsed(now - job.startedAt)}`}
+                    {job.error && ` · ${job.error}`}
+                  </div>
+                </div>
+                {job.status === 'ready' && <button onClick={() => onInsert(job)} className={buttonClassName}>Insert</button>}
+                {job.status === 'failed' && <button onClick={() => onRetry(job.id)} className={buttonClassName}>Retry</button>}
+                <button
+                  onClick={() => onRemove(job.id)}
+                  className="p-1 rounded hover:bg-gray-100 dark:hover:bg-gray-700"
+                  aria-label={isVideoJobActive(job) ? 'Stop tracking' : 'Dismiss'}
+                  title={isVideoJobActive(job) ? 'Stop tracking' : 'Dismiss'}
+                >
+                  <XIcon className="w-3 h-3" />
+                </button>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default VideoJobsTray;
@@ -0,0 +1,111 @@
+import { useState, useCallback, useRef } from 'react';
+import { AiTask, AiTaskAction } from '../types';
+import { createId } from '../services/storage';
+import { TextRange, mapRange } from '../services/textRanges';
+
+interface TaskMeta {
+  action: AiTaskAction;
+  label: string;
+  documentId?: string;
+  /** The part of the document the result will be applied to, kept in sync with later edits. */
+  range?: TextRange;
+  /** An outside signal (e.g. a modal closing) that should also cancel the task. */
+  signal?: AbortSignal;
+}
+
+interface Anchor {
+  documentId: string;
+  range: TextRange;
+}
+
+/**
+ * Tracks in-flight AI requests so several can run at once, each with its own
+ * AbortController. Tasks that target a document range get an anchor that is
+ * remapped on every edit, so results land where the author expects them.
+ */
+export const useAiTasks = () => {
+  const [tasks, setTasks] = useState<AiTask[]>([]);
+  const controllers = useRef(new Map<string, AbortController>());
+  const anchors = useRef(new Map<string, Anchor>());
+
+  const updateTask = useCallback((id: string, changes: Partial<AiTask>) => {
+    setTasks(prev => prev.map(task => (task.id === id ? { ...task, ...changes } : task)));
+  }, []);
+
+  /**
+   * Runs `work` as a tracked task. Resolves with its result, which for streams
+   * may be partial if the task was cancelled; resolves `undefined` when a
+   * cancelled request produced nothing. Other failures are rethrown.
+   */
+  const runTask = useCallback(async <T>(meta: TaskMeta, work: (signal: AbortSignal, taskId: string) => Promise<T>): Promise<T | undefined> => {
+    const id = createId();
+    const controller = new AbortController();
+    controllers.current.set(id, controller);
+    const abort = () => controller.abort();
+    meta.signal?.addEventListener('abort', abort, { once: true });
+    if (meta.documentId && meta.range) {
+      anchors.current.set(id, { documentId: meta.documentId, range: meta.range });
+    }
+    setTasks(prev => [...prev, { id, action: meta.action, label: meta.label, documentId: meta.documentId, status: 'running', startedAt: Date.now() }]);
+
+    try {
+      const result = await work(controller.signal, id);
+      updateTask(id, { status: controller.signal.aborted ? 'cancelled' : 'done', finishedAt: Date.now() });
+      return result;
+    } catch (error) {
+      if (controller.signal.aborted) {
+        updateTask(id, { status: 'cancelled', finishedAt: Date.now() });
+        return undefined;
+      }
+      updateTask(id, { status: 'error', error: error instanceof Error ? error.message : String(error), finishedAt: Date.now() });
+      throw error;
+    } finally {
+      meta.signal?.removeEventListener('abort', abort);
+      controllers.current.delete(id);
+    }
+  }, [updateTask]);
+
+  const cancelTask = useCallback((id: string) => {
+    controllers.current.get(id)?.abort();
+  }, []);
+
+  const dismissTask = useCallback((id: string) => {
+    setTasks(prev => prev.filter(task => task.id !== id));
+  }, []);
+
+  const clearFinished = useCallback(() => {
+    setTasks(prev => prev.filter(task => task.status === 'running'));
+  }, []);
+
+  const getAnchor = useCallback((id: string): TextRange | undefined => anchors.current.get(id)?.range, []);
+
+  const setAnchor = useCallback((id: string, documentId: string, range: TextRange) => {
+    anchors.current.set(id, { documentId, range });
+  }, []);
+
+  const releaseAnchor = useCallback((id: string) => {
+    anchors.current.delete(id);
+  }, []);
+
+  /** Shifts every anchor in `documentId` to account for an edit from `prev` to `next`. */
+  const remapAnchors = useCallback((documentId: string, prev: string, next: string) => {
+    anchors.current.forEach(anchor => {
+      if (anchor.documentId === documentId) anchor.range = mapRange(anchor.range, prev, next);
+    });
+  }, []);
+
+  return {
+    tasks,
+    runningActions: tasks.filter(task => task.status === 'running').map(task => task.action),
+    runTask,
+    cancelTask,
+    dismissTask,
+    clearFinished,
+    getAnchor,
+    setAnchor,
+    releaseAnchor,
+    remapAnchors,
+  };
+};
+
+export type RunAiTask = ReturnType<typeof useAiTasks>['runTask'];
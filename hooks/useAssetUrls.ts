@@ -0,0 +1,24 @@
+import { useState, useEffect } from 'react';
+import { findAssetIds, loadAssets } from '../services/assets';
+
+/**
+ * Loads the media assets a document references so `asset://` URLs resolve
+ * when it renders. Returns a counter that changes whenever new ones arrive.
+ */
+export const useAssetUrls = (markdown: string) => {
+  const [version, setVersion] = useState(0);
+  const key = findAssetIds(markdown).join(',');
+
+  useEffect(() => {
+    if (!key) return;
+    let cancelled = false;
+    loadAssets(key.split(','))
+      .then(loaded => {
+        if (loaded && !cancelled) setVersion(v => v + 1);
+      })
+      .catch(error => console.error('Failed to load media:', error));
+    return () => { cancelled = true; };
+  }, [key]);
+
+  return version;
+};
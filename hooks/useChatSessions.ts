@@ -0,0 +1,67 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { ChatSession } from '../types';
+import { ChatStore, chatStore, newChatSession } from '../services/chatStore';
+import { endChatSession } from '../services/geminiService';
+import { useStoredState } from './useStoredState';
+
+/**
+ * The saved chat sessions, most recently used first. Sessions are written to
+ * the store when they change, except while a reply is still streaming in.
+ */
+export const useChatSessions = (store: ChatStore = chatStore) => {
+  const [sessions, setSessions] = useState<ChatSession[]>([]);
+  const [activeId, setActiveId] = useStoredState<string | null>('active-chat', null);
+  const [isLoaded, setIsLoaded] = useState(false);
+  const sessionsRef = useRef<ChatSession[]>([]);
+  sessionsRef.current = sessions;
+
+  useEffect(() => {
+    let cancelled = false;
+    store.list()
+      .catch(error => {
+        console.error('Failed to load chats:', error);
+        return [] as ChatSession[];
+      })
+      .then(loaded => {
+        if (cancelled) return;
+        setSessions(loaded.sort((a, b) => b.updatedAt - a.updatedAt));
+        setIsLoaded(true);
+      });
+    return () => { cancelled = true; };
+  }, [store]);
+
+  const save = useCallback((session: ChatSession) => {
+    store.put(session).catch(error => console.error('Failed to save chat:', error));
+  }, [store]);
+
+  const activeSession = sessions.find(session => session.id === activeId) ?? sessions[0] ?? null;
+
+  const createSession = useCallback(() => {
+    const session = newChatSession();
+    sessionsRef.current = [session, ...sessionsRef.current];
+    setSessions(prev => [session, ...prev]);
+    setActiveId(session.id);
+    save(session);
+    return session;
+  }, [save, setActiveId]);
+
+  /** Applies `update` to a session in memory; pass `persist` once the change is final. */
+  const updateSession = useCallback((id: string, update: (session: ChatSession) => ChatSession, persist = true) => {
+    const current = sessionsRef.current.find(session => session.id === id);
+    if (!current) return;
+    const next = { ...update(current), updatedAt: Date.now() };
+    sessionsRef.current = sessionsRef.current.map(session => (session.id === id ? next : session));
+    setSessions(prev => [next, ...prev.filter(session => session.id !== id)]);
+    if (persist) save(next);
+  }, [save]);
+
+  const deleteSession = useCallback((id: string) => {
+    endChatSession(id);
+    setSessions(prev => prev.filter(session => session.id !== id));
+    store.remove(id).catch(error => console.error('Failed to delete chat:', error));
+  }, [store]);
+
+  return { sessions, isLoaded, activeSession, selectSession: setActiveId, createSession, updateSession, deleteSession };
+};
+
+export type ChatSessionsState = ReturnType<typeof useChatSessions>;
@@ -0,0 +1,173 @@
+import { useState, useEffect, useCallback, useRef, SetStateAction } from 'react';
+import { MarkdownDocument } from '../types';
+import { DocumentStore, documentStore, newDocument, uniqueTitle } from '../services/documentStore';
+import { INITIAL_MARKDOWN } from '../constants';
+
+const ACTIVE_DOCUMENT_KEY = 'sams-ai-writer:active-document';
+const AUTOSAVE_DELAY_MS = 500;
+
+const readActiveId = (): string | null => {
+  try {
+    return localStorage.getItem(ACTIVE_DOCUMENT_KEY);
+  } catch {
+    return null;
+  }
+};
+
+const writeActiveId = (id: string) => {
+  try {
+    localStorage.setItem(ACTIVE_DOCUMENT_KEY, id);
+  } catch {
+    // Storage can be unavailable (private mode, sandboxed iframes); the active document just won't be remembered.
+  }
+};
+
+/**
+ * Keeps the workspace's documents in memory and autosaves edits to the store.
+ * `markdown`/`setMarkdown` always refer to the active document.
+ */
+export const useDocuments = (store: DocumentStore = documentStore) => {
+  const [documents, setDocuments] = useState<MarkdownDocument[]>([]);
+  const [activeId, setActiveId] = useState<string | null>(null);
+  const [isLoaded, setIsLoaded] = useState(false);
+
+  const activeIdRef = useRef<string | null>(null);
+  const documentsRef = useRef<MarkdownDocument[]>([]);
+  const dirtyIds = useRef(new Set<string>());
+  const saveTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  documentsRef.current = documents;
+  activeIdRef.current = activeId;
+
+  useEffect(() => {
+    let cancelled = false;
+    (async () => {
+      let loaded: MarkdownDocument[] = [];
+      try {
+        loaded = await store.list();
+      } catch (error) {
+        console.error('Failed to load documents:', error);
+      }
+      if (loaded.length === 0) {
+        const welcome = newDocument('Welcome', INITIAL_MARKDOWN);
+        loaded = [welcome];
+        store.put(welcome).catch(error => console.error('Failed to save document:', error));
+      }
+      if (cancelled) return;
+      const storedId = readActiveId();
+      const initial = loaded.find(doc => doc.id === storedId)
+        ?? loaded.reduce((latest, doc) => (doc.updatedAt > latest.updatedAt ? doc : latest));
+      setDocuments(loaded);
+      setActiveId(initial.id);
+      setIsLoaded(true);
+    })();
+    return () => { cancelled = true; };
+  }, [store]);
+
+  useEffect(() => {
+    if (activeId) writeActiveId(activeId);
+  }, [activeId]);
+
+  const flush = useCallback(() => {
+    if (saveTimer.current) {
+      clearTimeout(saveTimer.current);
+      saveTimer.current = null;
+    }
+    const ids = Array.from(dirtyIds.current);
+    dirtyIds.current.clear();
+    ids.forEach(id => {
+      const doc = documentsRef.current.find(d => d.id === id);
+      if (doc) store.put(doc).catch(error => console.error('Failed to save document:', error));
+    });
+  }, [store]);
+
+  const scheduleSave = useCallback((id: string) => {
+    dirtyIds.current.add(id);
+    if (saveTimer.current) clearTimeout(saveTimer.current);
+    saveTimer.current = setTimeout(flush, AUTOSAVE_DELAY_MS);
+  }, [flush]);
+
+  useEffect(() => {
+    const handleHide = () => {
+      if (document.visibilityState === 'hidden') flush();
+    };
+    window.addEventListener('beforeunload', flush);
+    document.addEventListener('visibilitychange', handleHide);
+    return () => {
+      window.removeEventListener('beforeunload', flush);
+      document.removeEventListener('visibilitychange', handleHide);
+      flush();
+    };
+  }, [flush]);
+
+  const updateDocument = useCallback((id: string, update: (doc: MarkdownDocument) => MarkdownDocument) => {
+    setDocuments(prev => prev.map(doc => (doc.id === id ? update(doc) : doc)));
+    scheduleSave(id);
+  }, [scheduleSave]);
+
+  const setMarkdown = useCallback((value: SetStateAction<string>) => {
+    const id = activeIdRef.current;
+    if (!id) return;
+    updateDocument(id, doc => {
+      const content = typeof value === 'function' ? value(doc.content) : value;
+      return content === doc.content ? doc : { ...doc, content, updatedAt: Date.now() };
+    });
+  }, [updateDocument]);
+
+  const createDocument = useCallback((content = '', title = 'Untitled') => {
+    const doc = newDocument(uniqueTitle(title, documentsRef.current), content);
+    setDocuments(prev => [...prev, doc]);
+    setActiveId(doc.id);
+    store.put(doc).catch(error => console.error('Failed to save document:', error));
+    return doc;
+  }, [store]);
+
+  const renameDocument = useCallback((id: string, title: string) => {
+    const trimmed = title.trim();
+    if (!trimmed) return;
+    updateDocument(id, doc => ({ ...doc, title: trimmed, updatedAt: Date.now() }));
+  }, [updateDocument]);
+
+  const duplicateDocument = useCallback((id: string) => {
+    const source = documentsRef.current.find(doc => doc.id === id);
+    if (!source) return;
+    createDocument(source.content, `${source.title} copy`);
+  }, [createDocument]);
+
+  const deleteDocument = useCallback((id: string) => {
+    const remaining = documentsRef.current.filter(doc => doc.id !== id);
+    // Update the ref now, so a replacement document's title doesn't clash with the deleted one.
+    documentsRef.current = remaining;
+    dirtyIds.current.delete(id);
+    store.remove(id).catch(error => console.error('Failed to delete document:', error));
+    if (remaining.length === 0) {
+      setDocuments([]);
+      createDocument();
+      return;
+    }
+    setDocuments(remaining);
+    if (activeIdRef.current === id) {
+      setActiveId(remaining.reduce((latest, doc) => (doc.updatedAt > latest.updatedAt ? doc : latest)).id);
+    }
+  }, [store, createDocument]);
+
+  const selectDocument = useCallback((id: string) => {
+    flush();
+    setActiveId(id);
+  }, [flush]);
+
+  const activeDocument = documents.find(doc => doc.id === activeId) ?? null;
+
+  return {
+    documents,
+    activeDocument,
+    isLoaded,
+    markdown: activeDocument?.content ?? '',
+    setMarkdown,
+    createDocument,
+    renameDocument,
+    duplicateDocument,
+    deleteDocument,
+    selectDocument,
+  };
+};
@@ -0,0 +1,103 @@
+import { useState, useEffect, useMemo, useCallback, useRef } from 'react';
+import { Selection } from '../types';
+import { TextRange, mapRange } from '../services/textRanges';
+import { SearchOptions, findMatches, replaceMatches } from '../services/search';
+import { HistoryKind } from './useHistory';
+import { useStoredState } from './useStoredState';
+
+const DEFAULT_OPTIONS: SearchOptions = { caseSensitive: false, wholeWord: false, regex: false };
+
+/**
+ * State for the editor's find/replace panel. Replacements are committed
+ * like any other edit, so they can be undone and keep anchors in place.
+ * `reveal` is called when navigation (not editing) moves the active match.
+ */
+export const useFindReplace = (
+  documentId: string | null,
+  markdown: string,
+  commit: (update: string, kind: HistoryKind) => void,
+  reveal: (range: TextRange) => void,
+) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [showReplace, setShowReplace] = useState(false);
+  const [query, setQuery] = useState('');
+  const [replacement, setReplacement] = useState('');
+  const [options, setOptions] = useStoredState<SearchOptions>('find-options', DEFAULT_OPTIONS);
+  const [scope, setScope] = useState<TextRange | null>(null);
+  // The active match is the first one starting at or after this offset.
+  const [position, setPosition] = useState(0);
+  const [focusRequest, setFocusRequest] = useState(0);
+
+  // Keep the scope on the same text while the document is edited.
+  const lastMarkdown = useRef(markdown);
+  useEffect(() => {
+    const prev = lastMarkdown.current;
+    lastMarkdown.current = markdown;
+    setScope(current => current && mapRange(current, prev, markdown));
+  }, [markdown]);
+
+  useEffect(() => {
+    setScope(null);
+  }, [documentId]);
+
+  const { matches, error } = useMemo(() => findMatches(markdown, query, options, scope), [markdown, query, options, scope]);
+  const activeIndex = matches.length === 0 ? -1 : Math.max(0, matches.findIndex(match => match.start >= position));
+  const activeMatch = activeIndex === -1 ? null : matches[activeIndex];
+
+  // Deliberately not re-run for document edits: typing elsewhere must not move the caret.
+  const revealRef = useRef(reveal);
+  revealRef.current = reveal;
+  useEffect(() => {
+    if (isOpen && activeMatch) revealRef.current(activeMatch);
+  }, [isOpen, query, options, position]);
+
+  const open = useCallback((withReplace: boolean, selection: Selection | null, caret: number) => {
+    setIsOpen(true);
+    setShowReplace(withReplace);
+    if (selection?.text && !selection.text.includes('\n')) setQuery(selection.text);
+    setPosition(selection?.start ?? caret);
+    setFocusRequest(request => request + 1);
+  }, []);
+
+  const close = useCallback(() => {
+    setIsOpen(false);
+    setScope(null);
+  }, []);
+
+  const next = useCallback(() => {
+    if (activeIndex !== -1) setPosition(matches[(activeIndex + 1) % matches.length].start);
+  }, [matches, activeIndex]);
+
+  const previous = useCallback(() => {
+    if (activeIndex !== -1) setPosition(matches[(activeIndex - 1 + matches.length) % matches.length].start);
+  }, [matches, activeIndex]);
+
+  const replaceCurrent = useCallback(() => {
+    if (!activeMatch) return;
+    const updated = replaceMatches(markdown, [activeMatch], query, replacement, options);
+    commit(updated, 'replace');
+    // Continue after the inserted text so a replacement containing the query isn't matched again.
+    setPosition(activeMatch.end + updated.length - markdown.length);
+  }, [activeMatch, markdown, query, replacement, options, commit]);
+
+  const replaceAll = useCallback(() => {
+    if (matches.length === 0) return 0;
+    commit(replaceMatches(markdown, matches, query, replacement, options), 'replace');
+    return matches.length;
+  }, [matches, markdown, query, replacement, options, commit]);
+
+  /** Limits the search to `selection`, or searches the whole document again when null. */
+  const scopeTo = useCallback((selection: Selection | null) => {
+    setScope(selection ? { start: selection.start, end: selection.end } : null);
+    if (selection) setPosition(selection.start);
+  }, []);
+
+  return {
+    isOpen, open, close, showReplace, setShowReplace, focusRequest,
+    query, setQuery, replacement, setReplacement, options, setOptions,
+    scope, scopeTo, matches, error, activeIndex, activeMatch,
+    next, previous, replaceCurrent, replaceAll,
+  };
+};
+
+export type FindReplaceState = ReturnType<typeof useFindReplace>;
@@ -0,0 +1,112 @@
+import { useState, useCallback, useRef } from 'react';
+import { changedRange } from '../services/textRanges';
+
+/**
+ * What produced a history entry. Consecutive 'typing' changes within
+ * TYPING_COALESCE_MS are merged into a single undo step; every other kind
+ * always gets its own entry.
+ */
+export type HistoryKind = 'typing' | 'format' | 'ai' | 'insert' | 'replace';
+
+interface HistoryStack {
+  past: string[];
+  future: string[];
+  lastKind: HistoryKind | null;
+  lastGroup: string | null;
+  lastTime: number;
+}
+
+const MAX_ENTRIES = 200;
+const TYPING_COALESCE_MS = 1000;
+
+const emptyStack = (): HistoryStack => ({ past: [], future: [], lastKind: null, lastGroup: null, lastTime: 0 });
+
+/**
+ * App-level undo/redo for the active document. All edits should go through
+ * `commit` rather than setting the markdown directly so they can be reverted
+ * and so `onChange` observers (e.g. range anchors) see every change.
+ * Stacks are kept per document id and live for the session.
+ */
+export const useHistory = (
+  documentId: string | null,
+  markdown: string,
+  setMarkdown: (value: string) => void,
+  onChange?: (prev: string, next: string) => void,
+) => {
+  const stacks = useRef(new Map<string, HistoryStack>());
+  const markdownRef = useRef(markdown);
+  const [, setVersion] = useState(0);
+
+  markdownRef.current = markdown;
+
+  const getStack = useCallback((): HistoryStack | null => {
+    if (!documentId) return null;
+    let stack = stacks.current.get(documentId);
+    if (!stack) {
+      stack = emptyStack();
+      stacks.current.set(documentId, stack);
+    }
+    return stack;
+  }, [documentId]);
+
+  /**
+   * Applies a change as a new undo step. Changes sharing a `group` id are
+   * folded into one step as long as nothing else was committed in between,
+   * e.g. successive chunks of a streamed AI result. Returns the document text
+   * after the change.
+   */
+  const commit = useCallback((update: string | ((prev: string) => string), kind: HistoryKind, options?: { group?: string }): string => {
+    const stack = getStack();
+    const current = markdownRef.current;
+    const next = typeof update === 'function' ? update(current) : update;
+    if (!stack || next === current) return current;
+
+    const now = Date.now();
+    const group = options?.group ?? null;
+    const coalesce = stack.past.length > 0 && (
+      (group !== null && stack.lastGroup === group)
+      || (kind === 'typing' && stack.lastKind === 'typing' && now - stack.lastTime < TYPING_COALESCE_MS)
+    );
+    if (!coalesce) {
+      stack.past.push(current);
+      if (stack.past.length > MAX_ENTRIES) stack.past.shift();
+    }
+    stack.future = [];
+    stack.lastKind = kind;
+    stack.lastGroup = group;
+    stack.lastTime = now;
+    markdownRef.current = next;
+    setMarkdown(next);
+    onChange?.(current, next);
+    setVersion(v => v + 1);
+    return next;
+  }, [getStack, setMarkdown, onChange]);
+
+  const step = useCallback((from: 'past' | 'future') => {
+    const stack = getStack();
+    if (!stack || stack[from].length === 0) return null;
+    const current = markdownRef.current;
+    const restored = stack[from].pop()!;
+    (from === 'past' ? stack.future : stack.past).push(current);
+    stack.lastKind = null;
+    stack.lastGroup = null;
+    markdownRef.current = restored;
+    setMarkdown(restored);
+    onChange?.(current, restored);
+    setVersion(v => v + 1);
+    return changedRange(current, restored);
+  }, [getStack, setMarkdown, onChange]);
+
+  const undo = useCallback(() => step('past'), [step]);
+  const redo = useCallback(() => step('future'), [step]);
+
+  const stack = documentId ? stacks.current.get(documentId) : undefined;
+
+  return {
+    commit,
+    undo,
+    redo,
+    canUndo: !!stack && stack.past.length > 0,
+    canRedo: !!stack && stack.future.length > 0,
+  };
+};
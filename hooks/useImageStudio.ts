@@ -0,0 +1,58 @@
+import { useState, useCallback } from 'react';
+import { ImagePreset, ImageRequest } from '../types';
+import { MediaAsset } from '../services/assets';
+import { createId } from '../services/storage';
+import { useStoredState } from './useStoredState';
+
+/** One run of the image generator and what came out of it. */
+export interface ImageGeneration {
+  id: string;
+  request: ImageRequest;
+  /** data: URLs, as returned by the provider. */
+  images: string[];
+  /** Library copies of images already inserted, by index, so re-inserting doesn't duplicate them. */
+  assets: Record<number, MediaAsset>;
+  createdAt: number;
+}
+
+export const DEFAULT_IMAGE_PRESETS: ImagePreset[] = [
+  { id: 'photo', name: 'Photorealistic', style: 'photorealistic, natural lighting, 35mm photograph, high detail', negativePrompt: 'cartoon, illustration, text, watermark, blurry' },
+  { id: 'flat', name: 'Flat illustration', style: 'flat vector illustration, simple shapes, limited color palette, clean lines', negativePrompt: 'photograph, 3d render, gradients, text, watermark' },
+  { id: 'watercolor', name: 'Watercolor', style: 'soft watercolor painting on textured paper, gentle washes of color', negativePrompt: 'photograph, hard edges, text, watermark' },
+  { id: 'line-art', name: 'Line art', style: 'minimal black ink line drawing on a white background', negativePrompt: 'color, shading, photograph, text, watermark' },
+];
+
+/**
+ * Image generator state that outlives the modal: saved style presets (kept
+ * across reloads) and this session's generations, newest first.
+ */
+export const useImageStudio = () => {
+  const [presets, setPresets] = useStoredState<ImagePreset[]>('image-presets', DEFAULT_IMAGE_PRESETS);
+  const [generations, setGenerations] = useState<ImageGeneration[]>([]);
+
+  const savePreset = useCallback((preset: Omit<ImagePreset, 'id'>) => {
+    const saved = { ...preset, id: createId() };
+    setPresets(prev => [...prev, saved]);
+    return saved;
+  }, [setPresets]);
+
+  const deletePreset = useCallback((id: string) => {
+    setPresets(prev => prev.filter(preset => preset.id !== id));
+  }, [setPresets]);
+
+  const addGeneration = useCallback((request: ImageRequest, images: string[]) => {
+    const generation: ImageGeneration = { id: createId(), request, images, assets: {}, createdAt: Date.now() };
+    setGenerations(prev => [generation, ...prev]);
+    return generation;
+  }, []);
+
+  const recordAsset = useCallback((generationId: string, index: number, asset: MediaAsset) => {
+    setGenerations(prev => prev.map(generation => (generation.id === generationId
+      ? { ...generation, assets: { ...generation.assets, [index]: asset } }
+      : generation)));
+  }, []);
+
+  return { presets, savePreset, deletePreset, generations, addGeneration, recordAsset };
+};
+
+export type ImageStudioState = ReturnType<typeof useImageStudio>;
@@ -0,0 +1,34 @@
+import { useMemo, useCallback, useDeferredValue } from 'react';
+import { DEFAULT_LINT_OPTIONS, LintOptions, LintRuleId, lintMarkdown } from '../services/lint';
+import { useStoredState } from './useStoredState';
+
+/**
+ * Lints the document as it changes. Checks run on a deferred copy of the
+ * text, so typing never waits for them.
+ */
+export const useLint = (markdown: string) => {
+  const [isEnabled, setIsEnabled] = useStoredState('lint-enabled', true);
+  const [storedOptions, setOptions] = useStoredState<LintOptions>('lint-options', DEFAULT_LINT_OPTIONS);
+  const options = useMemo(() => ({ ...DEFAULT_LINT_OPTIONS, ...storedOptions }), [storedOptions]);
+  const deferredMarkdown = useDeferredValue(markdown);
+
+  const diagnostics = useMemo(
+    () => (isEnabled ? lintMarkdown(deferredMarkdown, options) : []),
+    [isEnabled, deferredMarkdown, options]
+  );
+
+  const toggleRule = useCallback((rule: LintRuleId) => {
+    setOptions(prev => {
+      const disabled = prev.disabledRules ?? [];
+      return { ...prev, disabledRules: disabled.includes(rule) ? disabled.filter(id => id !== rule) : [...disabled, rule] };
+    });
+  }, [setOptions]);
+
+  const setMaxSentenceWords = useCallback((maxSentenceWords: number) => {
+    setOptions(prev => ({ ...prev, maxSentenceWords }));
+  }, [setOptions]);
+
+  return { diagnostics, isEnabled, setIsEnabled, options, toggleRule, setMaxSentenceWords };
+};
+
+export type LintState = ReturnType<typeof useLint>;
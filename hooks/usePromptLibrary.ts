@@ -0,0 +1,32 @@
+import { useState, useEffect, useCallback } from 'react';
+import { CustomAction } from '../types';
+import { loadCustomActions, saveCustomActions, parseCustomActions, mergeCustomActions, exportCustomActions } from '../services/promptLibrary';
+
+export const usePromptLibrary = () => {
+  const [customActions, setCustomActions] = useState<CustomAction[]>(loadCustomActions);
+
+  useEffect(() => {
+    saveCustomActions(customActions);
+  }, [customActions]);
+
+  const saveCustomAction = useCallback((action: CustomAction) => {
+    setCustomActions(prev => prev.some(existing => existing.id === action.id)
+      ? prev.map(existing => (existing.id === action.id ? action : existing))
+      : [...prev, action]);
+  }, []);
+
+  const deleteCustomAction = useCallback((id: string) => {
+    setCustomActions(prev => prev.filter(action => action.id !== id));
+  }, []);
+
+  /** Merges actions from an exported JSON file. Returns how many were imported; throws on invalid input. */
+  const importCustomActions = useCallback((json: string) => {
+    const imported = parseCustomActions(json);
+    setCustomActions(prev => mergeCustomActions(prev, imported));
+    return imported.length;
+  }, []);
+
+  const exportJson = useCallback(() => exportCustomActions(customActions), [customActions]);
+
+  return { customActions, saveCustomAction, deleteCustomAction, importCustomActions, exportJson };
+};
@@ -0,0 +1,103 @@
+import { useEffect, useCallback, RefObject } from 'react';
+import { measureTextareaLines } from '../services/sourceLines';
+
+type Pane = 'editor' | 'preview';
+
+/** Matching scroll offsets in both panes, sorted by editor offset. */
+interface SyncPoint {
+  editor: number;
+  preview: number;
+}
+
+const interpolate = (points: SyncPoint[], from: Pane, to: Pane, value: number) => {
+  let index = points.findIndex(point => point[from] > value);
+  if (index === -1) return points[points.length - 1][to];
+  if (index === 0) return points[0][to];
+  const a = points[index - 1];
+  const b = points[index];
+  const span = b[from] - a[from];
+  return span <= 0 ? a[to] : a[to] + ((value - a[from]) / span) * (b[to] - a[to]);
+};
+
+/**
+ * Keeps the editor and preview aligned while either one scrolls, using the
+ * source line each rendered block carries in `data-source-line`.
+ */
+export const useScrollSync = (
+  editorRef: RefObject<HTMLTextAreaElement | null>,
+  previewRef: RefObject<HTMLDivElement | null>,
+  enabled: boolean,
+) => {
+  const buildPoints = useCallback((): SyncPoint[] | null => {
+    const editor = editorRef.current;
+    const preview = previewRef.current;
+    if (!editor || !preview) return null;
+    const lineTops = measureTextareaLines(editor);
+    const previewTop = preview.getBoundingClientRect().top - preview.scrollTop;
+    const points: SyncPoint[] = [{ editor: 0, preview: 0 }];
+    preview.querySelectorAll<HTMLElement>('[data-source-line]').forEach(element => {
+      const line = Number(element.dataset.sourceLine);
+      const editorTop = lineTops[line - 1];
+      const top = element.getBoundingClientRect().top - previewTop;
+      const last = points[points.length - 1];
+      // Nested blocks can share a line or lay out out of order; keep the mapping monotonic.
+      if (editorTop === undefined || editorTop <= last.editor || top <= last.preview) return;
+      points.push({ editor: editorTop, preview: top });
+    });
+    points.push({
+      editor: Math.max(editor.scrollHeight - editor.clientHeight, points[points.length - 1].editor + 1),
+      preview: Math.max(preview.scrollHeight - preview.clientHeight, points[points.length - 1].preview + 1),
+    });
+    return points;
+  }, [editorRef, previewRef]);
+
+  useEffect(() => {
+    const editor = editorRef.current;
+    const preview = previewRef.current;
+    if (!enabled || !editor || !preview) return;
+
+    // Programmatic scrolls fire scroll events too; ignore the echo from the pane we just moved.
+    let ignore: Pane | null = null;
+    let frame = 0;
+
+    const sync = (from: Pane) => {
+      if (ignore === from) {
+        ignore = null;
+        return;
+      }
+      cancelAnimationFrame(frame);
+      frame = requestAnimationFrame(() => {
+        const points = buildPoints();
+        if (!points) return;
+        const to: Pane = from === 'editor' ? 'preview' : 'editor';
+        const source = from === 'editor' ? editor : preview;
+        const target = from === 'editor' ? preview : editor;
+        const max = target.scrollHeight - target.clientHeight;
+        const next = Math.min(max, Math.max(0, Math.round(interpolate(points, from, to, source.scrollTop))));
+        if (Math.abs(target.scrollTop - next) < 1) return;
+        ignore = to;
+        target.scrollTop = next;
+      });
+    };
+
+    const onEditorScroll = () => sync('editor');
+    const onPreviewScroll = () => sync('preview');
+    editor.addEventListener('scroll', onEditorScroll, { passive: true });
+    preview.addEventListener('scroll', onPreviewScroll, { passive: true });
+    return () => {
+      cancelAnimationFrame(frame);
+      editor.removeEventListener('scroll', onEditorScroll);
+      preview.removeEventListener('scroll', onPreviewScroll);
+    };
+  }, [enabled, editorRef, previewRef, buildPoints]);
+
+  /** Scrolls the editor so the given 1-based source line sits near the top. */
+  const revealEditorLine = useCallback((line: number) => {
+    const editor = editorRef.current;
+    if (!editor) return;
+    const top = measureTextareaLines(editor)[line - 1];
+    if (top !== undefined) editor.scrollTop = Math.max(0, top - editor.clientHeight / 3);
+  }, [editorRef]);
+
+  return { revealEditorLine };
+};
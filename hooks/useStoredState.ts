@@ -0,0 +1,25 @@
+import { useState, useEffect } from 'react';
+
+const PREFIX = 'sams-ai-writer:';
+
+/** useState for small UI preferences that should survive a reload. */
+export const useStoredState = <T>(key: string, initialValue: T) => {
+  const [value, setValue] = useState<T>(() => {
+    try {
+      const stored = localStorage.getItem(PREFIX + key);
+      return stored === null ? initialValue : (JSON.parse(stored) as T);
+    } catch {
+      return initialValue;
+    }
+  });
+
+  useEffect(() => {
+    try {
+      localStorage.setItem(PREFIX + key, JSON.stringify(value));
+    } catch {
+      // Storage can be unavailable; the preference just won't persist.
+    }
+  }, [key, value]);
+
+  return [value, setValue] as const;
+};
@@ -0,0 +1,30 @@
+import { useState, useEffect, useCallback } from 'react';
+import { StyleProfile } from '../types';
+import { DEFAULT_STYLE_PROFILE_ID, loadStyleProfiles, saveStyleProfiles } from '../services/styleProfiles';
+import { useStoredState } from './useStoredState';
+
+export const useStyleProfiles = () => {
+  const [profiles, setProfiles] = useState<StyleProfile[]>(loadStyleProfiles);
+  const [selectedId, setSelectedId] = useStoredState('style-profile', DEFAULT_STYLE_PROFILE_ID);
+
+  useEffect(() => {
+    saveStyleProfiles(profiles);
+  }, [profiles]);
+
+  const saveProfile = useCallback((profile: StyleProfile) => {
+    setProfiles(prev => prev.some(existing => existing.id === profile.id)
+      ? prev.map(existing => (existing.id === profile.id ? profile : existing))
+      : [...prev, profile]);
+  }, []);
+
+  const deleteProfile = useCallback((id: string) => {
+    setProfiles(prev => prev.filter(profile => profile.id !== id));
+  }, []);
+
+  // Falls back to the first profile when the selected one was deleted.
+  const selectedProfile = profiles.find(profile => profile.id === selectedId) ?? profiles[0] ?? null;
+
+  return { profiles, selectedProfile, setSelectedId, saveProfile, deleteProfile };
+};
+
+export type StyleProfilesState = ReturnType<typeof useStyleProfiles>;
@@ -0,0 +1,37 @@
+import { useState, useEffect, useCallback } from 'react';
+import { DocumentTemplate } from '../types';
+import { BUILT_IN_TEMPLATES, TemplateStore, templateStore } from '../services/templates';
+
+/** The built-in document templates followed by the user's saved ones, oldest first. */
+export const useTemplates = (store: TemplateStore = templateStore) => {
+  const [savedTemplates, setSavedTemplates] = useState<DocumentTemplate[]>([]);
+
+  useEffect(() => {
+    let cancelled = false;
+    store.list()
+      .catch(error => {
+        console.error('Failed to load templates:', error);
+        return [] as DocumentTemplate[];
+      })
+      .then(loaded => {
+        if (!cancelled) setSavedTemplates(loaded.sort((a, b) => a.createdAt - b.createdAt));
+      });
+    return () => { cancelled = true; };
+  }, [store]);
+
+  const saveTemplate = useCallback((template: DocumentTemplate) => {
+    setSavedTemplates(prev => prev.some(existing => existing.id === template.id)
+      ? prev.map(existing => (existing.id === template.id ? template : existing))
+      : [...prev, template]);
+    store.put(template).catch(error => console.error('Failed to save template:', error));
+  }, [store]);
+
+  const deleteTemplate = useCallback((id: string) => {
+    setSavedTemplates(prev => prev.filter(template => template.id !== id));
+    store.remove(id).catch(error => console.error('Failed to delete template:', error));
+  }, [store]);
+
+  const templates = [...BUILT_IN_TEMPLATES, ...savedTemplates];
+
+  return { templates, saveTemplate, deleteTemplate };
+};
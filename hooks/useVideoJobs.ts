@@ -0,0 +1,153 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { VideoJob } from '../types';
+import { pollVideo, startVideo } from '../services/geminiService';
+import { assetName, assetStore, saveAsset } from '../services/assets';
+import {
+  VIDEO_POLL_INTERVAL_MS,
+  VideoJobStore,
+  VideoRequest,
+  newVideoJob,
+  restartVideoJob,
+  videoJobProblem,
+  videoJobStore,
+} from '../services/videoJobs';
+
+const errorMessage = (error: unknown, fallback: string) => (error instanceof Error ? error.message : fallback);
+
+// Asked when the first job starts, so the prompt appears in response to a click.
+const requestNotificationPermission = () => {
+  if (typeof Notification !== 'undefined' && Notification.permission === 'default') {
+    Notification.requestPermission().catch(() => undefined);
+  }
+};
+
+const notifyVideoReady = (job: VideoJob) => {
+  if (typeof Notification === 'undefined' || Notification.permission !== 'granted') return;
+  const notification = new Notification('Your video is ready', { body: job.prompt, tag: job.id });
+  notification.onclick = () => window.focus();
+};
+
+/**
+ * Background video generations. Jobs are persisted with the provider's
+ * operation handle, so one still running when the page is reloaded is picked
+ * up again and polled until it finishes, fails or times out.
+ */
+export const useVideoJobs = (store: VideoJobStore = videoJobStore) => {
+  const [jobs, setJobs] = useState<VideoJob[]>([]);
+  const jobsRef = useRef<VideoJob[]>([]);
+  jobsRef.current = jobs;
+  // One controller per job being checked, so jobs starting or finishing don't cut off each other's checks.
+  const controllers = useRef(new Map<string, AbortController>());
+
+  const save = useCallback((job: VideoJob) => {
+    jobsRef.current = jobsRef.current.some(existing => existing.id === job.id)
+      ? jobsRef.current.map(existing => (existing.id === job.id ? job : existing))
+      : [job, ...jobsRef.current];
+    setJobs(jobsRef.current);
+    store.put(job).catch(error => console.error('Failed to save video job:', error));
+  }, [store]);
+
+  const updateJob = useCallback((id: string, changes: Partial<VideoJob>) => {
+    const current = jobsRef.current.find(job => job.id === id);
+    if (current) save({ ...current, ...changes, updatedAt: Date.now() });
+  }, [save]);
+
+  useEffect(() => {
+    let cancelled = false;
+    store.list()
+      .catch(error => {
+        console.error('Failed to load video jobs:', error);
+        return [] as VideoJob[];
+      })
+      .then(loaded => {
+        if (cancelled) return;
+        // Keep any job started while the list was loading.
+        const started = jobsRef.current.filter(job => !loaded.some(stored => stored.id === job.id));
+        jobsRef.current = [...started, ...loaded].sort((a, b) => b.startedAt - a.startedAt);
+        setJobs(jobsRef.current);
+        // A job still "starting" was cut off before the service returned a handle; there is nothing to resume.
+        loaded
+          .filter(job => job.status === 'starting')
+          .forEach(job => updateJob(job.id, { status: 'failed', error: 'The page was closed before the video service accepted this request.' }));
+      });
+    return () => { cancelled = true; };
+  }, [store, updateJob]);
+
+  const launch = useCallback(async (job: VideoJob) => {
+    save(job);
+    try {
+      const operation = await startVideo(job.prompt, job.imageBase64, job.aspectRatio);
+      updateJob(job.id, { status: 'running', operation });
+    } catch (error) {
+      updateJob(job.id, { status: 'failed', error: errorMessage(error, 'Failed to start video generation.') });
+    }
+  }, [save, updateJob]);
+
+  const startJob = useCallback((request: VideoRequest) => {
+    requestNotificationPermission();
+    launch(newVideoJob(request));
+  }, [launch]);
+
+  const retryJob = useCallback((id: string) => {
+    const job = jobsRef.current.find(candidate => candidate.id === id);
+    if (job) launch(restartVideoJob(job));
+  }, [launch]);
+
+  const removeJob = useCallback((id: string) => {
+    controllers.current.get(id)?.abort();
+    jobsRef.current = jobsRef.current.filter(job => job.id !== id);
+    setJobs(jobsRef.current);
+    store.remove(id).catch(error => console.error('Failed to delete video job:', error));
+  }, [store]);
+
+  const checkJob = useCallback(async (job: VideoJob) => {
+    const problem = videoJobProblem(job);
+    if (problem) {
+      updateJob(job.id, { status: 'failed', error: problem });
+      return;
+    }
+    const controller = new AbortController();
+    const { signal } = controller;
+    controllers.current.set(job.id, controller);
+    try {
+      const video = await pollVideo(job.operation!, signal);
+      if (!video || signal.aborted) return;
+      const asset = await saveAsset(video, assetName(job.prompt), 'generated');
+      // The job was removed (or the app closed) while the video was being saved.
+      if (signal.aborted) {
+        assetStore.remove(asset.id).catch(error => console.error('Failed to delete video asset:', error));
+        return;
+      }
+      updateJob(job.id, { status: 'ready', assetId: asset.id });
+      notifyVideoReady(job);
+    } catch (error) {
+      if (!signal.aborted) updateJob(job.id, { status: 'failed', error: errorMessage(error, 'Video generation failed.') });
+    } finally {
+      controllers.current.delete(job.id);
+    }
+  }, [updateJob]);
+
+  const runningCount = jobs.filter(job => job.status === 'running').length;
+
+  // Poll every running job on an interval, skipping any whose previous check hasn't returned yet.
+  // Checks in flight carry on when the set of running jobs changes; only the interval restarts.
+  useEffect(() => {
+    if (runningCount === 0) return;
+    const pollAll = () => {
+      jobsRef.current
+        .filter(job => job.status === 'running' && !controllers.current.has(job.id))
+        .forEach(job => checkJob(job));
+    };
+    pollAll();
+    const interval = setInterval(pollAll, VIDEO_POLL_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [runningCount, checkJob]);
+
+  useEffect(() => () => {
+    controllers.current.forEach(controller => controller.abort());
+  }, []);
+
+  return { jobs, startJob, retryJob, removeJob };
+};
+
+export type VideoJobsState = ReturnType<typeof useVideoJobs>;
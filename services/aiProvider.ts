@@ -0,0 +1,139 @@
+import { AiProviderId, AiSettings, VideoAspectRatio } from '../types';
+import { createGeminiProvider } from './providers/geminiProvider';
+import { createOpenAiProvider } from './providers/openAiProvider';
+import { createMockProvider } from './providers/mockProvider';
+
+export interface GroundingSource {
+    uri: string;
+    title?: string;
+}
+
+/** A span of the answer, in string offsets, backed by some of the sources. */
+export interface GroundingSupport {
+    startIndex: number;
+    endIndex: number;
+    /** Indices into `GroundedSearchResult.sources`. */
+    sourceIndices: number[];
+}
+
+export interface GroundedSearchResult {
+    text: string;
+    sources: GroundingSource[];
+    supports: GroundingSupport[];
+}
+
+export interface AiRequestOptions {
+    signal?: AbortSignal;
+}
+
+/** A previous exchange replayed into a new chat session. */
+export interface ChatTurn {
+    role: 'user' | 'model';
+    text: string;
+}
+
+export interface ImageRequestOptions extends AiRequestOptions {
+    /** How many images to generate, 1-4. */
+    count?: number;
+    /** What the image should not contain. */
+    negativePrompt?: string;
+}
+
+export interface AiChatSession {
+    /** Yields the reply in chunks as they arrive. */
+    sendMessageStream: (message: string, options?: AiRequestOptions) => AsyncIterable<string>;
+}
+
+/**
+ * A backend that can serve the app's AI features. Providers that can't support
+ * a capability (e.g. video on a local model server) throw a descriptive Error.
+ */
+export interface AiProvider {
+    readonly id: AiProviderId;
+    generateText: (prompt: string, options?: AiRequestOptions) => Promise<string>;
+    /** Yields the generated text in chunks as they arrive. */
+    streamText: (prompt: string, options?: AiRequestOptions) => AsyncIterable<string>;
+    /** Starts a conversation, optionally continuing from earlier turns. */
+    createChat: (history?: ChatTurn[]) => AiChatSession;
+    /** Resolves with one data: URL per generated image. */
+    generateImage: (prompt: string, aspectRatio: string, options?: ImageRequestOptions) => Promise<string[]>;
+    /** Starts a video generation and resolves with a handle that can be stored and polled later. */
+    startVideo: (prompt: string, imageBase64: string, aspectRatio: VideoAspectRatio, options?: AiRequestOptions) => Promise<string>;
+    /** Checks a started video once: null while it is still processing, the video when done. Throws if it failed. */
+    pollVideo: (operation: string, options?: AiRequestOptions) => Promise<Blob | null>;
+    groundedSearch: (prompt: string, options?: AiRequestOptions) => Promise<GroundedSearchResult>;
+}
+
+export const PROVIDER_LABELS: Record<AiProviderId, string> = {
+    gemini: 'Google Gemini',
+    openai: 'OpenAI-compatible (OpenAI, Ollama, LM Studio...)',
+    mock: 'Mock (offline, deterministic)',
+};
+
+export const DEFAULT_MODELS: Record<AiProviderId, string> = {
+    gemini: 'gemini-2.5-flash',
+    openai: 'gpt-4o-mini',
+    mock: 'mock-1',
+};
+
+export const DEFAULT_IMAGE_MODEL = 'dall-e-3';
+
+export const DEFAULT_AI_SETTINGS: AiSettings = {
+    providerId: 'gemini',
+    model: DEFAULT_MODELS.gemini,
+    baseUrl: 'http://localhost:11434/v1',
+    apiKey: '',
+    imageModel: DEFAULT_IMAGE_MODEL,
+};
+
+const SETTINGS_KEY = 'sams-ai-writer:ai-settings';
+
+export const loadAiSettings = (): AiSettings => {
+    try {
+        const stored = localStorage.getItem(SETTINGS_KEY);
+        return stored ? { ...DEFAULT_AI_SETTINGS, ...JSON.parse(stored) } : DEFAULT_AI_SETTINGS;
+    } catch {
+        return DEFAULT_AI_SETTINGS;
+    }
+};
+
+let activeSettings: AiSettings = loadAiSettings();
+let activeProvider: AiProvider | null = null;
+const listeners = new Set<() => void>();
+
+export const getAiSettings = (): AiSettings => activeSettings;
+
+export const saveAiSettings = (settings: AiSettings) => {
+    activeSettings = settings;
+    activeProvider = null;
+    try {
+        localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+    } catch (error) {
+        console.warn('Could not persist AI settings:', error);
+    }
+    listeners.forEach(listener => listener());
+};
+
+/** Registers a callback for settings changes; returns an unsubscribe function. */
+export const onAiSettingsChange = (listener: () => void) => {
+    listeners.add(listener);
+    return () => { listeners.delete(listener); };
+};
+
+export const createProvider = (settings: AiSettings): AiProvider => {
+    const model = settings.model.trim() || DEFAULT_MODELS[settings.providerId];
+    switch (settings.providerId) {
+        case 'openai':
+            return createOpenAiProvider({ baseUrl: settings.baseUrl, apiKey: settings.apiKey, model, imageModel: settings.imageModel.trim() || DEFAULT_IMAGE_MODEL });
+        case 'mock':
+            return createMockProvider({ model });
+        case 'gemini':
+        default:
+            return createGeminiProvider({ apiKey: process.env.API_KEY, model });
+    }
+};
+
+export const getProvider = (): AiProvider => {
+    if (!activeProvider) activeProvider = createProvider(activeSettings);
+    return activeProvider;
+};
@@ -0,0 +1,119 @@
+import { Collection, createCollection, createId } from './storage';
+
+export type AssetSource = 'generated' | 'upload';
+
+/** An image or video kept in the browser, referenced from markdown as `asset://<id>`. */
+export interface MediaAsset {
+    id: string;
+    name: string;
+    mimeType: string;
+    size: number;
+    source: AssetSource;
+    createdAt: number;
+    blob: Blob;
+}
+
+export type AssetStore = Collection<MediaAsset>;
+
+export const assetStore: AssetStore = createCollection<MediaAsset>('assets');
+
+export const ASSET_SCHEME = 'asset://';
+const ASSET_REFERENCE = /asset:\/\/([\w-]+)/g;
+
+export const assetUrl = (id: string) => `${ASSET_SCHEME}${id}`;
+
+export const isMediaFile = (file: File) => /^(image|video)\//.test(file.type);
+
+/** Ids of every asset a document references, in order of first use. */
+export const findAssetIds = (markdown: string): string[] =>
+    [...new Set(Array.from(markdown.matchAll(ASSET_REFERENCE), match => match[1]))];
+
+/** The markdown that shows an asset: an image, or the `<video>` tag the preview renders. */
+export const assetMarkdown = (asset: MediaAsset, alt = asset.name): string =>
+    asset.mimeType.startsWith('video/')
+        ? `<video src="${assetUrl(asset.id)}" controls></video>`
+        : `![${alt.replace(/[[\]]/g, '')}](${assetUrl(asset.id)})`;
+
+/** Generated media is saved under a name taken from its prompt. */
+export const assetName = (prompt: string): string => {
+    const line = prompt.trim().split('\n')[0];
+    return line.length > 60 ? `${line.slice(0, 60).trimEnd()}…` : line;
+};
+
+/** Reads a data: or blob: URL (what the generators return) into a Blob. */
+export const urlToBlob = async (url: string): Promise<Blob> => (await fetch(url)).blob();
+
+export const saveAsset = async (blob: Blob, name: string, source: AssetSource, store: AssetStore = assetStore): Promise<MediaAsset> => {
+    const asset: MediaAsset = {
+        id: createId(),
+        name,
+        mimeType: blob.type || 'application/octet-stream',
+        size: blob.size,
+        source,
+        createdAt: Date.now(),
+        blob,
+    };
+    await store.put(asset);
+    return asset;
+};
+
+// Object URLs for assets already read from the store, so rendering can resolve `asset://` synchronously.
+const objectUrls = new Map<string, string>();
+
+export const objectUrlFor = (asset: MediaAsset): string => {
+    let url = objectUrls.get(asset.id);
+    if (!url) {
+        url = URL.createObjectURL(asset.blob);
+        objectUrls.set(asset.id, url);
+    }
+    return url;
+};
+
+export const releaseObjectUrl = (id: string) => {
+    const url = objectUrls.get(id);
+    if (url) URL.revokeObjectURL(url);
+    objectUrls.delete(id);
+};
+
+/** Maps an `asset://` URL to a loaded object URL; undefined until `loadAssets` has read it. */
+export const resolveAssetUrl = (url: string): string | undefined =>
+    objectUrls.get(url.substring(ASSET_SCHEME.length));
+
+/**
+ * Reads any of `ids` not yet resolvable from the store. Returns true when
+ * something new became available. Missing assets are skipped.
+ */
+export const loadAssets = async (ids: string[], store: AssetStore = assetStore): Promise<boolean> => {
+    let loaded = false;
+    for (const id of ids) {
+        if (objectUrls.has(id)) continue;
+        const asset = await store.get(id);
+        if (asset) {
+            objectUrlFor(asset);
+            loaded = true;
+        }
+    }
+    return loaded;
+};
+
+export const blobToDataUrl = (blob: Blob): Promise<string> =>
+    new Promise((resolve, reject) => {
+        const reader = new FileReader();
+        reader.onload = () => resolve(reader.result as string);
+        reader.onerror = () => reject(reader.error);
+        reader.readAsDataURL(blob);
+    });
+
+/** Replaces `asset://` references with data URLs so a document works outside the app. */
+export const embedAssets = async (markdown: string, store: AssetStore = assetStore): Promise<string> => {
+    let result = markdown;
+    for (const id of findAssetIds(markdown)) {
+        const asset = await store.get(id);
+        if (!asset) {
+            console.warn(`Asset ${id} is missing and was not embedded.`);
+            continue;
+        }
+        result = result.split(assetUrl(id)).join(await blobToDataUrl(asset.blob));
+    }
+    return result;
+};
@@ -0,0 +1,46 @@
+import { ChatMessage, ChatSession } from '../types';
+import { ChatTurn } from './aiProvider';
+import { Collection, createCollection, createId } from './storage';
+
+export type ChatStore = Collection<ChatSession>;
+
+export const chatStore: ChatStore = createCollection<ChatSession>('chats');
+
+export const DEFAULT_CHAT_TITLE = 'New chat';
+const TITLE_LENGTH = 40;
+
+export const newChatSession = (): ChatSession => {
+    const now = Date.now();
+    return { id: createId(), title: DEFAULT_CHAT_TITLE, messages: [], createdAt: now, updatedAt: now };
+};
+
+/** Names a session after its first message, e.g. "How do I make this intro…". */
+export const titleFromMessage = (text: string): string => {
+    const line = text.trim().split('\n')[0];
+    return line.length > TITLE_LENGTH ? `${line.slice(0, TITLE_LENGTH).trimEnd()}…` : line || DEFAULT_CHAT_TITLE;
+};
+
+/** The text actually sent to the model for a message, including any attached context. */
+export const formatChatMessage = (message: ChatMessage): string => {
+    const { context } = message;
+    if (!context) return message.text;
+    const source = context.kind === 'document'
+        ? `my document "${context.title}"`
+        : `an excerpt from my document "${context.title}"`;
+    return `${message.text}\n\nFor context, here is ${source}:\n\n---\n${context.text}\n---`;
+};
+
+/** Replays stored messages as provider history. Failed or empty replies are skipped. */
+export const toChatHistory = (messages: ChatMessage[]): ChatTurn[] => {
+    const turns: ChatTurn[] = [];
+    messages.forEach((message, index) => {
+        if (message.sender === 'bot') {
+            if (message.text && !message.isError) turns.push({ role: 'model', text: message.text });
+            return;
+        }
+        // Providers expect alternating turns; drop a question whose answer never arrived.
+        const reply = messages[index + 1];
+        if (reply?.sender === 'bot' && reply.text && !reply.isError) turns.push({ role: 'user', text: formatChatMessage(message) });
+    });
+    return turns;
+};
@@ -0,0 +1,119 @@
+import { GroundedSearchResult, GroundingSource } from './aiProvider';
+
+// A document's bibliography is a block of GFM footnote definitions between these
+// markers, kept at the end of the document. The preview renders it as "References".
+export const REFERENCES_START = '<!-- references -->';
+export const REFERENCES_END = '<!-- /references -->';
+
+export interface Citation {
+    /** The footnote label, e.g. "3" for `[^3]`. */
+    label: string;
+    uri: string;
+    title?: string;
+}
+
+export interface CitedText {
+    /** The answer with `[^n]` markers after each supported segment. */
+    text: string;
+    /** Every source cited in `text`, in label order. */
+    cited: Citation[];
+    /** The subset of `cited` not yet in the document's bibliography. */
+    added: Citation[];
+}
+
+const FOOTNOTE_REFERENCE = /\[\^([^\]\s]+)\]/g;
+const DEFINITION = /^\[\^([^\]\s]+)\]:\s*(?:\[(.*)\]\(<?([^)\s>]+)>?\)|<([^>\s]+)>)\s*$/;
+
+const referencesRange = (markdown: string): { start: number; end: number } | null => {
+    const start = markdown.indexOf(REFERENCES_START);
+    const end = markdown.indexOf(REFERENCES_END, start);
+    return start === -1 || end === -1 ? null : { start, end: end + REFERENCES_END.length };
+};
+
+/** The citations in the document's references block, in the order they are listed. */
+export const parseBibliography = (markdown: string): Citation[] => {
+    const range = referencesRange(markdown);
+    if (!range) return [];
+    return markdown.substring(range.start, range.end).split('\n').flatMap(line => {
+        const match = DEFINITION.exec(line.trim());
+        if (!match) return [];
+        return [{ label: match[1], title: match[2] || undefined, uri: match[3] ?? match[4] }];
+    });
+};
+
+export const formatCitation = ({ label, uri, title }: Citation): string =>
+    title ? `[^${label}]: [${title.replace(/[[\]]/g, '')}](${uri})` : `[^${label}]: <${uri}>`;
+
+// Numeric labels continue after the highest one already used anywhere in the document.
+const nextFootnoteNumber = (markdown: string): number =>
+    Array.from(markdown.matchAll(FOOTNOTE_REFERENCE), match => Number(match[1]))
+        .filter(Number.isInteger)
+        .reduce((max, number) => Math.max(max, number), 0) + 1;
+
+/**
+ * Adds footnote markers to a grounded answer, reusing the labels of sources
+ * already in `markdown`'s bibliography (matched by URI) and numbering new ones
+ * after the document's existing footnotes. When the provider reports no
+ * supported segments, every source is cited at the end of the answer.
+ */
+export const citeSearchResult = (result: GroundedSearchResult, markdown: string): CitedText => {
+    const known = new Map(parseBibliography(markdown).map(citation => [citation.uri, citation]));
+    let next = nextFootnoteNumber(markdown);
+    const added: Citation[] = [];
+    const citationFor = (source: GroundingSource): Citation => {
+        let citation = known.get(source.uri);
+        if (!citation) {
+            citation = { label: String(next++), uri: source.uri, title: source.title };
+            known.set(source.uri, citation);
+            added.push(citation);
+        }
+        return citation;
+    };
+
+    const text = result.text.trimEnd();
+    const supports = result.supports.length
+        ? result.supports
+        : [{ startIndex: 0, endIndex: text.length, sourceIndices: result.sources.map((_, index) => index) }];
+
+    // Collect the labels to place at each offset; several segments can end at the same spot.
+    const markers = new Map<number, Citation[]>();
+    const cited = new Map<string, Citation>();
+    supports.forEach(support => {
+        const end = Math.min(support.endIndex, text.length);
+        const at = markers.get(end) ?? [];
+        support.sourceIndices.forEach(index => {
+            const source = result.sources[index];
+            if (!source) return;
+            const citation = citationFor(source);
+            if (!at.includes(citation)) at.push(citation);
+            cited.set(citation.uri, citation);
+        });
+        if (at.length) markers.set(end, at);
+    });
+
+    let cursor = text.length;
+    let marked = '';
+    Array.from(markers.keys()).sort((a, b) => b - a).forEach(position => {
+        const labels = markers.get(position)!.map(citation => `[^${citation.label}]`).join('');
+        marked = labels + text.substring(position, cursor) + marked;
+        cursor = position;
+    });
+    marked = text.substring(0, cursor) + marked;
+
+    const byLabel = (a: Citation, b: Citation) => a.label.localeCompare(b.label, undefined, { numeric: true });
+    return { text: marked, cited: Array.from(cited.values()).sort(byLabel), added };
+};
+
+/** Appends citations to the document's references block, creating it at the end if needed. */
+export const addToBibliography = (markdown: string, citations: Citation[]): string => {
+    if (citations.length === 0) return markdown;
+    const lines = citations.map(formatCitation).join('\n');
+    const range = referencesRange(markdown);
+    if (!range) {
+        const body = markdown.trimEnd();
+        return `${body}${body ? '\n\n' : ''}${REFERENCES_START}\n${lines}\n${REFERENCES_END}\n`;
+    }
+    const end = range.end - REFERENCES_END.length;
+    const before = markdown.substring(0, end);
+    return `${before}${before.endsWith('\n') ? '' : '\n'}${lines}\n${markdown.substring(end)}`;
+};
@@ -0,0 +1,97 @@
+import type { Mermaid } from 'mermaid';
+
+interface MarkdownNode {
+    type: string;
+    lang?: string | null;
+    value?: string;
+    children?: MarkdownNode[];
+    data?: Record<string, unknown>;
+}
+
+export type DiagramResult = { svg: string } | { error: string };
+
+// Typing in a diagram renders every intermediate version; keep only the recent ones.
+const MAX_CACHED = 50;
+const MERMAID_FENCE = /^ {0,3}(`{3,}|~{3,})[ \t]*mermaid\b[^\n]*\n([\s\S]*?)\n {0,3}\1[ \t]*$/gm;
+
+const rendered = new Map<string, DiagramResult>();
+let queue: Promise<unknown> = Promise.resolve();
+let mermaidPromise: Promise<Mermaid> | null = null;
+let diagramCount = 0;
+
+// Mermaid is large, so it is only fetched once a document contains a diagram.
+const loadMermaid = () => {
+    mermaidPromise ??= import('mermaid').then(({ default: mermaid }) => {
+        // SVG text labels (not HTML) keep diagrams drawable onto a canvas for DOCX export.
+        mermaid.initialize({ startOnLoad: false, theme: 'neutral', securityLevel: 'strict', htmlLabels: false, flowchart: { htmlLabels: false } });
+        return mermaid;
+    });
+    return mermaidPromise;
+};
+
+/** Gives the root `<svg>` a pixel size from its viewBox so it works as an `<img>` source. */
+const sizeSvg = (svg: string): string => {
+    const viewBox = /<svg[^>]*\bviewBox="[\d.-]+\s+[\d.-]+\s+([\d.]+)\s+([\d.]+)"/.exec(svg);
+    if (!viewBox) return svg;
+    const [, width, height] = viewBox;
+    return svg.replace(/<svg\b([^>]*)>/, (_, attributes: string) =>
+        `<svg${attributes.replace(/\s(?:width|height)="[^"]*"/g, '').replace(/\sstyle="[^"]*"/, '')} width="${Math.ceil(Number(width))}" height="${Math.ceil(Number(height))}">`);
+};
+
+const remember = (source: string, result: DiagramResult) => {
+    rendered.delete(source);
+    rendered.set(source, result);
+    if (rendered.size > MAX_CACHED) rendered.delete(rendered.keys().next().value!);
+    return result;
+};
+
+/** A diagram that has already been rendered, so it can be shown synchronously. */
+export const getRenderedDiagram = (source: string): DiagramResult | undefined => rendered.get(source);
+
+/**
+ * Renders Mermaid source to SVG. Renders run one at a time because Mermaid
+ * measures text in a shared scratch element. Syntax errors are returned, not thrown.
+ */
+export const renderDiagram = (source: string): Promise<DiagramResult> => {
+    const cached = rendered.get(source);
+    if (cached) return Promise.resolve(cached);
+    const result = queue.then(async (): Promise<DiagramResult> => {
+        try {
+            const mermaid = await loadMermaid();
+            const { svg } = await mermaid.render(`diagram-${++diagramCount}`, source);
+            return remember(source, { svg: sizeSvg(svg) });
+        } catch (error) {
+            return remember(source, { error: error instanceof Error ? error.message : String(error) });
+        }
+    });
+    queue = result;
+    return result;
+};
+
+/** Renders every Mermaid block in `markdown` up front, for exports that render synchronously. */
+export const renderDiagrams = async (markdown: string): Promise<void> => {
+    const sources = Array.from(markdown.matchAll(MERMAID_FENCE), match => match[2]);
+    await Promise.all(sources.map(renderDiagram));
+};
+
+export const diagramUrl = (svg: string) => `data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`;
+
+/** Takes the Mermaid source out of a model reply, with or without a code fence around it. */
+export const extractMermaidSource = (reply: string): string => {
+    const fenced = /(`{3,}|~{3,})[ \t]*(?:mermaid)?[^\n]*\n([\s\S]*?)\n\s*\1/.exec(reply);
+    return (fenced ? fenced[2] : reply).trim();
+};
+
+const transform = (node: MarkdownNode) => {
+    if (node.type === 'code' && node.lang === 'mermaid') {
+        // As an unknown node type, remark-rehype turns it into a bare <figure data-diagram="...">
+        // (not one wrapped in <pre>), which MarkdownContent renders.
+        node.type = 'diagram';
+        node.data = { hName: 'figure', hProperties: { dataDiagram: node.value ?? '' }, hChildren: [] };
+        return;
+    }
+    node.children?.forEach(transform);
+};
+
+/** Marks ```mermaid code blocks as diagrams instead of highlighted code. */
+export const remarkDiagrams = () => transform;
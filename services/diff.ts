@@ -0,0 +1,83 @@
+// Word-level diffing used to review AI rewrites before they are applied.
+
+export type DiffSegment =
+    | { type: 'equal'; text: string }
+    | { type: 'change'; id: number; removed: string; added: string };
+
+// Above this many LCS cells the rewrite is treated as a single replacement hunk.
+const MAX_LCS_CELLS = 4_000_000;
+
+const tokenize = (text: string): string[] => text.match(/\s+|\w+|[^\s\w]/g) || [];
+
+/**
+ * Diffs `original` against `proposed` word by word. Adjacent changes separated
+ * only by whitespace are merged so each hunk reads as one edit.
+ */
+export const diffWords = (original: string, proposed: string): DiffSegment[] => {
+    const a = tokenize(original);
+    const b = tokenize(proposed);
+
+    const ops: { type: 'equal' | 'removed' | 'added'; text: string }[] = [];
+    if (a.length * b.length > MAX_LCS_CELLS) {
+        if (original) ops.push({ type: 'removed', text: original });
+        if (proposed) ops.push({ type: 'added', text: proposed });
+    } else {
+        // lengths[i][j] = LCS length of a[i..] and b[j..]
+        const lengths: Uint32Array[] = Array.from({ length: a.length + 1 }, () => new Uint32Array(b.length + 1));
+        for (let i = a.length - 1; i >= 0; i--) {
+            for (let j = b.length - 1; j >= 0; j--) {
+                lengths[i][j] = a[i] === b[j]
+                    ? lengths[i + 1][j + 1] + 1
+                    : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+            }
+        }
+        let i = 0;
+        let j = 0;
+        while (i < a.length || j < b.length) {
+            if (i < a.length && j < b.length && a[i] === b[j]) {
+                ops.push({ type: 'equal', text: a[i] });
+                i++; j++;
+            } else if (j < b.length && (i === a.length || lengths[i][j + 1] >= lengths[i + 1][j])) {
+                ops.push({ type: 'added', text: b[j] });
+                j++;
+            } else {
+                ops.push({ type: 'removed', text: a[i] });
+                i++;
+            }
+        }
+    }
+
+    const segments: DiffSegment[] = [];
+    let nextId = 0;
+    for (let k = 0; k < ops.length; k++) {
+        const op = ops[k];
+        const last = segments[segments.length - 1];
+        if (op.type === 'equal') {
+            if (last?.type === 'equal') last.text += op.text;
+            else segments.push({ type: 'equal', text: op.text });
+            continue;
+        }
+        // Fold a whitespace-only gap between two changes into the preceding hunk.
+        const beforeLast = segments[segments.length - 2];
+        if (last?.type === 'equal' && !last.text.trim() && beforeLast?.type === 'change') {
+            segments.pop();
+            beforeLast.removed += last.text;
+            beforeLast.added += last.text;
+        }
+        const target = segments[segments.length - 1];
+        if (target?.type === 'change') {
+            target[op.type] += op.text;
+        } else {
+            segments.push({ type: 'change', id: nextId++, removed: op.type === 'removed' ? op.text : '', added: op.type === 'added' ? op.text : '' });
+        }
+    }
+    return segments;
+};
+
+/** Rebuilds the text, taking the proposed side only for hunks in `accepted`. */
+export const applyHunks = (segments: DiffSegment[], accepted: ReadonlySet<number>): string =>
+    segments
+        .map(segment => segment.type === 'equal'
+            ? segment.text
+            : accepted.has(segment.id) ? segment.added : segment.removed)
+        .join('');
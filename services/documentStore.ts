@@ -0,0 +1,20 @@
+import { MarkdownDocument } from '../types';
+import { Collection, createCollection, createId } from './storage';
+
+export type DocumentStore = Collection<MarkdownDocument>;
+
+export const documentStore: DocumentStore = createCollection<MarkdownDocument>('documents');
+
+export const newDocument = (title: string, content: string): MarkdownDocument => {
+    const now = Date.now();
+    return { id: createId(), title, content, createdAt: now, updatedAt: now };
+};
+
+/** Picks a title that doesn't collide with an existing one, e.g. "Untitled 2". */
+export const uniqueTitle = (base: string, documents: MarkdownDocument[]): string => {
+    const titles = new Set(documents.map(doc => doc.title));
+    if (!titles.has(base)) return base;
+    let n = 2;
+    while (titles.has(`${base} ${n}`)) n++;
+    return `${base} ${n}`;
+};
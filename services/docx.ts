@@ -0,0 +1,453 @@
+import { createZip, ZipEntry } from './zip';
+
+const DOCX_MIME = 'application/vnd.openxmlformats-officedocument.wordprocessingml.document';
+const EMU_PER_PIXEL = 9525;
+const MAX_IMAGE_WIDTH_EMU = 6 * 914400; // 6 inches, the usable width of a Letter/A4 page.
+const HEADING_TAGS = ['h1', 'h2', 'h3', 'h4', 'h5', 'h6'];
+const BLOCK_TAGS = new Set([...HEADING_TAGS, 'p', 'ul', 'ol', 'li', 'blockquote', 'pre', 'table', 'hr', 'div', 'section', 'figure', 'video', 'details']);
+
+interface RunStyle {
+    bold?: boolean;
+    italic?: boolean;
+    strike?: boolean;
+    code?: boolean;
+    superscript?: boolean;
+    link?: boolean;
+    color?: string;
+}
+
+interface ListItem {
+    numId: number;
+    level: number;
+    /** Only the first paragraph of a list item carries the bullet or number. */
+    numbered: boolean;
+}
+
+interface BlockContext {
+    style?: string;
+    list?: ListItem;
+    runStyle: RunStyle;
+    align?: string;
+}
+
+interface Relationship {
+    id: string;
+    type: string;
+    target: string;
+    external?: boolean;
+}
+
+interface RasterImage {
+    data: Uint8Array;
+    width: number;
+    height: number;
+}
+
+const REL_TYPES = {
+    styles: 'http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles',
+    numbering: 'http://schemas.openxmlformats.org/officeDocument/2006/relationships/numbering',
+    hyperlink: 'http://schemas.openxmlformats.org/officeDocument/2006/relationships/hyperlink',
+    image: 'http://schemas.openxmlformats.org/officeDocument/2006/relationships/image',
+};
+
+const escapeXml = (text: string) =>
+    text.replace(/[<>&"]/g, char => ({ '<': '&lt;', '>': '&gt;', '&': '&amp;', '"': '&quot;' }[char] as string));
+
+const toHexColor = (cssColor: string): string | undefined => {
+    const hex = /^#([0-9a-f]{3}|[0-9a-f]{6})$/i.exec(cssColor.trim());
+    if (hex) {
+        const value = hex[1].length === 3 ? hex[1].replace(/./g, c => c + c) : hex[1];
+        return value.toUpperCase();
+    }
+    const rgb = /^rgba?\((\d+),\s*(\d+),\s*(\d+)/i.exec(cssColor.trim());
+    return rgb ? rgb.slice(1, 4).map(n => Number(n).toString(16).padStart(2, '0')).join('').toUpperCase() : undefined;
+};
+
+/** Draws any image the browser can load (SVG, blob: and CORS-enabled URLs included) into PNG bytes. */
+const rasterize = (src: string): Promise<RasterImage | null> =>
+    new Promise(resolve => {
+        const image = new Image();
+        image.crossOrigin = 'anonymous';
+        image.onerror = () => resolve(null);
+        image.onload = () => {
+            const width = image.naturalWidth || 512;
+            const height = image.naturalHeight || 512;
+            const canvas = document.createElement('canvas');
+            canvas.width = width;
+            canvas.height = height;
+            try {
+                canvas.getContext('2d')?.drawImage(image, 0, 0, width, height);
+                canvas.toBlob(async blob => {
+                    resolve(blob ? { data: new Uint8Array(await blob.arrayBuffer()), width, height } : null);
+                }, 'image/png');
+            } catch {
+                // A cross-origin image without CORS headers taints the canvas.
+                resolve(null);
+            }
+        };
+        image.src = src;
+    });
+
+const runProperties = (style: RunStyle) => {
+    const props = [
+        style.link ? '<w:rStyle w:val="Hyperlink"/>' : style.code ? '<w:rStyle w:val="InlineCode"/>' : '',
+        style.bold ? '<w:b/>' : '',
+        style.italic ? '<w:i/>' : '',
+        style.strike ? '<w:strike/>' : '',
+        style.color ? `<w:color w:val="${style.color}"/>` : '',
+        style.superscript ? '<w:vertAlign w:val="superscript"/>' : '',
+    ].join('');
+    return props ? `<w:rPr>${props}</w:rPr>` : '';
+};
+
+const textRun = (text: string, style: RunStyle) =>
+    `<w:r>${runProperties(style)}<w:t xml:space="preserve">${escapeXml(text)}</w:t></w:r>`;
+
+const paragraph = (content: string, context: BlockContext) => {
+    const props: string[] = [];
+    if (context.style) props.push(`<w:pStyle w:val="${context.style}"/>`);
+    if (context.list) {
+        const { numId, level, numbered } = context.list;
+        props.push(numbered
+            ? `<w:numPr><w:ilvl w:val="${level}"/><w:numId w:val="${numId}"/></w:numPr>`
+            : `<w:ind w:left="${720 * (level + 1)}"/>`);
+        context.list.numbered = false;
+    }
+    if (context.align) props.push(`<w:jc w:val="${context.align === 'right' ? 'right' : context.align === 'center' ? 'center' : 'left'}"/>`);
+    return `<w:p>${props.length ? `<w:pPr>${props.join('')}</w:pPr>` : ''}${content}</w:p>`;
+};
+
+const isBlock = (node: Node) =>
+    node.nodeType === Node.ELEMENT_NODE && (BLOCK_TAGS.has((node as Element).tagName.toLowerCase()) || (node as Element).hasAttribute('data-code-block'));
+
+/**
+ * Converts the HTML produced by the preview pipeline into a Word document.
+ * Images are embedded as PNG; videos become links (or a note when they only
+ * exist in this browser session).
+ */
+export const createDocx = async (title: string, html: string): Promise<Blob> => {
+    const body = new DOMParser().parseFromString(html, 'text/html').body;
+    const relationships: Relationship[] = [
+        { id: 'rId1', type: REL_TYPES.styles, target: 'styles.xml' },
+        { id: 'rId2', type: REL_TYPES.numbering, target: 'numbering.xml' },
+    ];
+    const media: ZipEntry[] = [];
+    // numId 1 is the shared bullet list; every ordered list gets its own so numbering restarts.
+    const orderedLists: { numId: number; start: number }[] = [];
+    let drawingId = 0;
+
+    const addRelationship = (type: string, target: string, external?: boolean) => {
+        const id = `rId${relationships.length + 1}`;
+        relationships.push({ id, type, target, external });
+        return id;
+    };
+
+    const imageRun = async (element: HTMLImageElement): Promise<string> => {
+        const alt = element.getAttribute('alt') || 'Image';
+        const src = element.getAttribute('src') || '';
+        const image = src ? await rasterize(src) : null;
+        if (!image) {
+            return /^https?:/i.test(src)
+                ? hyperlink(src, textRun(`[${alt}]`, { link: true }))
+                : textRun(`[${alt}]`, { italic: true });
+        }
+        const name = `image${media.length + 1}.png`;
+        media.push({ name: `word/media/${name}`, data: image.data });
+        const rId = addRelationship(REL_TYPES.image, `media/${name}`);
+        const scale = Math.min(1, MAX_IMAGE_WIDTH_EMU / (image.width * EMU_PER_PIXEL));
+        const cx = Math.round(image.width * EMU_PER_PIXEL * scale);
+        const cy = Math.round(image.height * EMU_PER_PIXEL * scale);
+        const id = ++drawingId;
+        return `<w:r><w:drawing><wp:inline distT="0" distB="0" distL="0" distR="0"><wp:extent cx="${cx}" cy="${cy}"/>`
+            + `<wp:docPr id="${id}" name="Picture ${id}" descr="${escapeXml(alt)}"/>`
+            + '<wp:cNvGraphicFramePr><a:graphicFrameLocks noChangeAspect="1"/></wp:cNvGraphicFramePr>'
+            + '<a:graphic><a:graphicData uri="http://schemas.openxmlformats.org/drawingml/2006/picture"><pic:pic>'
+            + `<pic:nvPicPr><pic:cNvPr id="${id}" name="${name}"/><pic:cNvPicPr/></pic:nvPicPr>`
+            + `<pic:blipFill><a:blip r:embed="${rId}"/><a:stretch><a:fillRect/></a:stretch></pic:blipFill>`
+            + `<pic:spPr><a:xfrm><a:off x="0" y="0"/><a:ext cx="${cx}" cy="${cy}"/></a:xfrm><a:prstGeom prst="rect"><a:avLst/></a:prstGeom></pic:spPr>`
+            + '</pic:pic></a:graphicData></a:graphic></wp:inline></w:drawing></w:r>';
+    };
+
+    const hyperlink = (href: string, runs: string) =>
+        `<w:hyperlink r:id="${addRelationship(REL_TYPES.hyperlink, href, true)}">${runs}</w:hyperlink>`;
+
+    const videoRuns = (element: Element): string => {
+        const src = element.getAttribute('src') || '';
+        return /^https?:/i.test(src)
+            ? textRun('Video: ', { bold: true }) + hyperlink(src, textRun(src, { link: true }))
+            : textRun('[Video not included; it is embedded in the HTML export.]', { italic: true });
+    };
+
+    const inlineRuns = async (nodes: Node[], style: RunStyle): Promise<string> => {
+        let xml = '';
+        for (const node of nodes) {
+            if (node.nodeType === Node.TEXT_NODE) {
+                const text = (node.textContent ?? '').replace(/\s+/g, ' ');
+                if (text) xml += textRun(text, style);
+                continue;
+            }
+            if (node.nodeType !== Node.ELEMENT_NODE) continue;
+            const element = node as HTMLElement;
+            const children = Array.from(element.childNodes);
+            // KaTeX output is layout spans plus MathML; Word gets the TeX source instead.
+            if (element.classList.contains('katex')) {
+                const tex = element.querySelector('annotation[encoding="application/x-tex"]')?.textContent;
+                xml += textRun(tex ?? element.textContent ?? '', { ...style, code: true });
+                continue;
+            }
+            switch (element.tagName.toLowerCase()) {
+                case 'strong':
+                case 'b':
+                    xml += await inlineRuns(children, { ...style, bold: true });
+                    break;
+                case 'em':
+                case 'i':
+                    xml += await inlineRuns(children, { ...style, italic: true });
+                    break;
+                case 'del':
+                case 's':
+                    xml += await inlineRuns(children, { ...style, strike: true });
+                    break;
+                case 'sup':
+                    xml += await inlineRuns(children, { ...style, superscript: true });
+                    break;
+                case 'code':
+                    xml += textRun(element.textContent ?? '', { ...style, code: true });
+                    break;
+                case 'br':
+                    xml += '<w:r><w:br/></w:r>';
+                    break;
+                case 'img':
+                    xml += await imageRun(element as HTMLImageElement);
+                    break;
+                case 'video':
+                    xml += videoRuns(element);
+                    break;
+                case 'input':
+                    xml += textRun((element as HTMLInputElement).checked ? '☑ ' : '☐ ', style);
+                    break;
+                case 'a': {
+                    const href = element.getAttribute('href') || '';
+                    const runs = await inlineRuns(children, { ...style, link: true });
+                    // In-page links (footnote references) have no target outside the document.
+                    xml += /^(https?:|mailto:)/i.test(href) ? hyperlink(href, runs) : runs;
+                    break;
+                }
+                default:
+                    xml += await inlineRuns(children, style);
+            }
+        }
+        return xml;
+    };
+
+    const codeBlock = (element: Element): string => {
+        const lines: string[] = [''];
+        const walk = (node: Node, color?: string) => {
+            if (node.nodeType === Node.TEXT_NODE) {
+                (node.textContent ?? '').split('\n').forEach((part, index) => {
+                    if (index > 0) lines.push('');
+                    if (part) lines[lines.length - 1] += textRun(part, { color });
+                });
+                return;
+            }
+            if (node.nodeType !== Node.ELEMENT_NODE) return;
+            const ownColor = (node as HTMLElement).style?.color;
+            node.childNodes.forEach(child => walk(child, (ownColor && toHexColor(ownColor)) || color));
+        };
+        walk(element);
+        if (lines.length > 1 && !lines[lines.length - 1]) lines.pop();
+        return lines.map(line => paragraph(line, { style: 'Code', runStyle: {} })).join('');
+    };
+
+    const table = async (element: HTMLTableElement): Promise<string> => {
+        const rows = Array.from(element.rows);
+        const columns = Math.max(1, ...rows.map(row => row.cells.length));
+        let xml = '<w:tbl><w:tblPr><w:tblStyle w:val="TableGrid"/><w:tblW w:w="5000" w:type="pct"/></w:tblPr><w:tblGrid>';
+        xml += '<w:gridCol/>'.repeat(columns) + '</w:tblGrid>';
+        for (const row of rows) {
+            const isHeader = row.parentElement?.tagName.toLowerCase() === 'thead';
+            xml += `<w:tr>${isHeader ? '<w:trPr><w:tblHeader/></w:trPr>' : ''}`;
+            for (const cell of Array.from(row.cells)) {
+                const context: BlockContext = {
+                    runStyle: cell.tagName.toLowerCase() === 'th' ? { bold: true } : {},
+                    align: cell.style.textAlign || cell.getAttribute('align') || undefined,
+                };
+                const content = await blocks(Array.from(cell.childNodes), context);
+                xml += `<w:tc><w:tcPr><w:tcW w:w="0" w:type="auto"/></w:tcPr>${content || paragraph('', context)}</w:tc>`;
+            }
+            xml += '</w:tr>';
+        }
+        // Word requires a paragraph between a table and whatever follows it.
+        return `${xml}</w:tbl>${paragraph('', { runStyle: {} })}`;
+    };
+
+    const list = async (element: Element, context: BlockContext): Promise<string> => {
+        const ordered = element.tagName.toLowerCase() === 'ol';
+        let numId = 1;
+        if (ordered) {
+            numId = orderedLists.length + 2;
+            orderedLists.push({ numId, start: Number(element.getAttribute('start')) || 1 });
+        }
+        const level = context.list ? Math.min(context.list.level + 1, 8) : 0;
+        let xml = '';
+        for (const item of Array.from(element.children)) {
+            xml += await blocks(Array.from(item.childNodes), { ...context, list: { numId, level, numbered: true } });
+        }
+        return xml;
+    };
+
+    const block = async (element: HTMLElement, context: BlockContext): Promise<string> => {
+        const tag = element.tagName.toLowerCase();
+        const children = Array.from(element.childNodes);
+        if (element.hasAttribute('data-code-block') || tag === 'pre') return codeBlock(element);
+        if (HEADING_TAGS.includes(tag)) {
+            return paragraph(await inlineRuns(children, context.runStyle), { ...context, style: `Heading${tag[1]}` });
+        }
+        switch (tag) {
+            case 'p':
+                return paragraph(await inlineRuns(children, context.runStyle), context);
+            case 'ul':
+            case 'ol':
+                return list(element, context);
+            case 'blockquote':
+                return blocks(children, { ...context, style: 'Quote' });
+            case 'table':
+                return table(element as HTMLTableElement);
+            case 'hr':
+                return '<w:p><w:pPr><w:pBdr><w:bottom w:val="single" w:sz="6" w:space="1" w:color="auto"/></w:pBdr></w:pPr></w:p>';
+            case 'video':
+                return paragraph(videoRuns(element), context);
+            default:
+                return blocks(children, context);
+        }
+    };
+
+    /** Converts a run of sibling nodes, gathering loose inline content into paragraphs. */
+    const blocks = async (nodes: Node[], context: BlockContext): Promise<string> => {
+        let xml = '';
+        let inline: Node[] = [];
+        const flushInline = async () => {
+            if (inline.some(node => node.nodeType === Node.ELEMENT_NODE || node.textContent?.trim())) {
+                xml += paragraph(await inlineRuns(inline, context.runStyle), context);
+            }
+            inline = [];
+        };
+        for (const node of nodes) {
+            if (isBlock(node)) {
+                await flushInline();
+                xml += await block(node as HTMLElement, context);
+            } else {
+                inline.push(node);
+            }
+        }
+        await flushInline();
+        return xml;
+    };
+
+    const content = await blocks(Array.from(body.childNodes), { runStyle: {} });
+
+    const documentXml = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>'
+        + '<w:document xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main"'
+        + ' xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships"'
+        + ' xmlns:wp="http://schemas.openxmlformats.org/drawingml/2006/wordprocessingDrawing"'
+        + ' xmlns:a="http://schemas.openxmlformats.org/drawingml/2006/main"'
+        + ' xmlns:pic="http://schemas.openxmlformats.org/drawingml/2006/picture">'
+        + `<w:body>${content}<w:sectPr><w:pgSz w:w="12240" w:h="15840"/>`
+        + '<w:pgMar w:top="1440" w:right="1440" w:bottom="1440" w:left="1440" w:header="720" w:footer="720" w:gutter="0"/></w:sectPr>'
+        + '</w:body></w:document>';
+
+    const relationshipsXml = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>'
+        + '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">'
+        + relationships.map(rel =>
+            `<Relationship Id="${rel.id}" Type="${rel.type}" Target="${escapeXml(rel.target)}"${rel.external ? ' TargetMode="External"' : ''}/>`
+        ).join('')
+        + '</Relationships>';
+
+    const coreXml = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>'
+        + '<cp:coreProperties xmlns:cp="http://schemas.openxmlformats.org/package/2006/metadata/core-properties"'
+        + ' xmlns:dc="http://purl.org/dc/elements/1.1/" xmlns:dcterms="http://purl.org/dc/terms/"'
+        + ' xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance">'
+        + `<dc:title>${escapeXml(title)}</dc:title>`
+        + `<dcterms:created xsi:type="dcterms:W3CDTF">${new Date().toISOString().replace(/\.\d+Z$/, 'Z')}</dcterms:created>`
+        + '</cp:coreProperties>';
+
+    return createZip([
+        { name: '[Content_Types].xml', data: CONTENT_TYPES_XML },
+        { name: '_rels/.rels', data: PACKAGE_RELS_XML },
+        { name: 'docProps/core.xml', data: coreXml },
+        { name: 'word/document.xml', data: documentXml },
+        { name: 'word/_rels/document.xml.rels', data: relationshipsXml },
+        { name: 'word/styles.xml', data: STYLES_XML },
+        { name: 'word/numbering.xml', data: numberingXml(orderedLists) },
+        ...media,
+    ], DOCX_MIME);
+};
+
+const CONTENT_TYPES_XML = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>'
+    + '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">'
+    + '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>'
+    + '<Default Extension="xml" ContentType="application/xml"/>'
+    + '<Default Extension="png" ContentType="image/png"/>'
+    + '<Override PartName="/word/document.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.document.main+xml"/>'
+    + '<Override PartName="/word/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.styles+xml"/>'
+    + '<Override PartName="/word/numbering.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.numbering+xml"/>'
+    + '<Override PartName="/docProps/core.xml" ContentType="application/vnd.openxmlformats-package.core-properties+xml"/>'
+    + '</Types>';
+
+const PACKAGE_RELS_XML = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>'
+    + '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">'
+    + '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="word/document.xml"/>'
+    + '<Relationship Id="rId2" Type="http://schemas.openxmlformats.org/package/2006/relationships/metadata/core-properties" Target="docProps/core.xml"/>'
+    + '</Relationships>';
+
+const HEADING_SIZES = [40, 32, 28, 24, 22, 22];
+
+const STYLES_XML = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>'
+    + '<w:styles xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main">'
+    + '<w:docDefaults><w:rPrDefault><w:rPr><w:rFonts w:ascii="Calibri" w:hAnsi="Calibri" w:eastAsia="Calibri" w:cs="Calibri"/>'
+    + '<w:sz w:val="22"/><w:szCs w:val="22"/></w:rPr></w:rPrDefault>'
+    + '<w:pPrDefault><w:pPr><w:spacing w:after="160" w:line="276" w:lineRule="auto"/></w:pPr></w:pPrDefault></w:docDefaults>'
+    + '<w:style w:type="paragraph" w:default="1" w:styleId="Normal"><w:name w:val="Normal"/><w:qFormat/></w:style>'
+    + HEADING_SIZES.map((size, index) =>
+        `<w:style w:type="paragraph" w:styleId="Heading${index + 1}"><w:name w:val="heading ${index + 1}"/><w:basedOn w:val="Normal"/>`
+        + `<w:next w:val="Normal"/><w:qFormat/><w:pPr><w:keepNext/><w:spacing w:before="${index < 2 ? 360 : 240}" w:after="120"/><w:outlineLvl w:val="${index}"/></w:pPr>`
+        + `<w:rPr><w:b/><w:color w:val="111827"/><w:sz w:val="${size}"/><w:szCs w:val="${size}"/></w:rPr></w:style>`
+    ).join('')
+    + '<w:style w:type="paragraph" w:styleId="Quote"><w:name w:val="Quote"/><w:basedOn w:val="Normal"/><w:qFormat/>'
+    + '<w:pPr><w:pBdr><w:left w:val="single" w:sz="18" w:space="8" w:color="D1D5DB"/></w:pBdr><w:ind w:left="360"/></w:pPr>'
+    + '<w:rPr><w:i/><w:color w:val="4B5563"/></w:rPr></w:style>'
+    + '<w:style w:type="paragraph" w:styleId="Code"><w:name w:val="Code"/><w:basedOn w:val="Normal"/>'
+    + '<w:pPr><w:shd w:val="clear" w:color="auto" w:fill="282C34"/><w:spacing w:after="0" w:line="240" w:lineRule="auto"/></w:pPr>'
+    + '<w:rPr><w:rFonts w:ascii="Consolas" w:hAnsi="Consolas" w:cs="Consolas"/><w:color w:val="ABB2BF"/><w:sz w:val="19"/><w:szCs w:val="19"/></w:rPr></w:style>'
+    + '<w:style w:type="character" w:styleId="Hyperlink"><w:name w:val="Hyperlink"/>'
+    + '<w:rPr><w:color w:val="4F46E5"/><w:u w:val="single"/></w:rPr></w:style>'
+    + '<w:style w:type="character" w:styleId="InlineCode"><w:name w:val="Inline Code"/>'
+    + '<w:rPr><w:rFonts w:ascii="Consolas" w:hAnsi="Consolas" w:cs="Consolas"/><w:color w:val="4F46E5"/><w:shd w:val="clear" w:color="auto" w:fill="F3F4F6"/></w:rPr></w:style>'
+    + '<w:style w:type="table" w:styleId="TableGrid"><w:name w:val="Table Grid"/><w:tblPr><w:tblBorders>'
+    + ['top', 'left', 'bottom', 'right', 'insideH', 'insideV'].map(side => `<w:${side} w:val="single" w:sz="4" w:space="0" w:color="D1D5DB"/>`).join('')
+    + '</w:tblBorders><w:tblCellMar><w:left w:w="108" w:type="dxa"/><w:right w:w="108" w:type="dxa"/></w:tblCellMar></w:tblPr></w:style>'
+    + '</w:styles>';
+
+const BULLETS = ['•', '◦', '▪'];
+
+const numberingLevels = (ordered: boolean) =>
+    Array.from({ length: 9 }, (_, level) =>
+        `<w:lvl w:ilvl="${level}"><w:start w:val="1"/>`
+        + (ordered
+            ? `<w:numFmt w:val="${['decimal', 'lowerLetter', 'lowerRoman'][level % 3]}"/><w:lvlText w:val="%${level + 1}."/>`
+            : `<w:numFmt w:val="bullet"/><w:lvlText w:val="${BULLETS[level % 3]}"/>`)
+        + `<w:lvlJc w:val="left"/><w:pPr><w:ind w:left="${720 * (level + 1)}" w:hanging="360"/></w:pPr></w:lvl>`
+    ).join('');
+
+const numberingXml = (orderedLists: { numId: number; start: number }[]) =>
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>'
+    + '<w:numbering xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main">'
+    + `<w:abstractNum w:abstractNumId="0"><w:multiLevelType w:val="hybridMultilevel"/>${numberingLevels(false)}</w:abstractNum>`
+    + `<w:abstractNum w:abstractNumId="1"><w:multiLevelType w:val="hybridMultilevel"/>${numberingLevels(true)}</w:abstractNum>`
+    + '<w:num w:numId="1"><w:abstractNumId w:val="0"/></w:num>'
+    + orderedLists.map(({ numId, start }) =>
+        `<w:num w:numId="${numId}"><w:abstractNumId w:val="1"/>`
+        + Array.from({ length: 9 }, (_, level) => `<w:lvlOverride w:ilvl="${level}"><w:startOverride w:val="${level === 0 ? start : 1}"/></w:lvlOverride>`).join('')
+        + '</w:num>'
+    ).join('')
+    + '</w:numbering>';
@@ -0,0 +1,219 @@
+import { InsertPosition } from '../types';
+import { TextRange } from './textRanges';
+
+/** The editable state of a textarea: its text and (primary) selection. */
+export interface EditorState {
+    value: string;
+    selectionStart: number;
+    selectionEnd: number;
+}
+
+const INDENT = '  ';
+const PAIRS: Record<string, string> = { '(': ')', '[': ']', '{': '}', '`': '`', '*': '*', '_': '_', '~': '~' };
+const CLOSERS = new Set([')', ']', '}']);
+const SYMMETRIC = new Set(['`', '*', '_', '~']);
+const LIST_ITEM = /^(\s*)(?:([-*+])|(\d+)([.)]))(\s+)(\[[ xX]\]\s+)?/;
+const QUOTE = /^(\s*(?:>\s?)+)/;
+const FENCE = /^\s*(`{3,}|~{3,})/;
+
+export const lineStartOf = (value: string, position: number) => value.lastIndexOf('\n', position - 1) + 1;
+
+export const lineEndOf = (value: string, position: number) => {
+    const end = value.indexOf('\n', position);
+    return end === -1 ? value.length : end;
+};
+
+/**
+ * Inserts `content` as a block of its own: before the line `range` starts on,
+ * after the line it ends on, or in place of the range. Returns the new text
+ * and where the content landed.
+ */
+export const insertBlock = (value: string, range: TextRange, content: string, position: InsertPosition): { value: string; range: TextRange } => {
+    const start = position === 'above' ? lineStartOf(value, range.start) : position === 'below' ? lineEndOf(value, range.end) : range.start;
+    const end = position === 'replace' ? range.end : start;
+    // Keep the inserted block separate from the text around it.
+    const before = value.substring(0, start);
+    const after = value.substring(end);
+    const prefix = before && !before.endsWith('\n\n') ? (before.endsWith('\n') ? '\n' : '\n\n') : '';
+    const suffix = after && !after.startsWith('\n\n') ? (after.startsWith('\n') ? '\n' : '\n\n') : '';
+    const at = start + prefix.length;
+    return { value: before + prefix + content + suffix + after, range: { start: at, end: at + content.length } };
+};
+
+const replace = (state: EditorState, start: number, end: number, text: string, caret = start + text.length): EditorState => ({
+    value: state.value.substring(0, start) + text + state.value.substring(end),
+    selectionStart: caret,
+    selectionEnd: caret,
+});
+
+const isSpace = (char: string | undefined) => char === undefined || /\s/.test(char);
+
+/**
+ * Handles a typed character: wraps a selection in a pair, auto-closes
+ * brackets and emphasis markers, and types over an existing closer.
+ * Returns null when the browser should insert the character itself.
+ */
+export const typeCharacter = (state: EditorState, char: string): EditorState | null => {
+    const { value, selectionStart: start, selectionEnd: end } = state;
+    const closer = PAIRS[char];
+
+    if (start !== end) {
+        if (!closer) return null;
+        // Keep the inner text selected so typing `*` twice gives **bold**.
+        return {
+            value: value.substring(0, start) + char + value.substring(start, end) + closer + value.substring(end),
+            selectionStart: start + 1,
+            selectionEnd: end + 1,
+        };
+    }
+
+    const prev = value[start - 1];
+    const next = value[start];
+    const lineBefore = value.substring(lineStartOf(value, start), start);
+    const lineAfter = value.substring(start, lineEndOf(value, start));
+
+    if (char === '`' && /^\s*``$/.test(lineBefore) && /^`*$/.test(lineAfter)) {
+        // Third backtick of a fence: drop the auto-inserted closers.
+        return replace(state, start, start + lineAfter.length, '`');
+    }
+    if (SYMMETRIC.has(char) && prev === char && next === char && isSpace(value[start - 2])) {
+        // Growing an empty pair, `*|*` -> `**|**`.
+        return replace(state, start, start, char + char, start + 1);
+    }
+    if ((CLOSERS.has(char) || SYMMETRIC.has(char)) && next === char) {
+        return { value, selectionStart: start + 1, selectionEnd: start + 1 };
+    }
+    if (!closer) return null;
+
+    const nextAllowsPair = isSpace(next) || CLOSERS.has(next);
+    if (SYMMETRIC.has(char)) {
+        // A marker at the start of a line is a bullet or rule, not emphasis; inside a word it's literal.
+        const prevAllowsPair = prev === undefined || /[\s([{]/.test(prev);
+        if (!nextAllowsPair || !prevAllowsPair || (char !== '`' && /^\s*$/.test(lineBefore))) return null;
+    } else if (!nextAllowsPair) {
+        return null;
+    }
+    return replace(state, start, start, char + closer, start + 1);
+};
+
+/** Deletes an empty auto-closed pair as a unit; returns null for a normal Backspace. */
+export const deletePair = (state: EditorState): EditorState | null => {
+    const { value, selectionStart: start, selectionEnd: end } = state;
+    if (start !== end || start === 0) return null;
+    const opener = value[start - 1];
+    if (!PAIRS[opener] || value[start] !== PAIRS[opener]) return null;
+    return replace(state, start - 1, start + 1, '');
+};
+
+const isUnclosedFence = (value: string, lineStart: number, fence: string) => {
+    const before = value.substring(0, lineStart).split('\n').filter(line => FENCE.test(line)).length;
+    if (before % 2 === 1) return false; // This line closes an earlier fence.
+    const after = value.substring(lineEndOf(value, lineStart)).split('\n').slice(1);
+    return !after.some(line => line.trim().startsWith(fence));
+};
+
+/**
+ * Enter inside structured lines: continues lists (renumbering ordered ones
+ * and task checkboxes) and blockquotes, ends them on an empty item, keeps
+ * indentation in code, and closes a freshly opened code fence.
+ */
+export const insertNewline = (state: EditorState): EditorState | null => {
+    const { value, selectionStart: start, selectionEnd: end } = state;
+    if (start !== end) return null;
+    const lineStart = lineStartOf(value, start);
+    const lineEnd = lineEndOf(value, start);
+    const line = value.substring(lineStart, lineEnd);
+
+    const fence = FENCE.exec(line);
+    if (fence && start === lineEnd && isUnclosedFence(value, lineStart, fence[1])) {
+        const indent = /^\s*/.exec(line)?.[0] ?? '';
+        return replace(state, start, start, `\n${indent}\n${indent}${fence[1]}`, start + 1 + indent.length);
+    }
+
+    const list = LIST_ITEM.exec(line);
+    if (list && start - lineStart >= list[0].length) {
+        if (!line.substring(list[0].length).trim()) {
+            return replace(state, lineStart, lineEnd, '');
+        }
+        const [, indent, bullet, number, delimiter, spacing, task] = list;
+        const marker = bullet ?? `${Number(number) + 1}${delimiter}`;
+        return replace(state, start, start, `\n${indent}${marker}${spacing}${task ? '[ ] ' : ''}`);
+    }
+
+    const quote = QUOTE.exec(line);
+    if (quote && start - lineStart >= quote[1].length) {
+        if (!line.substring(quote[1].length).trim()) {
+            return replace(state, lineStart, lineEnd, '');
+        }
+        return replace(state, start, start, `\n${quote[1]}`);
+    }
+
+    const indent = /^[ \t]*/.exec(line)?.[0] ?? '';
+    return indent && start > lineStart + indent.length ? replace(state, start, start, `\n${indent}`) : null;
+};
+
+/**
+ * Tab / Shift+Tab. Indents or outdents every selected line, or the current
+ * list item; elsewhere Tab inserts spaces at the caret.
+ */
+export const indentLines = (state: EditorState, outdent: boolean): EditorState => {
+    const { value, selectionStart: start, selectionEnd: end } = state;
+    const firstLineStart = lineStartOf(value, start);
+    const multiline = value.substring(start, end).includes('\n');
+
+    if (!outdent && !multiline && !LIST_ITEM.test(value.substring(firstLineStart, lineEndOf(value, start)))) {
+        return replace(state, start, end, INDENT);
+    }
+
+    const lastLineEnd = lineEndOf(value, end > start && value[end - 1] === '\n' ? end - 1 : end);
+    const lines = value.substring(firstLineStart, lastLineEnd).split('\n');
+    let firstDelta = 0;
+    let totalDelta = 0;
+    const updated = lines.map((line, index) => {
+        let next: string;
+        if (outdent) {
+            const remove = line.startsWith('\t') ? 1 : (/^ {1,2}/.exec(line)?.[0].length ?? 0);
+            next = line.substring(remove);
+        } else {
+            next = INDENT + line;
+        }
+        const delta = next.length - line.length;
+        if (index === 0) firstDelta = delta;
+        totalDelta += delta;
+        return next;
+    });
+
+    return {
+        value: value.substring(0, firstLineStart) + updated.join('\n') + value.substring(lastLineEnd),
+        selectionStart: Math.max(firstLineStart, start + firstDelta),
+        selectionEnd: Math.max(firstLineStart, end + totalDelta),
+    };
+};
+
+export type CursorEdit = { type: 'insert'; text: string } | { type: 'backspace' } | { type: 'delete' };
+
+/**
+ * Applies the same edit at several cursors at once (multi-cursor editing).
+ * Returns the new text and the collapsed cursor positions, in input order.
+ */
+export const editAtCursors = (value: string, cursors: TextRange[], edit: CursorEdit): { value: string; cursors: number[] } => {
+    const order = cursors.map((_, index) => index).sort((a, b) => cursors[a].start - cursors[b].start);
+    const result: number[] = new Array(cursors.length);
+    let output = '';
+    let consumed = 0;
+
+    for (const index of order) {
+        let { start, end } = cursors[index];
+        if (start === end && edit.type === 'backspace') start = Math.max(0, start - 1);
+        if (start === end && edit.type === 'delete') end = Math.min(value.length, end + 1);
+        // Overlapping spans (two cursors deleting into each other) are only removed once.
+        start = Math.max(start, consumed);
+        end = Math.max(end, start);
+        const text = edit.type === 'insert' ? edit.text : '';
+        output += value.substring(consumed, start) + text;
+        result[index] = output.length;
+        consumed = end;
+    }
+
+    return { value: output + value.substring(consumed), cursors: result };
+};
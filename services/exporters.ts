@@ -0,0 +1,153 @@
+import { createElement } from 'react';
+import { renderToStaticMarkup } from 'react-dom/server';
+import katex from 'katex';
+import MarkdownContent from '../components/MarkdownContent';
+import { createDocx } from './docx';
+import { downloadBlob, downloadText, toFileName } from './files';
+import { blobToDataUrl, embedAssets, urlToBlob } from './assets';
+import { renderDiagrams } from './diagrams';
+import { parseFrontMatter } from './frontMatter';
+import { ExportFormat, FrontMatter } from '../types';
+
+// Math is laid out by KaTeX's stylesheet and fonts; exports that contain math link them.
+const KATEX_STYLESHEET = `https://cdn.jsdelivr.net/npm/katex@${katex.version}/dist/katex.min.css`;
+
+const EXPORT_STYLES = `
+  :root { color-scheme: light; }
+  body { margin: 0; background: #f9fafb; color: #374151; font: 16px/1.75 -apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, "Helvetica Neue", Arial, sans-serif; }
+  main { max-width: 48rem; margin: 0 auto; padding: 3rem 1.5rem; background: #fff; }
+  h1, h2, h3, h4, h5, h6 { color: #111827; line-height: 1.3; margin: 2em 0 0.75em; }
+  h1 { font-size: 2.25em; margin-top: 0; }
+  h2 { font-size: 1.5em; }
+  h3 { font-size: 1.25em; }
+  p, ul, ol, blockquote, table, figure { margin: 1.25em 0; }
+  a { color: #4f46e5; }
+  strong { color: #111827; }
+  blockquote { margin-left: 0; padding-left: 1em; border-left: 0.25rem solid #e5e7eb; color: #111827; font-style: italic; }
+  hr { border: 0; border-top: 1px solid #e5e7eb; margin: 3em 0; }
+  code { color: #4f46e5; font-size: 0.875em; font-family: ui-monospace, SFMono-Regular, Menlo, Consolas, monospace; }
+  :not(pre) > code::before, :not(pre) > code::after { content: "\`"; }
+  pre, [data-code-block] { border-radius: 0.375rem; overflow-x: auto; font-size: 0.875em; }
+  pre { background: #1f2937; color: #e5e7eb; padding: 1em; }
+  pre code, [data-code-block] code { color: inherit; }
+  pre code::before, pre code::after, [data-code-block] code::before, [data-code-block] code::after { content: none; }
+  table { width: 100%; border-collapse: collapse; font-size: 0.875em; }
+  th, td { border: 1px solid #d1d5db; padding: 0.5em 0.75em; vertical-align: top; }
+  thead th { background: #f3f4f6; color: #111827; }
+  img, video { max-width: 100%; height: auto; border-radius: 0.375rem; }
+  figure[data-diagram] { text-align: center; }
+  .katex-display { overflow-x: auto; overflow-y: hidden; }
+  li > input[type="checkbox"] { margin-right: 0.5em; }
+  .print-bar { position: sticky; top: 0; display: flex; justify-content: flex-end; gap: 0.5rem; padding: 0.75rem 1.5rem; background: #eef2ff; }
+  .print-bar button { padding: 0.5rem 1rem; border: 0; border-radius: 0.375rem; background: #4f46e5; color: #fff; font: inherit; font-size: 0.875rem; cursor: pointer; }
+  @page { margin: 2cm; }
+  @media print {
+    body { background: #fff; font-size: 11pt; }
+    main { max-width: none; padding: 0; }
+    .print-bar { display: none; }
+    h1, h2, h3, h4, h5, h6 { break-after: avoid; }
+    pre, [data-code-block], table, figure, img, blockquote { break-inside: avoid; }
+    pre, [data-code-block] { white-space: pre-wrap; word-break: break-word; }
+    a { color: inherit; }
+    a[href^="http"]::after { content: " (" attr(href) ")"; font-size: 0.85em; color: #6b7280; }
+    video { display: none; }
+  }
+`;
+
+const escapeHtml = (text: string) =>
+    text.replace(/[<>&"]/g, char => ({ '<': '&lt;', '>': '&gt;', '&': '&amp;', '"': '&quot;' }[char] as string));
+
+/** Renders markdown to HTML with the exact pipeline the preview pane uses. */
+export const renderMarkdownHtml = (markdown: string, renderHtml = true): string =>
+    renderToStaticMarkup(createElement(MarkdownContent, { markdown, renderHtml }));
+
+/** Renders the document for export: media embedded and Mermaid diagrams drawn, ready for the static render. */
+const renderExportBody = async (markdown: string, renderHtml: boolean): Promise<string> => {
+    await renderDiagrams(markdown);
+    return renderMarkdownHtml(await embedAssets(markdown), renderHtml);
+};
+
+const toDataUrl = async (url: string): Promise<string> => blobToDataUrl(await urlToBlob(url));
+
+/** blob: URLs (generated videos) die with this tab, so a file meant to be shared carries the bytes. */
+const inlineBlobUrls = async (html: string): Promise<string> => {
+    const urls = [...new Set(html.match(/blob:[^"'\s)]+/g) ?? [])];
+    let result = html;
+    for (const url of urls) {
+        try {
+            result = result.split(url).join(await toDataUrl(url));
+        } catch (error) {
+            console.warn(`Could not embed ${url}:`, error);
+        }
+    }
+    return result;
+};
+
+// Front matter becomes the page's meta tags, for search engines and link previews.
+const metaTags = (metadata?: FrontMatter | null) => [
+    ['description', metadata?.description],
+    ['author', metadata?.author],
+    ['keywords', metadata?.tags.join(', ')],
+].filter(([, content]) => content).map(([name, content]) => `<meta name="${name}" content="${escapeHtml(content!)}" />\n`).join('');
+
+const buildHtmlDocument = (title: string, body: string, options: { print?: boolean; metadata?: FrontMatter | null } = {}) => `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="UTF-8" />
+<meta name="viewport" content="width=device-width, initial-scale=1.0" />
+<title>${escapeHtml(title)}</title>
+${metaTags(options.metadata)}${body.includes('class="katex') ? `<link rel="stylesheet" href="${KATEX_STYLESHEET}" />\n` : ''}<style>${EXPORT_STYLES}</style>
+</head>
+<body>
+${options.print ? '<div class="print-bar"><button onclick="window.print()">Print / Save as PDF</button></div>' : ''}
+<main>
+${body}
+</main>
+${options.print ? '<script>window.addEventListener("load", function () { window.print(); });</script>' : ''}
+</body>
+</html>
+`;
+
+/**
+ * Opens a print-optimized copy of the document in a new window and brings up
+ * the browser's print dialog, where "Save as PDF" is available. The window is
+ * opened before anything is awaited: it must come straight from a user gesture
+ * so it isn't blocked.
+ */
+const openPrintView = async (title: string, markdown: string, renderHtml: boolean, metadata: FrontMatter | null) => {
+    const printWindow = window.open('', '_blank');
+    if (!printWindow) {
+        throw new Error('The print view was blocked. Please allow pop-ups for this site and try again.');
+    }
+    try {
+        const body = await renderExportBody(markdown, renderHtml);
+        printWindow.document.open();
+        printWindow.document.write(buildHtmlDocument(title, body, { print: true, metadata }));
+        printWindow.document.close();
+    } catch (error) {
+        printWindow.close();
+        throw error;
+    }
+};
+
+/**
+ * Exports follow the preview's HTML setting: `renderHtml` renders sanitized raw HTML, otherwise it is left out.
+ * A title in the front matter takes precedence over `title`.
+ */
+export const exportDocument = async (format: ExportFormat, documentTitle: string, markdown: string, renderHtml = true) => {
+    const metadata = parseFrontMatter(markdown);
+    const title = metadata?.title || documentTitle;
+    switch (format) {
+        case 'html': {
+            const body = await inlineBlobUrls(await renderExportBody(markdown, renderHtml));
+            downloadText(toFileName(title, 'html'), buildHtmlDocument(title, body, { metadata }), 'text/html');
+            return;
+        }
+        case 'pdf':
+            await openPrintView(title, markdown, renderHtml, metadata);
+            return;
+        case 'docx':
+            downloadBlob(toFileName(title, 'docx'), await createDocx(title, await renderExportBody(markdown, renderHtml)));
+            return;
+    }
+};
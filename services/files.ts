@@ -0,0 +1,21 @@
+// Browser file helpers shared by import/export features.
+
+export const downloadBlob = (filename: string, blob: Blob) => {
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = filename;
+    document.body.appendChild(link);
+    link.click();
+    link.remove();
+    setTimeout(() => URL.revokeObjectURL(url), 0);
+};
+
+export const downloadText = (filename: string, text: string, mimeType = 'text/plain') =>
+    downloadBlob(filename, new Blob([text], { type: `${mimeType};charset=utf-8` }));
+
+/** Turns a document title into a safe download name, e.g. "Q3 plan: draft" -> "Q3 plan draft.html". */
+export const toFileName = (title: string, extension: string) => {
+    const base = title.replace(/[\\/:*?"<>|]+/g, ' ').replace(/\s+/g, ' ').trim() || 'Untitled';
+    return `${base}.${extension}`;
+};
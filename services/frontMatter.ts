@@ -0,0 +1,125 @@
+import { FrontMatter } from '../types';
+import { TextRange } from './textRanges';
+
+// Only a `---` block at the very top of the document counts, as with remark-frontmatter.
+const BLOCK = /^---[ \t]*\n(?:([\s\S]*?)\n)?---[ \t]*(?:\n|$)/;
+const KEY = /^([A-Za-z_][\w-]*)[ \t]*:(?:[ \t]+(.*?))?[ \t]*$/;
+const LIST_ITEM = /^[ \t]*-[ \t]+(.*?)[ \t]*$/;
+const CONTINUATION = /^(?:[ \t]+\S|[ \t]*-[ \t])/;
+// Plain scalars that YAML would read as something else (or not at all) are quoted.
+const NEEDS_QUOTES = /^[\s\-?:,[\]{}#&*!|>'"%@`]|[:#,[\]{}]|\s$|^(?:true|false|yes|no|null|~)$/i;
+
+/** The front matter block including its `---` lines, or null when the document has none. */
+export const frontMatterRange = (markdown: string): TextRange | null => {
+    const match = BLOCK.exec(markdown);
+    return match ? { start: 0, end: match[0].length } : null;
+};
+
+const unquote = (value: string): string => {
+    if (/^".*"$/.test(value)) {
+        try {
+            return JSON.parse(value);
+        } catch {
+            return value.slice(1, -1);
+        }
+    }
+    if (/^'.*'$/.test(value)) return value.slice(1, -1).replace(/''/g, "'");
+    return value.replace(/\s+#.*$/, '');
+};
+
+const quote = (value: string): string => (NEEDS_QUOTES.test(value) ? JSON.stringify(value) : value);
+
+// `[a, "b, c"]` flow lists; commas inside quotes don't split.
+const parseFlowList = (value: string): string[] =>
+    Array.from(value.replace(/^\[|\]$/g, '').matchAll(/\s*("(?:[^"\\]|\\.)*"|'(?:[^']|'')*'|[^,]+)/g), match => unquote(match[1].trim()))
+        .filter(Boolean);
+
+/**
+ * Reads the supported fields from the front matter. Handles the YAML people
+ * actually write by hand: plain or quoted scalars, and tags as `[a, b]`, a
+ * `- item` list or a comma-separated string. Other keys are ignored.
+ */
+export const parseFrontMatter = (markdown: string): FrontMatter | null => {
+    const match = BLOCK.exec(markdown);
+    if (!match) return null;
+    const entries = new Map<string, string | string[]>();
+    let listKey: string | null = null;
+    (match[1] ?? '').split('\n').forEach(line => {
+        const item = LIST_ITEM.exec(line);
+        if (item && listKey) {
+            (entries.get(listKey) as string[]).push(unquote(item[1]));
+            return;
+        }
+        const key = KEY.exec(line);
+        if (!key) return;
+        const [, name, value = ''] = key;
+        const field = name.toLowerCase();
+        listKey = value ? null : field;
+        entries.set(field, !value ? [] : value.startsWith('[') ? parseFlowList(value) : unquote(value));
+    });
+
+    const text = (field: keyof FrontMatter) => {
+        const value = entries.get(field);
+        return Array.isArray(value) ? value.join(', ') : value ?? '';
+    };
+    const tags = entries.get('tags');
+    return {
+        title: text('title'),
+        tags: (Array.isArray(tags) ? tags : (tags ?? '').split(',')).map(tag => tag.trim()).filter(Boolean),
+        author: text('author'),
+        date: text('date'),
+        status: text('status'),
+        description: text('description'),
+    };
+};
+
+const formatField = (field: keyof FrontMatter, value: string | string[]): string[] => {
+    if (Array.isArray(value)) {
+        const items = value.map(item => item.trim()).filter(Boolean);
+        return items.length ? [`${field}: [${items.map(quote).join(', ')}]`] : [];
+    }
+    const text = value.replace(/\s*\n\s*/g, ' ').trim();
+    return text ? [`${field}: ${quote(text)}`] : [];
+};
+
+/**
+ * Writes fields into the front matter, creating the block if needed. Each
+ * field keeps its place; other keys and comments are left as they are. Empty
+ * fields are removed, but the block itself stays (see `removeFrontMatter`).
+ */
+export const updateFrontMatter = (markdown: string, changes: Partial<FrontMatter>): string => {
+    const match = BLOCK.exec(markdown);
+    const lines = match?.[1] ? match[1].split('\n') : [];
+    (Object.keys(changes) as (keyof FrontMatter)[]).forEach(field => {
+        const formatted = formatField(field, changes[field]!);
+        const index = lines.findIndex(line => KEY.exec(line)?.[1].toLowerCase() === field);
+        if (index === -1) {
+            lines.push(...formatted);
+            return;
+        }
+        let end = index + 1;
+        while (end < lines.length && CONTINUATION.test(lines[end])) end++;
+        lines.splice(index, end - index, ...formatted);
+    });
+
+    const body = match ? markdown.substring(match[0].length) : markdown;
+    const isEmpty = !lines.some(line => line.trim());
+    if (isEmpty && !match) return markdown;
+    const separator = match || !body || body.startsWith('\n') ? '' : '\n';
+    return `---\n${isEmpty ? '' : `${lines.join('\n')}\n`}---\n${separator}${body}`;
+};
+
+/** The document without its front matter block. */
+export const removeFrontMatter = (markdown: string): string => {
+    const range = frontMatterRange(markdown);
+    return range ? markdown.substring(range.end).replace(/^\n/, '') : markdown;
+};
+
+/** Every tag in the given documents' tag lists, sorted, with how many documents use it. */
+export const collectTags = (tagLists: string[][]): [string, number][] => {
+    const counts = new Map<string, number>();
+    tagLists.forEach(tags => {
+        new Set(tags).forEach(tag => counts.set(tag, (counts.get(tag) ?? 0) + 1));
+    });
+    return Array.from(counts).sort(([a], [b]) => a.localeCompare(b));
+};
@@ -1,26 +1,23 @@
+import { AiAction, ChatMessage, ImageRequest, StyleProfile, VideoAspectRatio } from '../types';
+import { AiChatSession, getProvider, onAiSettingsChange } from './aiProvider';
+import { formatChatMessage, toChatHistory } from './chatStore';
+import { DEFAULT_STYLE_PROFILES, formatStyleGuide } from './styleProfiles';
+import { extractMermaidSource } from './diagrams';
 
-import { GoogleGenAI, Chat } from "@google/genai";
-import { AiAction, Tone } from '../types';
-
-// Per guidelines, API key must be from process.env.API_KEY
-const apiKey = process.env.API_KEY;
-if (!apiKey) {
-    console.warn("API_KEY environment variable not set. AI features will not work.");
+export interface AiActionOptions {
+    /** The style profile Change Tone rewrites to. */
+    style?: StyleProfile;
+    prompt?: string;
 }
-// FIX: Initialize GoogleGenAI with named apiKey parameter as per guidelines.
-const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-
-// FIX: Select model based on task type, 'gemini-2.5-flash' is suitable for basic text tasks.
-const flash = 'gemini-2.5-flash';
 
-const getPrompt = (action: AiAction, text: string, options?: { tone?: Tone; prompt?: string }): string => {
+const getPrompt = (action: AiAction, text: string, options?: AiActionOptions): string => {
     switch (action) {
         case AiAction.IMPROVE:
             return `Improve the following text for clarity, grammar, and style. Only return the improved text, without any additional commentary:\n\n---\n${text}\n---`;
         case AiAction.SUMMARIZE_SELECTION:
             return `Summarize the following text concisely:\n\n---\n${text}\n---`;
         case AiAction.CHANGE_TONE:
-            return `Rewrite the following text in a ${options?.tone || Tone.PROFESSIONAL} tone. Only return the rewritten text, without any additional commentary:\n\n---\n${text}\n---`;
+            return `Rewrite the following text to follow this style guide. Only return the rewritten text, without any additional commentary.\n\n${formatStyleGuide(options?.style ?? DEFAULT_STYLE_PROFILES[0])}\n\nText to rewrite:\n\n---\n${text}\n---`;
         case AiAction.SUMMARIZE_DOCUMENT:
             return `Provide a concise summary of the following document:\n\n---\n${text}\n---`;
         case AiAction.GENERATE_OUTLINE:
@@ -29,28 +26,30 @@ const getPrompt = (action: AiAction, text: string, options?: { tone?: Tone; prom
             return `Suggest 5 potential titles for the following document. Provide them as a markdown-formatted list, without any introductory text:\n\n---\n${text}\n---`;
         case AiAction.GENERATE_OUTLINE_FROM_PROMPT:
             return `Generate a detailed, markdown-formatted document outline based on the following prompt:\n\n---\n${options?.prompt}\n---`;
+        case AiAction.FIX_PROBLEM:
+            return `Rewrite the following text to fix this problem: ${options?.prompt}\nChange as little as possible and keep any markdown formatting. Only return the rewritten text, without any additional commentary:\n\n---\n${text}\n---`;
+        case AiAction.GENERATE_DIAGRAM:
+            return `Turn the process described below into a Mermaid diagram. Use a flowchart (\`flowchart TD\`) for steps and decisions, or a \`sequenceDiagram\` if it describes messages between participants. Quote node labels that contain punctuation. Only return the Mermaid source, without a code fence or any additional commentary:\n\n---\n${text}\n---`;
+        case AiAction.FILL_TEMPLATE:
+            return `Fill in the following markdown template to write a complete first draft from this brief: ${options?.prompt}\nKeep the template's headings and structure, replace any remaining {{placeholders}} and empty list items, and remove guidance that no longer applies. Only return the document, without a code fence or any additional commentary:\n\n---\n${text}\n---`;
+        case AiAction.GENERATE_DESCRIPTION:
+            return `Write an SEO meta description for the following document: one or two sentences, under 160 characters, that say what a reader will get from it. Only return the description, without quotes or any additional commentary:\n\n---\n${text}\n---`;
         default:
             throw new Error(`Unknown AI action: ${action}`);
     }
 };
 
+/** Runs an AI action to completion. Failures are logged and rethrown. */
 export const runAiAction = async (
     action: AiAction,
     text: string,
-    options?: { tone?: Tone; prompt?:string }
+    options?: AiActionOptions,
+    signal?: AbortSignal
 ): Promise<string> => {
-    if (!apiKey) {
-        return "Error: API_KEY is not configured. Please set the API_KEY environment variable.";
-    }
     try {
         const prompt = getPrompt(action, text, options);
         
-        const response = await ai.models.generateContent({
-            model: flash,
-            contents: prompt,
-        });
-
-        const resultText = response.text;
+        const resultText = await getProvider().generateText(prompt, { signal });
         
         if (!resultText) {
             throw new Error("No text generated by AI.");
@@ -58,115 +57,141 @@ export const runAiAction = async (
         
         return resultText.trim();
     } catch (error) {
-        console.error("Error calling Gemini API:", error);
-        if (error instanceof Error) {
-            return `Error: ${error.message}`;
+        // Cancellation isn't a failure to report; let the caller see it.
+        if (!signal?.aborted) console.error("Error calling AI provider:", error);
+        throw error;
+    }
+};
+
+/**
+ * Drains a text stream, reporting the accumulated text after every chunk.
+ * Aborting via `signal` is not an error: whatever arrived so far is returned.
+ */
+const collectStream = async (
+    stream: AsyncIterable<string>,
+    onText: (text: string) => void,
+    signal?: AbortSignal
+): Promise<string> => {
+    let text = '';
+    try {
+        for await (const chunk of stream) {
+            if (signal?.aborted) break;
+            text += chunk;
+            onText(text);
         }
-        return "An unknown error occurred while contacting the AI service.";
+    } catch (error) {
+        if (!signal?.aborted) throw error;
+    }
+    return text;
+};
+
+/** Streams the response to a ready-made prompt, e.g. a rendered custom action template. */
+export const streamPrompt = async (prompt: string, onText: (text: string) => void, signal?: AbortSignal): Promise<string> => {
+    const result = await collectStream(getProvider().streamText(prompt, { signal }), onText, signal);
+    if (!result && !signal?.aborted) {
+        throw new Error("No text generated by AI.");
+    }
+    return result;
+};
+
+export const streamAiAction = async (
+    action: AiAction,
+    text: string,
+    options: AiActionOptions | undefined,
+    onText: (text: string) => void,
+    signal?: AbortSignal
+): Promise<string> => streamPrompt(getPrompt(action, text, options), onText, signal);
+
+/** Runs a ready-made prompt to completion. Like `runAiAction`, failures are thrown. */
+export const runPrompt = async (prompt: string, signal?: AbortSignal): Promise<string> => {
+    const result = await getProvider().generateText(prompt, { signal });
+    if (!result) {
+        throw new Error("No text generated by AI.");
     }
+    return result.trim();
 };
 
+/** Asks for a Mermaid diagram of the text and returns its source, without fences. Failures are thrown. */
+export const generateDiagram = async (text: string, signal?: AbortSignal): Promise<string> =>
+    extractMermaidSource(await runPrompt(getPrompt(AiAction.GENERATE_DIAGRAM, text), signal));
+
+/** Asks for an SEO description of the document, as a single line without quotes. Failures are thrown. */
+export const generateDescription = async (text: string, signal?: AbortSignal): Promise<string> =>
+    (await runPrompt(getPrompt(AiAction.GENERATE_DESCRIPTION, text), signal)).replace(/\s*\n\s*/g, ' ').replace(/^["'“]|["'”]$/g, '');
+
+/** The titles in a Suggest Titles reply, without list markers, emphasis or quotes. */
+export const parseSuggestedTitles = (reply: string): string[] =>
+    reply.split('\n')
+        .map(line => /^\s*(?:[-*+]|\d+[.)])\s+(.+)$/.exec(line)?.[1] ?? '')
+        .map(title => title.replace(/^(\*\*|__)(.+)\1$/, '$2').replace(/^["'“](.+)["'”]$/, '$1').trim())
+        .filter(Boolean);
+
 // --- New AI Features ---
 
 // Chatbot
-let chat: Chat | null = null;
-const getChat = () => {
+// Live provider chats by session id. A chat belongs to the provider that created it; start over when the settings change.
+const chats = new Map<string, AiChatSession>();
+onAiSettingsChange(() => { chats.clear(); });
+
+/**
+ * Streams a reply in the given chat session. `history` (the session's earlier
+ * messages) is replayed when the session has no live chat yet, e.g. after a reload.
+ */
+export const streamMessageToChat = async (
+    sessionId: string,
+    history: ChatMessage[],
+    message: ChatMessage,
+    onText: (text: string) => void,
+    signal?: AbortSignal
+) => {
+    let chat = chats.get(sessionId);
     if (!chat) {
-        chat = ai.chats.create({
-            model: flash,
-        });
+        chat = getProvider().createChat(toChatHistory(history));
+        chats.set(sessionId, chat);
+    }
+    try {
+        const reply = await collectStream(chat.sendMessageStream(formatChatMessage(message), { signal }), onText, signal);
+        // A cut-off reply leaves the live chat out of step with what is stored; rebuild it next time.
+        if (signal?.aborted || !reply) chats.delete(sessionId);
+        return reply;
+    } catch (error) {
+        chats.delete(sessionId);
+        throw error;
     }
-    return chat;
 };
 
-export const sendMessageToChat = async (message: string) => {
-    if (!apiKey) throw new Error("API Key not configured");
-    const chatInstance = getChat();
-    const response = await chatInstance.sendMessage({ message });
-    return response.text;
+/** Forgets the live chat for a deleted session. */
+export const endChatSession = (sessionId: string) => {
+    chats.delete(sessionId);
 };
 
 // Image Generation
-export const generateImage = async (prompt: string, aspectRatio: string) => {
-    if (!apiKey) throw new Error("API Key not configured");
-    const response = await ai.models.generateImages({
-        model: 'imagen-4.0-generate-001',
-        prompt,
-        config: {
-          numberOfImages: 1,
-          outputMimeType: 'image/png',
-          aspectRatio,
-        },
+export const generateImages = async (request: ImageRequest, signal?: AbortSignal) => {
+    const prompt = request.style ? `${request.prompt}\n\nStyle: ${request.style}` : request.prompt;
+    return getProvider().generateImage(prompt, request.aspectRatio, {
+        count: request.count,
+        negativePrompt: request.negativePrompt,
+        signal,
     });
-    const base64ImageBytes: string = response.generatedImages[0].image.imageBytes;
-    return `data:image/png;base64,${base64ImageBytes}`;
 }
 
-// Video Generation
-export const generateVideo = async (prompt: string, imageBase64: string, aspectRatio: '16:9' | '9:16', onProgress: (message: string) => void) => {
-    if (!apiKey) throw new Error("API Key not configured");
-    onProgress('Starting video generation...');
-    let operation = await ai.models.generateVideos({
-        model: 'veo-3.1-fast-generate-preview',
-        prompt,
-        image: {
-            imageBytes: imageBase64,
-            mimeType: 'image/png',
-        },
-        config: {
-            numberOfVideos: 1,
-            resolution: '720p',
-            aspectRatio: aspectRatio,
-        }
-    });
+/** Asks the model for a variation of an image prompt, to explore alternatives without retyping. */
+export const varyImagePrompt = async (prompt: string, signal?: AbortSignal) => runPrompt(
+    `Rewrite the following image-generation prompt as a fresh variation: keep the subject and intent, but change details such as composition, setting, lighting or color. Only return the new prompt, without any additional commentary:\n\n---\n${prompt}\n---`,
+    signal
+);
 
-    onProgress('Processing video... this can take a few minutes.');
-    while (!operation.done) {
-        await new Promise(resolve => setTimeout(resolve, 10000));
-        onProgress('Checking video status...');
-        operation = await ai.operations.getVideosOperation({ operation: operation });
-    }
+// Video Generation
+export const startVideo = async (prompt: string, imageBase64: string, aspectRatio: VideoAspectRatio, signal?: AbortSignal) => {
+    return getProvider().startVideo(prompt, imageBase64, aspectRatio, { signal });
+}
 
-    onProgress('Video generated successfully!');
-    const downloadLink = operation.response?.generatedVideos?.[0]?.video?.uri;
-    if (!downloadLink) {
-        throw new Error('Video generation finished but no download link was found.');
-    }
-    
-    onProgress('Downloading video data...');
-    // The response.body contains the MP4 bytes. You must append an API key when fetching from the download link.
-    const response = await fetch(`${downloadLink}&key=${process.env.API_KEY}`);
-    const videoBlob = await response.blob();
-    return URL.createObjectURL(videoBlob);
+export const pollVideo = async (operation: string, signal?: AbortSignal) => {
+    return getProvider().pollVideo(operation, { signal });
 }
 
 
 // Grounded Search
-export const runGroundedSearch = async (prompt: string) => {
-    if (!apiKey) throw new Error("API Key not configured");
-    const response = await ai.models.generateContent({
-       model: flash,
-       contents: prompt,
-       config: {
-         tools: [{googleSearch: {}}],
-       },
-    });
-    
-    const text = response.text;
-    const groundingChunks = response.candidates?.[0]?.groundingMetadata?.groundingChunks;
-    
-    let sources = '';
-    if (groundingChunks) {
-        const uniqueUris = new Set<string>();
-        groundingChunks.forEach(chunk => {
-            if (chunk.web?.uri) {
-                uniqueUris.add(chunk.web.uri);
-            }
-        });
-        if (uniqueUris.size > 0) {
-            sources = '\n\n**Sources:**\n' + Array.from(uniqueUris).map((uri, i) => `${i + 1}. [${uri}](${uri})`).join('\n');
-        }
-    }
-    
-    return text + sources;
+export const runGroundedSearch = async (prompt: string, signal?: AbortSignal) => {
+    return getProvider().groundedSearch(prompt, { signal });
 }
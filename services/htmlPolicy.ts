@@ -0,0 +1,112 @@
+import { defaultSchema, type Options as Schema } from 'rehype-sanitize';
+
+interface HastNode {
+    type: string;
+    tagName?: string;
+    value?: string;
+    properties?: Record<string, unknown>;
+    children?: HastNode[];
+}
+
+type AttributeDefinition = NonNullable<Schema['attributes']>[string][number];
+
+// URLs the app itself produces: generated media (data:, blob:) and the media library (asset://).
+const MEDIA_PROTOCOLS = ['http', 'https', 'data', 'blob', 'asset'];
+// Ids must carry the prefix remark-rehype already gives footnote ids (or be its
+// footnote heading's), so raw HTML can't clobber globals like `window.someId`.
+const PREFIXED_ID = /^user-content-/;
+
+/**
+ * What raw HTML in a document may contain, on top of GitHub's rules: media
+ * (figure, video), details/summary and sizing attributes. Everything else,
+ * including scripts, styles, iframes and event handlers, is removed.
+ */
+export const HTML_SCHEMA: Schema = {
+    ...defaultSchema,
+    tagNames: [...(defaultSchema.tagNames ?? []), 'figure', 'figcaption', 'video', 'source'],
+    attributes: {
+        ...defaultSchema.attributes,
+        '*': [
+            ...(defaultSchema.attributes?.['*'] ?? []).filter(name => name !== 'id'),
+            ['id', PREFIXED_ID, 'footnote-label'],
+        ],
+        // Math from remark-math is typeset by rehype-katex, which runs after sanitizing.
+        code: [['className', /^language-./, 'math-inline', 'math-display']],
+        figure: ['dataDiagram'],
+        img: [...(defaultSchema.attributes?.img ?? []), 'loading'],
+        video: ['src', 'poster', 'controls', 'loop', 'muted', 'playsInline', 'preload'],
+        source: [...(defaultSchema.attributes?.source ?? []), 'src', 'type'],
+    },
+    protocols: { ...defaultSchema.protocols, src: MEDIA_PROTOCOLS, poster: MEDIA_PROTOCOLS },
+    clobber: ['name'],
+};
+
+const COMMENT = /^\s*<!--[\s\S]*-->\s*$/;
+
+const attributeName = (property: string) =>
+    property === 'className' ? 'class'
+        : property.startsWith('data') ? property.replace(/[A-Z]/g, char => `-${char.toLowerCase()}`)
+        : property.toLowerCase();
+
+const definitionName = (definition: AttributeDefinition) => (typeof definition === 'string' ? definition : definition[0]);
+
+const allowedValue = (definition: AttributeDefinition | undefined, value: unknown): boolean => {
+    if (!definition || typeof definition === 'string' || definition.length < 2) return true;
+    const values = Array.isArray(value) ? value : [value];
+    return values.every(item => definition.slice(1).some(allowed =>
+        allowed instanceof RegExp ? allowed.test(String(item)) : allowed === item));
+};
+
+const disallowedProtocol = (property: string, value: unknown): string | null => {
+    const protocols = HTML_SCHEMA.protocols?.[property];
+    if (!protocols || typeof value !== 'string') return null;
+    const scheme = /^([a-z][a-z\d+.-]*):/i.exec(value.trim())?.[1].toLowerCase();
+    return scheme && !protocols.includes(scheme) ? scheme : null;
+};
+
+/**
+ * Describes what sanitizing with HTML_SCHEMA will remove from the tree, e.g.
+ * "<script>" or "onerror on <img>". Reporting only: `rehype-sanitize` does the removing.
+ */
+const describeUnsafe = (tree: HastNode, report: (description: string) => void) => {
+    const allowedTags = new Set(HTML_SCHEMA.tagNames);
+    const visit = (node: HastNode) => {
+        if (node.type === 'element' && node.tagName) {
+            const tag = node.tagName;
+            if (!allowedTags.has(tag)) {
+                report(`<${tag}>`);
+            } else {
+                const definitions = [...(HTML_SCHEMA.attributes?.[tag] ?? []), ...(HTML_SCHEMA.attributes?.['*'] ?? [])];
+                Object.entries(node.properties ?? {}).forEach(([property, value]) => {
+                    const definition = definitions.find(candidate => definitionName(candidate) === property);
+                    const scheme = definition ? disallowedProtocol(property, value) : null;
+                    if (!definition || !allowedValue(definition, value)) report(`${attributeName(property)} on <${tag}>`);
+                    else if (scheme) report(`${scheme}: URL in <${tag}>`);
+                });
+            }
+        }
+        node.children?.forEach(visit);
+    };
+    visit(tree);
+};
+
+/** Rehype plugin that passes each kind of content the sanitizer is about to remove to `onStrip`. */
+export const rehypeReportUnsafe = (options: { onStrip: (description: string) => void }) =>
+    (tree: HastNode) => describeUnsafe(tree, options.onStrip);
+
+/**
+ * Rehype plugin for when HTML rendering is off: drops raw HTML (except comments
+ * such as the TOC markers) and reports that it was hidden.
+ */
+export const rehypeDropHtml = (options: { onStrip: (description: string) => void }) => {
+    const drop = (node: HastNode) => {
+        if (!node.children) return;
+        node.children = node.children.filter(child => {
+            if (child.type !== 'raw') return true;
+            if (!COMMENT.test(child.value ?? '')) options.onStrip('raw HTML');
+            return false;
+        });
+        node.children.forEach(drop);
+    };
+    return drop;
+};
@@ -0,0 +1,190 @@
+const BLOCK_TAGS = new Set([
+    'address', 'article', 'aside', 'blockquote', 'body', 'details', 'dd', 'div', 'dl', 'dt', 'figcaption', 'figure',
+    'footer', 'form', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'header', 'hr', 'li', 'main', 'nav', 'ol', 'p', 'pre',
+    'section', 'summary', 'table', 'ul',
+]);
+const IGNORED_TAGS = new Set(['script', 'style', 'noscript', 'template', 'head', 'meta', 'link', 'title', 'iframe', 'object', 'svg']);
+
+const isElement = (node: Node): node is HTMLElement => node.nodeType === Node.ELEMENT_NODE;
+const tagOf = (node: Node) => (isElement(node) ? node.tagName.toLowerCase() : '');
+const isBlock = (node: Node) => BLOCK_TAGS.has(tagOf(node));
+
+const escapeText = (text: string) => text.replace(/([\\`*_[\]<])/g, '\\$1');
+
+/** Moves leading/trailing spaces outside an emphasis marker, which GFM requires. */
+const wrap = (content: string, marker: string) => {
+    const match = /^(\s*)([\s\S]*?)(\s*)$/.exec(content);
+    if (!match || !match[2]) return content;
+    return `${match[1]}${marker}${match[2]}${marker}${match[3]}`;
+};
+
+const codeSpan = (code: string) => {
+    const longest = Math.max(0, ...(code.match(/`+/g) ?? []).map(run => run.length));
+    const fence = '`'.repeat(longest + 1);
+    const padding = code.startsWith('`') || code.endsWith('`') ? ' ' : '';
+    return `${fence}${padding}${code}${padding}${fence}`;
+};
+
+const linkDestination = (url: string) => (/[\s()]/.test(url) ? `<${url.replace(/[<>]/g, encodeURIComponent)}>` : url);
+
+const linkTitle = (element: Element) => {
+    const title = element.getAttribute('title');
+    return title ? ` "${title.replace(/"/g, '\\"')}"` : '';
+};
+
+const image = (element: Element) => {
+    const src = element.getAttribute('src');
+    if (!src) return '';
+    const alt = (element.getAttribute('alt') ?? '').replace(/([[\]\\])/g, '\\$1');
+    return `![${alt}](${linkDestination(src)}${linkTitle(element)})`;
+};
+
+const inline = (nodes: Node[], inTable = false): string => nodes.map(node => {
+    if (node.nodeType === Node.TEXT_NODE) {
+        return escapeText((node.textContent ?? '').replace(/\s+/g, ' '));
+    }
+    if (!isElement(node) || IGNORED_TAGS.has(tagOf(node))) return '';
+    const children = Array.from(node.childNodes);
+    switch (tagOf(node)) {
+        case 'strong':
+            return wrap(inline(children, inTable), '**');
+        case 'b':
+            // Google Docs wraps whole documents in <b style="font-weight:normal">.
+            return /font-weight:\s*(normal|400)/.test(node.getAttribute('style') ?? '')
+                ? inline(children, inTable)
+                : wrap(inline(children, inTable), '**');
+        case 'em':
+        case 'i':
+            return wrap(inline(children, inTable), '*');
+        case 'del':
+        case 's':
+        case 'strike':
+            return wrap(inline(children, inTable), '~~');
+        case 'code':
+        case 'kbd':
+        case 'samp':
+            return codeSpan((node.textContent ?? '').replace(/\s+/g, ' '));
+        case 'br':
+            return inTable ? ' ' : '\\\n';
+        case 'img':
+            return image(node);
+        case 'input':
+            return node.getAttribute('type') === 'checkbox' ? ((node as HTMLInputElement).checked ? '[x] ' : '[ ] ') : '';
+        case 'a': {
+            const text = inline(children, inTable).trim();
+            const href = node.getAttribute('href');
+            if (!href || href.startsWith('#')) return text;
+            if (!text) return '';
+            return text === escapeText(href) && /^https?:/i.test(href) ? `<${href}>` : `[${text}](${linkDestination(href)}${linkTitle(node)})`;
+        }
+        default:
+            return inline(children, inTable);
+    }
+}).join('');
+
+const paragraph = (nodes: Node[]) => inline(nodes).replace(/[ \t]+\n/g, '\n').replace(/^\s+|\s+$/g, '');
+
+// Text that happens to start like a heading, list item or quote must not become one.
+const textBlock = (nodes: Node[]) => paragraph(nodes).replace(/^(#{1,6}\s|[-+]\s|\d+[.)]\s|>)/, '\\$1');
+
+const indent = (text: string, prefix: string) =>
+    text.split('\n').map((line, index) => (index === 0 || !line ? line : prefix + line)).join('\n');
+
+const codeBlock = (element: Element) => {
+    const code = element.querySelector('code') ?? element;
+    const language = /(?:^|\s)(?:language|lang)-([\w+#-]+)/.exec(`${code.className} ${element.className}`)?.[1] ?? '';
+    const text = (code.textContent ?? '').replace(/\n$/, '');
+    const longest = Math.max(2, ...(text.match(/^`{3,}/gm) ?? []).map(run => run.length));
+    const fence = '`'.repeat(longest + 1);
+    return `${fence}${language}\n${text}\n${fence}`;
+};
+
+const table = (element: HTMLTableElement) => {
+    const rows = Array.from(element.rows).map(row =>
+        Array.from(row.cells).map(cell => paragraph(Array.from(cell.childNodes)).replace(/\n/g, ' ').replace(/\|/g, '\\|'))
+    );
+    if (rows.length === 0) return '';
+    const columns = Math.max(...rows.map(row => row.length));
+    const pad = (row: string[]) => [...row, ...Array(columns - row.length).fill('')];
+    const alignments = Array.from(element.rows[0].cells).map(cell => {
+        const align = cell.getAttribute('align') ?? (cell as HTMLElement).style.textAlign;
+        return align === 'center' ? ':---:' : align === 'right' ? '---:' : align === 'left' ? ':---' : '---';
+    });
+    const line = (cells: string[]) => `| ${cells.join(' | ')} |`;
+    return [line(pad(rows[0])), line(pad(alignments).map(cell => cell || '---')), ...rows.slice(1).map(row => line(pad(row)))].join('\n');
+};
+
+const list = (element: Element): string => {
+    const ordered = tagOf(element) === 'ol';
+    let number = Number(element.getAttribute('start')) || 1;
+    return Array.from(element.children)
+        .filter(child => tagOf(child) === 'li')
+        .map(item => {
+            const marker = ordered ? `${number++}. ` : '- ';
+            // Items without paragraphs are "tight": nested lists follow directly on the next line.
+            const loose = Array.from(item.children).some(child => tagOf(child) === 'p');
+            const content = blocks(Array.from(item.childNodes)).join(loose ? '\n\n' : '\n');
+            return marker + indent(content, ' '.repeat(marker.length));
+        })
+        .join('\n');
+};
+
+const block = (element: HTMLElement): string[] => {
+    const tag = tagOf(element);
+    const children = Array.from(element.childNodes);
+    switch (tag) {
+        case 'h1': case 'h2': case 'h3': case 'h4': case 'h5': case 'h6': {
+            const text = paragraph(children).replace(/\\\n/g, ' ');
+            return text ? [`${'#'.repeat(Number(tag[1]))} ${text}`] : [];
+        }
+        case 'p':
+            return [textBlock(children)];
+        case 'ul':
+        case 'ol':
+            return [list(element)];
+        case 'pre':
+            return [codeBlock(element)];
+        case 'blockquote':
+            return [blocks(children).join('\n\n').split('\n').map(line => (line ? `> ${line}` : '>')).join('\n')];
+        case 'table':
+            return [table(element as HTMLTableElement)];
+        case 'hr':
+            return ['---'];
+        case 'figcaption':
+            return [wrap(paragraph(children), '*')];
+        default:
+            return blocks(children);
+    }
+};
+
+/** Converts sibling nodes to markdown blocks, gathering loose inline content into paragraphs. */
+const blocks = (nodes: Node[]): string[] => {
+    const result: string[] = [];
+    let pending: Node[] = [];
+    const flush = () => {
+        const text = textBlock(pending);
+        if (text) result.push(text);
+        pending = [];
+    };
+    for (const node of nodes) {
+        if (isElement(node) && IGNORED_TAGS.has(tagOf(node))) continue;
+        if (isBlock(node)) {
+            flush();
+            result.push(...block(node as HTMLElement).filter(Boolean));
+        } else {
+            pending.push(node);
+        }
+    }
+    flush();
+    return result;
+};
+
+/**
+ * Converts an HTML document or fragment to GitHub-flavored markdown: headings,
+ * emphasis, lists (including task lists), tables, links, images and fenced
+ * code blocks. Unknown elements contribute their text content.
+ */
+export const htmlToMarkdown = (html: string): string => {
+    const body = new DOMParser().parseFromString(html, 'text/html').body;
+    return `${blocks(Array.from(body.childNodes)).join('\n\n').replace(/\n{3,}/g, '\n\n')}\n`;
+};
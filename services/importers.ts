@@ -0,0 +1,24 @@
+import { htmlToMarkdown } from './htmlToMarkdown';
+
+export const IMPORT_ACCEPT = '.md,.markdown,.txt,.html,.htm,text/markdown,text/plain,text/html';
+
+export interface ImportedFile {
+    name: string;
+    markdown: string;
+}
+
+const extensionOf = (name: string) => /\.([^.]+)$/.exec(name)?.[1].toLowerCase() ?? '';
+
+export const isImportable = (file: File) =>
+    ['md', 'markdown', 'txt', 'html', 'htm'].includes(extensionOf(file.name))
+    || ['text/markdown', 'text/plain', 'text/html'].includes(file.type);
+
+/** Reads a .md, .txt or .html file as markdown. Throws for any other file type. */
+export const readImportFile = async (file: File): Promise<ImportedFile> => {
+    if (!isImportable(file)) {
+        throw new Error(`"${file.name}" can't be opened. Supported files are .md, .txt and .html.`);
+    }
+    const text = (await file.text()).replace(/\r\n?/g, '\n');
+    const isHtml = ['html', 'htm'].includes(extensionOf(file.name)) || file.type === 'text/html';
+    return { name: file.name, markdown: isHtml ? htmlToMarkdown(text) : text };
+};
@@ -0,0 +1,194 @@
+import { analyzeLines } from './markdownHighlight';
+import { parseHeadings } from './outline';
+import { TextRange } from './textRanges';
+
+export type LintRuleId = 'passive-voice' | 'repeated-word' | 'long-sentence' | 'weasel-word' | 'broken-link' | 'heading-level';
+
+export type LintSeverity = 'warning' | 'info';
+
+export interface Diagnostic extends TextRange {
+    /** Stable while the flagged text doesn't move: rule plus offset. */
+    id: string;
+    rule: LintRuleId;
+    severity: LintSeverity;
+    message: string;
+    /** The sentence to rewrite when fixing with AI; absent for rules AI can't fix. */
+    fixRange?: TextRange;
+}
+
+export interface LintRule {
+    label: string;
+    severity: LintSeverity;
+}
+
+export const LINT_RULES: Record<LintRuleId, LintRule> = {
+    'passive-voice': { label: 'Passive voice', severity: 'info' },
+    'repeated-word': { label: 'Repeated word', severity: 'warning' },
+    'long-sentence': { label: 'Long sentence', severity: 'info' },
+    'weasel-word': { label: 'Weasel word', severity: 'info' },
+    'broken-link': { label: 'Broken link', severity: 'warning' },
+    'heading-level': { label: 'Heading level', severity: 'warning' },
+};
+
+export interface LintOptions {
+    /** Sentences with more words than this are flagged. */
+    maxSentenceWords: number;
+    disabledRules: LintRuleId[];
+}
+
+export const DEFAULT_LINT_OPTIONS: LintOptions = { maxSentenceWords: 30, disabledRules: [] };
+
+// More than this many problems are not worth rendering; the panel says so.
+export const MAX_DIAGNOSTICS = 500;
+
+const WEASEL_WORDS = [
+    'very', 'really', 'quite', 'extremely', 'fairly', 'rather', 'somewhat', 'basically', 'actually',
+    'clearly', 'obviously', 'simply', 'relatively', 'arguably', 'literally', 'virtually', 'several',
+    'various', 'numerous', 'mostly', 'largely',
+];
+const WEASEL = new RegExp(`\\b(${WEASEL_WORDS.join('|')})\\b`, 'gi');
+const IRREGULAR_PARTICIPLES = [
+    'known', 'made', 'given', 'taken', 'seen', 'done', 'written', 'built', 'shown', 'found', 'held', 'kept',
+    'told', 'sent', 'paid', 'said', 'chosen', 'driven', 'broken', 'spoken', 'thrown', 'drawn', 'grown',
+    'hidden', 'forgotten', 'begun', 'brought', 'bought', 'caught', 'taught', 'thought', 'lost', 'sold',
+    'understood', 'won', 'put', 'set', 'run', 'read', 'left', 'meant',
+];
+const PASSIVE = new RegExp(`\\b(?:am|is|are|was|were|be|been|being)\\s+(?:\\w+ly\\s+)?(?:\\w+ed|${IRREGULAR_PARTICIPLES.join('|')})\\b`, 'gi');
+// Same word twice, separated by spaces or a single line break (not a paragraph break).
+const REPEATED = /\b(\w+)(?:[ \t]+|[ \t]*\n[ \t]*)(\1)\b/gi;
+const SENTENCE = /[^.!?]+(?:[.!?]+["')\]]*|$)/g;
+const WORD = /[\p{L}\p{N}'’-]+/gu;
+
+const INLINE_LINK = /(!?)\[([^\]]*)\]\(([^)\s]*)(?:\s+"[^"]*")?\)/g;
+const REFERENCE_LINK = /(?<!!)\[([^\]^][^\]]*)\]\[([^\]]*)\]/g;
+const FOOTNOTE_REFERENCE = /\[\^([^\]\s]+)\](?!:)/g;
+const REFERENCE_DEFINITION = /^\s{0,3}\[([^\]]+)\]:\s*\S/;
+
+// Parts of a line that aren't prose: code, math, URLs, HTML and link targets.
+const NON_PROSE = /(`+)[^`].*?\1|\$\$?[^$\n]+\$\$?|<\/?[a-zA-Z!][^>]*>|https?:\/\/[^\s)<]+|\]\([^)]*\)|\[\^[^\]]+\]/g;
+const LEADING_MARKERS = /^\s*(?:>\s?)*(?:(?:[-*+]|\d+[.)])\s+(?:\[[ xX]\]\s+)?)?/;
+const BLOCK_START = /^\s*(?:#{1,6}\s|[-*+]\s|\d+[.)]\s|>|\||\[\^[^\]]+\]:)/;
+const SKIPPED_BLOCK = /^\s*(?:#{1,6}\s|\||\[\^[^\]]+\]:|\[[^\]]+\]:)/;
+
+const blank = (text: string) => text.replace(/[^\n]/g, ' ');
+
+/**
+ * The document with everything that isn't prose blanked out, offsets intact,
+ * split into blocks (paragraphs, list items, headings) that sentences can't cross.
+ */
+const proseBlocks = (markdown: string): { text: string; start: number; isProse: boolean }[] => {
+    const blocks: { text: string; start: number; isProse: boolean }[] = [];
+    let current: { text: string; start: number; isProse: boolean } | null = null;
+    analyzeLines(markdown).forEach(line => {
+        const text = line.kind === 'text' ? line.text.replace(LEADING_MARKERS, blank).replace(NON_PROSE, blank) : blank(line.text);
+        const isBlank = !text.trim();
+        if (isBlank || BLOCK_START.test(line.text) || !current) {
+            if (current) blocks.push(current);
+            current = isBlank ? null : { text, start: line.start, isProse: !SKIPPED_BLOCK.test(line.text) };
+            return;
+        }
+        current.text += `\n${text}`;
+    });
+    if (current) blocks.push(current);
+    return blocks;
+};
+
+const slugs = (markdown: string) => new Set(parseHeadings(markdown).map(heading => heading.slug));
+
+const decodeAnchor = (anchor: string) => {
+    try {
+        return decodeURIComponent(anchor);
+    } catch {
+        return anchor;
+    }
+};
+
+const lintLinks = (markdown: string, add: (rule: LintRuleId, range: TextRange, message: string) => void) => {
+    const anchors = slugs(markdown);
+    const definitions = new Set<string>();
+    const footnotes = new Set<string>();
+    const lines = analyzeLines(markdown).filter(line => line.kind === 'text');
+    lines.forEach(line => {
+        const definition = REFERENCE_DEFINITION.exec(line.text)?.[1];
+        if (!definition) return;
+        if (definition.startsWith('^')) footnotes.add(definition.substring(1));
+        else definitions.add(definition.toLowerCase());
+    });
+    lines.forEach(({ text, start }) => {
+        // Links inside inline code are examples, not links.
+        const source = text.replace(/(`+)[^`].*?\1/g, blank);
+        for (const match of source.matchAll(INLINE_LINK)) {
+            const range = { start: start + match.index!, end: start + match.index! + match[0].length };
+            const target = match[3];
+            if (!target) add('broken-link', range, `${match[1] ? 'Image' : 'Link'} has no target.`);
+            else if (target.startsWith('#') && !anchors.has(decodeAnchor(target.substring(1)))) {
+                add('broken-link', range, `No heading matches the anchor "${target}".`);
+            }
+        }
+        for (const match of source.matchAll(REFERENCE_LINK)) {
+            const label = (match[2] || match[1]).toLowerCase();
+            if (!definitions.has(label)) {
+                add('broken-link', { start: start + match.index!, end: start + match.index! + match[0].length }, `No definition for the link reference "${match[2] || match[1]}".`);
+            }
+        }
+        for (const match of source.matchAll(FOOTNOTE_REFERENCE)) {
+            if (!footnotes.has(match[1])) {
+                add('broken-link', { start: start + match.index!, end: start + match.index! + match[0].length }, `Footnote [^${match[1]}] has no definition.`);
+            }
+        }
+    });
+};
+
+const lintHeadings = (markdown: string, add: (rule: LintRuleId, range: TextRange, message: string) => void) => {
+    let previous = 0;
+    parseHeadings(markdown).forEach(heading => {
+        if (previous && heading.level > previous + 1) {
+            const end = markdown.indexOf('\n', heading.start);
+            add('heading-level', { start: heading.start, end: end === -1 ? markdown.length : end },
+                `Heading skips from level ${previous} to level ${heading.level}.`);
+        }
+        previous = heading.level;
+    });
+};
+
+/** Runs every enabled rule over `markdown`. Diagnostics are sorted by position. */
+export const lintMarkdown = (markdown: string, options: LintOptions = DEFAULT_LINT_OPTIONS): Diagnostic[] => {
+    const disabled = new Set(options.disabledRules);
+    const diagnostics: Diagnostic[] = [];
+    const add = (rule: LintRuleId, range: TextRange, message: string, fixRange?: TextRange) => {
+        if (disabled.has(rule)) return;
+        diagnostics.push({ id: `${rule}:${range.start}`, rule, severity: LINT_RULES[rule].severity, message, ...range, fixRange });
+    };
+
+    proseBlocks(markdown).filter(block => block.isProse).forEach(block => {
+        for (const sentenceMatch of block.text.matchAll(SENTENCE)) {
+            const raw = sentenceMatch[0];
+            const offset = block.start + sentenceMatch.index!;
+            const leading = raw.length - raw.trimStart().length;
+            const sentence = { start: offset + leading, end: offset + raw.trimEnd().length };
+            if (sentence.end <= sentence.start) continue;
+            const text = raw.substring(leading, raw.trimEnd().length);
+            const at = (index: number, length: number) => ({ start: sentence.start + index, end: sentence.start + index + length });
+
+            const words = text.match(WORD)?.length ?? 0;
+            if (words > options.maxSentenceWords) {
+                add('long-sentence', sentence, `Sentence has ${words} words; consider splitting it (limit ${options.maxSentenceWords}).`, sentence);
+            }
+            for (const match of text.matchAll(PASSIVE)) {
+                add('passive-voice', at(match.index!, match[0].length), `"${match[0]}" may be passive voice.`, sentence);
+            }
+            for (const match of text.matchAll(WEASEL)) {
+                add('weasel-word', at(match.index!, match[0].length), `"${match[0]}" weakens the sentence; be specific or remove it.`, sentence);
+            }
+            for (const match of text.matchAll(REPEATED)) {
+                // Numbers repeat legitimately ("1 1"); only words are flagged.
+                if (/^\d+$/.test(match[1])) continue;
+                add('repeated-word', at(match.index!, match[0].length), `"${match[1]}" is repeated.`, sentence);
+            }
+        }
+    });
+    lintLinks(markdown, add);
+    lintHeadings(markdown, add);
+
+    return diagnostics.sort((a, b) => a.start - b.start || a.end - b.end).slice(0, MAX_DIAGNOSTICS);
+};
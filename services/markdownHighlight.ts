@@ -0,0 +1,140 @@
+import { frontMatterRange } from './frontMatter';
+
+export type TokenType =
+    | 'heading' | 'marker' | 'strong' | 'emphasis' | 'strike' | 'code'
+    | 'link' | 'url' | 'html' | 'quote' | 'fence' | 'codeBlock';
+
+export interface Token {
+    text: string;
+    type?: TokenType;
+}
+
+export type LineKind = 'text' | 'fence' | 'code';
+
+export interface LineInfo {
+    text: string;
+    /** Offset of the line's first character in the document. */
+    start: number;
+    kind: LineKind;
+}
+
+const FENCE = /^\s*(`{3,}|~{3,})/;
+const HEADING = /^(#{1,6})(\s.*)?$/;
+const RULE = /^\s*([-*_])(\s*\1){2,}\s*$/;
+const QUOTE_PREFIX = /^\s*(?:>\s?)+/;
+const LIST_PREFIX = /^(\s*)([-*+]|\d+[.)])(\s+)(\[[ xX]\](?=\s))?/;
+
+const INLINE = new RegExp([
+    '(?<code>(`+)[^`].*?\\2)',
+    '(?<image>!\\[[^\\]]*\\]\\([^)]*\\))',
+    '(?<link>\\[[^\\]]+\\])(?<href>\\([^)]*\\))',
+    '(?<footnote>\\[\\^[^\\]]+\\])',
+    '(?<autolink><https?:[^>\\s]+>|https?:\\/\\/[^\\s)<]+)',
+    '(?<strong>(\\*\\*|__)(?=\\S).+?(?<=\\S)\\9)',
+    '(?<strike>~~(?=\\S).+?(?<=\\S)~~)',
+    '(?<emphasis>([*_])(?=\\S).+?(?<=\\S)\\12)',
+    '(?<html><\\/?[a-zA-Z][^>]*>)',
+    '(?<pipe>\\|)',
+].join('|'), 'g');
+
+const INLINE_TYPES: Record<string, TokenType> = {
+    code: 'code', image: 'url', link: 'link', href: 'url', footnote: 'link', autolink: 'url',
+    strong: 'strong', strike: 'strike', emphasis: 'emphasis', html: 'html', pipe: 'marker',
+};
+
+const tokenizeInline = (text: string, base?: TokenType): Token[] => {
+    const tokens: Token[] = [];
+    let last = 0;
+    for (const match of text.matchAll(INLINE)) {
+        const index = match.index ?? 0;
+        if (index > last) tokens.push({ text: text.substring(last, index), type: base });
+        for (const [group, value] of Object.entries(match.groups ?? {})) {
+            if (value !== undefined && INLINE_TYPES[group]) tokens.push({ text: value, type: INLINE_TYPES[group] });
+        }
+        last = index + match[0].length;
+    }
+    if (last < text.length) tokens.push({ text: text.substring(last), type: base });
+    return tokens;
+};
+
+/**
+ * Splits the document into lines, marking code fences and the code between
+ * them. Front matter is marked the same way: its `---` lines as fences, the YAML as code.
+ */
+export const analyzeLines = (value: string): LineInfo[] => {
+    const lines: LineInfo[] = [];
+    const frontMatterEnd = frontMatterRange(value)?.end ?? 0;
+    let offset = 0;
+    let openFence: string | null = null;
+    for (const text of value.split('\n')) {
+        const fence = FENCE.exec(text)?.[1];
+        let kind: LineKind = openFence ? 'code' : 'text';
+        if (offset < frontMatterEnd) {
+            kind = offset === 0 || offset + text.length + 1 >= frontMatterEnd ? 'fence' : 'code';
+        } else if (fence && (!openFence || (fence[0] === openFence[0] && fence.length >= openFence.length && !text.trim().substring(fence.length)))) {
+            kind = 'fence';
+            openFence = openFence ? null : fence;
+        }
+        lines.push({ text, start: offset, kind });
+        offset += text.length + 1;
+    }
+    return lines;
+};
+
+/** Colors one line of markdown. Token texts always concatenate back to the line. */
+export const highlightLine = (text: string, kind: LineKind): Token[] => {
+    if (kind === 'fence') return [{ text, type: 'fence' }];
+    if (kind === 'code') return [{ text, type: 'codeBlock' }];
+    if (HEADING.test(text)) return [{ text, type: 'heading' }];
+    if (RULE.test(text)) return [{ text, type: 'marker' }];
+
+    const tokens: Token[] = [];
+    let rest = text;
+    let base: TokenType | undefined;
+    const quote = QUOTE_PREFIX.exec(rest);
+    if (quote) {
+        tokens.push({ text: quote[0], type: 'marker' });
+        rest = rest.substring(quote[0].length);
+        base = 'quote';
+    }
+    const list = LIST_PREFIX.exec(rest);
+    if (list) {
+        tokens.push({ text: list[0], type: 'marker' });
+        rest = rest.substring(list[0].length);
+    }
+    return [...tokens, ...tokenizeInline(rest, base)];
+};
+
+const OPENERS: Record<string, string> = { '(': ')', '[': ']', '{': '}' };
+const CLOSERS: Record<string, string> = { ')': '(', ']': '[', '}': '{' };
+
+/**
+ * Finds the bracket next to the caret and its partner when both sit inside
+ * the same fenced code block. Returns their document offsets.
+ */
+export const findMatchingBracket = (lines: LineInfo[], caret: number): [number, number] | null => {
+    const lineIndex = lines.findIndex(line => caret >= line.start && caret <= line.start + line.text.length);
+    if (lineIndex === -1 || lines[lineIndex].kind !== 'code') return null;
+
+    let first = lineIndex;
+    while (first > 0 && lines[first - 1].kind === 'code') first--;
+    let last = lineIndex;
+    while (last < lines.length - 1 && lines[last + 1].kind === 'code') last++;
+    const blockStart = lines[first].start;
+    const code = lines.slice(first, last + 1).map(line => line.text).join('\n');
+    const at = caret - blockStart;
+
+    for (const position of [at - 1, at]) {
+        const char = code[position];
+        const partner = OPENERS[char] ?? CLOSERS[char];
+        if (!partner) continue;
+        const step = OPENERS[char] ? 1 : -1;
+        let depth = 0;
+        for (let i = position; i >= 0 && i < code.length; i += step) {
+            if (code[i] === char) depth++;
+            else if (code[i] === partner && --depth === 0) return [blockStart + position, blockStart + i];
+        }
+        return null;
+    }
+    return null;
+};
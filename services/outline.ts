@@ -0,0 +1,133 @@
+import { analyzeLines } from './markdownHighlight';
+
+export interface Heading {
+    level: number;
+    text: string;
+    /** 1-based source line, matching the preview's `data-source-line`. */
+    line: number;
+    /** Offset of the heading line in the document. */
+    start: number;
+    /** Anchor id, as GitHub generates it for rendered headings. */
+    slug: string;
+}
+
+export const TOC_START = '<!-- toc -->';
+export const TOC_END = '<!-- /toc -->';
+
+const ATX_HEADING = /^(#{1,6})\s+(.*?)(?:\s+#+)?\s*$/;
+
+const plainText = (markdown: string) => markdown
+    .replace(/!?\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/[`*_~]/g, '')
+    .replace(/<[^>]+>/g, '')
+    .trim();
+
+const slugify = (text: string) => text.toLowerCase().replace(/[^\p{L}\p{N}\s_-]/gu, '').trim().replace(/\s/g, '-');
+
+interface HastNode {
+    type: string;
+    tagName?: string;
+    value?: string;
+    properties?: Record<string, unknown>;
+    children?: HastNode[];
+}
+
+const hastText = (node: HastNode): string => node.value ?? (node.children ?? []).map(hastText).join('');
+
+/**
+ * Rehype plugin giving rendered headings the same ids `parseHeadings`
+ * computes, so table-of-contents links resolve in the preview and exports.
+ */
+export const rehypeHeadingIds = () => (tree: HastNode) => {
+    const seen = new Map<string, number>();
+    const visit = (node: HastNode) => {
+        if (node.type === 'element' && /^h[1-6]$/.test(node.tagName ?? '')) {
+            const base = slugify(hastText(node).trim());
+            const count = seen.get(base) ?? 0;
+            seen.set(base, count + 1);
+            node.properties = { ...node.properties, id: count ? `${base}-${count}` : base };
+            return;
+        }
+        node.children?.forEach(visit);
+    };
+    visit(tree);
+};
+
+/** Lists the document's ATX headings (`#`..`######`), skipping fenced code. */
+export const parseHeadings = (markdown: string): Heading[] => {
+    const headings: Heading[] = [];
+    const seen = new Map<string, number>();
+    analyzeLines(markdown).forEach((line, index) => {
+        if (line.kind !== 'text') return;
+        const match = ATX_HEADING.exec(line.text);
+        if (!match) return;
+        const text = plainText(match[2]);
+        const base = slugify(text);
+        const count = seen.get(base) ?? 0;
+        seen.set(base, count + 1);
+        headings.push({ level: match[1].length, text, line: index + 1, start: line.start, slug: count ? `${base}-${count}` : base });
+    });
+    return headings;
+};
+
+/** The end offset of a heading's section: the next heading at the same or a higher level. */
+export const sectionEnd = (markdown: string, headings: Heading[], index: number) => {
+    const { level } = headings[index];
+    const next = headings.slice(index + 1).find(heading => heading.level <= level);
+    return next ? next.start : markdown.length;
+};
+
+const withTrailingNewline = (text: string) => (text.endsWith('\n') ? text : `${text}\n`);
+
+/**
+ * Moves the section at `from` (with its subsections) so it starts where the
+ * heading at `to` currently starts, or to the end when `to` equals the
+ * number of headings. Returns null for a no-op or a move into itself.
+ */
+export const moveSection = (markdown: string, from: number, to: number): string | null => {
+    const headings = parseHeadings(markdown);
+    if (!headings[from] || to < 0 || to > headings.length) return null;
+    const start = headings[from].start;
+    const end = sectionEnd(markdown, headings, from);
+    const target = to === headings.length ? markdown.length : headings[to].start;
+    if (target >= start && target <= end) return null;
+
+    const section = withTrailingNewline(markdown.substring(start, end));
+    const rest = markdown.substring(0, start) + markdown.substring(end);
+    const at = target > end ? target - (end - start) : target;
+    const before = rest.substring(0, at);
+    // A section moved to the end needs a line break before it.
+    const separator = before && !before.endsWith('\n') ? '\n\n' : '';
+    return before + separator + section + rest.substring(at);
+};
+
+/** Builds a nested, linked list of the headings, indented relative to the shallowest one. */
+export const buildToc = (headings: Heading[]): string => {
+    if (headings.length === 0) return '';
+    const minLevel = Math.min(...headings.map(heading => heading.level));
+    return headings
+        .map(heading => `${'  '.repeat(heading.level - minLevel)}- [${heading.text.replace(/([[\]])/g, '\\$1')}](#${heading.slug})`)
+        .join('\n');
+};
+
+const tocBlock = (markdown: string) => `${TOC_START}\n${buildToc(parseHeadings(markdown))}\n${TOC_END}`;
+
+/** Rewrites the table of contents between the TOC markers, if the document has one. */
+export const refreshToc = (markdown: string): string => {
+    const start = markdown.indexOf(TOC_START);
+    const end = markdown.indexOf(TOC_END, start);
+    if (start === -1 || end === -1) return markdown;
+    const current = markdown.substring(start, end + TOC_END.length);
+    const next = tocBlock(markdown);
+    return current === next ? markdown : markdown.substring(0, start) + next + markdown.substring(end + TOC_END.length);
+};
+
+/** Inserts a table of contents at `position`, or refreshes the existing one. */
+export const insertToc = (markdown: string, position: number): string => {
+    if (markdown.includes(TOC_START) && markdown.includes(TOC_END)) return refreshToc(markdown);
+    const before = markdown.substring(0, position);
+    const after = markdown.substring(position);
+    const prefix = before && !before.endsWith('\n\n') ? (before.endsWith('\n') ? '\n' : '\n\n') : '';
+    const suffix = after.startsWith('\n\n') ? '' : after.startsWith('\n') ? '\n' : '\n\n';
+    return refreshToc(`${before}${prefix}${TOC_START}\n${TOC_END}${suffix}${after}`);
+};
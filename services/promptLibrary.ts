@@ -0,0 +1,103 @@
+import { CustomAction, CustomActionOutput, CustomActionScope } from '../types';
+import { createId } from './storage';
+
+const LIBRARY_KEY = 'sams-ai-writer:custom-actions';
+const EXPORT_FORMAT = 'sams-ai-writer/custom-actions';
+
+const SCOPES: CustomActionScope[] = ['selection', 'document'];
+const OUTPUTS: CustomActionOutput[] = ['replace', 'insert-below', 'modal'];
+
+// {{tone}} is the selected style profile's name; {{style}} is its full style guide.
+export const TEMPLATE_VARIABLES = ['selection', 'document', 'tone', 'style'] as const;
+
+export type TemplateVariables = Partial<Record<typeof TEMPLATE_VARIABLES[number], string>>;
+
+export const DEFAULT_CUSTOM_ACTIONS: CustomAction[] = [
+    {
+        id: 'release-notes',
+        name: 'Convert to release notes',
+        template: 'Rewrite the following text as concise, user-facing release notes in a markdown bullet list. Only return the release notes:\n\n---\n{{selection}}\n---',
+        scope: 'selection',
+        output: 'replace',
+    },
+    {
+        id: 'tweet-thread',
+        name: 'Make it a tweet thread',
+        template: 'Turn the following document into a numbered thread of tweets, each under 280 characters, in a {{tone}} tone:\n\n---\n{{document}}\n---',
+        scope: 'document',
+        output: 'modal',
+    },
+];
+
+/** Substitutes `{{name}}` placeholders; unknown placeholders are left as written. */
+export const renderTemplate = (template: string, variables: TemplateVariables): string =>
+    template.replace(/\{\{\s*(\w+)\s*\}\}/g, (match, name: string) => {
+        const value = variables[name as keyof TemplateVariables];
+        return value === undefined ? match : value;
+    });
+
+export const loadCustomActions = (): CustomAction[] => {
+    try {
+        const stored = localStorage.getItem(LIBRARY_KEY);
+        return stored ? parseCustomActions(stored) : DEFAULT_CUSTOM_ACTIONS;
+    } catch (error) {
+        console.warn('Could not load custom actions:', error);
+        return DEFAULT_CUSTOM_ACTIONS;
+    }
+};
+
+export const saveCustomActions = (actions: CustomAction[]) => {
+    try {
+        localStorage.setItem(LIBRARY_KEY, JSON.stringify(actions));
+    } catch (error) {
+        console.warn('Could not persist custom actions:', error);
+    }
+};
+
+export const exportCustomActions = (actions: CustomAction[]): string =>
+    JSON.stringify({ format: EXPORT_FORMAT, version: 1, actions }, null, 2);
+
+/**
+ * Parses either an export file or a bare array of actions.
+ * Throws an Error describing the first invalid entry.
+ */
+export const parseCustomActions = (json: string): CustomAction[] => {
+    let data: unknown;
+    try {
+        data = JSON.parse(json);
+    } catch {
+        throw new Error('The file is not valid JSON.');
+    }
+    const list = Array.isArray(data) ? data : (data as { actions?: unknown })?.actions;
+    if (!Array.isArray(list)) {
+        throw new Error('Expected a list of custom actions.');
+    }
+    return list.map((item, index) => {
+        const entry = item as Partial<CustomAction>;
+        if (typeof entry?.name !== 'string' || !entry.name.trim()) {
+            throw new Error(`Action #${index + 1} is missing a name.`);
+        }
+        if (typeof entry.template !== 'string' || !entry.template.trim()) {
+            throw new Error(`Action "${entry.name}" is missing a prompt template.`);
+        }
+        if (!SCOPES.includes(entry.scope as CustomActionScope)) {
+            throw new Error(`Action "${entry.name}" has an invalid scope; expected ${SCOPES.join(' or ')}.`);
+        }
+        if (!OUTPUTS.includes(entry.output as CustomActionOutput)) {
+            throw new Error(`Action "${entry.name}" has an invalid output mode; expected ${OUTPUTS.join(', ')}.`);
+        }
+        return {
+            id: typeof entry.id === 'string' && entry.id ? entry.id : createId(),
+            name: entry.name.trim(),
+            template: entry.template,
+            scope: entry.scope as CustomActionScope,
+            output: entry.output as CustomActionOutput,
+        };
+    });
+};
+
+/** Adds imported actions to the library, replacing any with the same id. */
+export const mergeCustomActions = (existing: CustomAction[], imported: CustomAction[]): CustomAction[] => {
+    const importedIds = new Set(imported.map(action => action.id));
+    return [...existing.filter(action => !importedIds.has(action.id)), ...imported];
+};
@@ -0,0 +1,159 @@
+import { GenerateVideosOperation, GoogleGenAI } from "@google/genai";
+import { AiProvider, GroundingSource, GroundingSupport } from '../aiProvider';
+
+interface GeminiConfig {
+    apiKey?: string;
+    model: string;
+}
+
+const IMAGE_MODEL = 'imagen-4.0-generate-001';
+const VIDEO_MODEL = 'veo-3.1-fast-generate-preview';
+
+// Grounding segments are measured in UTF-8 bytes; convert them to string offsets.
+const byteOffsetToIndex = (bytes: Uint8Array, offset: number) =>
+    new TextDecoder().decode(bytes.subarray(0, offset)).length;
+
+export const createGeminiProvider = ({ apiKey, model }: GeminiConfig): AiProvider => {
+    if (!apiKey) {
+        console.warn("API_KEY environment variable not set. Gemini features will not work.");
+    }
+    const ai = new GoogleGenAI({ apiKey });
+
+    const requireKey = () => {
+        if (!apiKey) throw new Error("API_KEY is not configured. Please set the API_KEY environment variable.");
+    };
+
+    return {
+        id: 'gemini',
+
+        generateText: async (prompt, options) => {
+            requireKey();
+            const response = await ai.models.generateContent({ model, contents: prompt, config: { abortSignal: options?.signal } });
+            return response.text ?? '';
+        },
+
+        streamText: async function* (prompt, options) {
+            requireKey();
+            const stream = await ai.models.generateContentStream({
+                model,
+                contents: prompt,
+                config: { abortSignal: options?.signal },
+            });
+            for await (const chunk of stream) {
+                if (chunk.text) yield chunk.text;
+            }
+        },
+
+        createChat: (history = []) => {
+            const chat = ai.chats.create({
+                model,
+                history: history.map(turn => ({ role: turn.role, parts: [{ text: turn.text }] })),
+            });
+            return {
+                sendMessageStream: async function* (message, options) {
+                    requireKey();
+                    const stream = await chat.sendMessageStream({ message, config: { abortSignal: options?.signal } });
+                    for await (const chunk of stream) {
+                        if (chunk.text) yield chunk.text;
+                    }
+                },
+            };
+        },
+
+        generateImage: async (prompt, aspectRatio, options) => {
+            requireKey();
+            const response = await ai.models.generateImages({
+                model: IMAGE_MODEL,
+                prompt,
+                config: {
+                    numberOfImages: options?.count ?? 1,
+                    negativePrompt: options?.negativePrompt || undefined,
+                    outputMimeType: 'image/png',
+                    aspectRatio,
+                    abortSignal: options?.signal,
+                },
+            });
+            const images = (response.generatedImages ?? [])
+                .map(generated => generated.image?.imageBytes)
+                .filter((bytes): bytes is string => !!bytes);
+            if (images.length === 0) throw new Error('No image was generated.');
+            return images.map(bytes => `data:image/png;base64,${bytes}`);
+        },
+
+        startVideo: async (prompt, imageBase64, aspectRatio, options) => {
+            requireKey();
+            const operation = await ai.models.generateVideos({
+                model: VIDEO_MODEL,
+                prompt,
+                image: {
+                    imageBytes: imageBase64,
+                    mimeType: 'image/png',
+                },
+                config: {
+                    numberOfVideos: 1,
+                    resolution: '720p',
+                    aspectRatio: aspectRatio,
+                    abortSignal: options?.signal,
+                }
+            });
+            if (!operation.name) throw new Error('Video generation did not return an operation to follow.');
+            return operation.name;
+        },
+
+        pollVideo: async (name, options) => {
+            const signal = options?.signal;
+            requireKey();
+            // Only the name is persisted; rebuild the operation around it to ask for its status.
+            const pending = new GenerateVideosOperation();
+            pending.name = name;
+            const operation = await ai.operations.getVideosOperation({ operation: pending, config: { abortSignal: signal } });
+            if (!operation.done) return null;
+            if (operation.error) {
+                throw new Error(`Video generation failed: ${operation.error.message ?? 'unknown error'}`);
+            }
+            const downloadLink = operation.response?.generatedVideos?.[0]?.video?.uri;
+            if (!downloadLink) {
+                throw new Error('Video generation finished but no download link was found.');
+            }
+            // The response.body contains the MP4 bytes. You must append an API key when fetching from the download link.
+            const response = await fetch(`${downloadLink}&key=${apiKey}`, { signal });
+            if (!response.ok) throw new Error(`Downloading the video failed (${response.status}).`);
+            return response.blob();
+        },
+
+        groundedSearch: async (prompt, options) => {
+            requireKey();
+            const response = await ai.models.generateContent({
+                model,
+                contents: prompt,
+                config: {
+                    tools: [{ googleSearch: {} }],
+                    abortSignal: options?.signal,
+                },
+            });
+            const text = response.text ?? '';
+            const metadata = response.candidates?.[0]?.groundingMetadata;
+            const sources: GroundingSource[] = [];
+            // Chunk indices in the supports refer to the full chunk list, which may include non-web chunks.
+            const sourceIndexByChunk = new Map<number, number>();
+            metadata?.groundingChunks?.forEach((chunk, index) => {
+                if (!chunk.web?.uri) return;
+                sourceIndexByChunk.set(index, sources.length);
+                sources.push({ uri: chunk.web.uri, title: chunk.web.title });
+            });
+            const bytes = new TextEncoder().encode(text);
+            const supports: GroundingSupport[] = (metadata?.groundingSupports ?? []).flatMap(support => {
+                const sourceIndices = (support.groundingChunkIndices ?? [])
+                    .map(index => sourceIndexByChunk.get(index))
+                    .filter((index): index is number => index !== undefined);
+                if (!support.segment?.endIndex || sourceIndices.length === 0) return [];
+                return [{
+                    startIndex: byteOffsetToIndex(bytes, support.segment.startIndex ?? 0),
+                    endIndex: byteOffsetToIndex(bytes, support.segment.endIndex),
+                    sourceIndices,
+                }];
+            });
+            return { text, sources, supports };
+        },
+    };
+};
@@ -0,0 +1,79 @@
+import { AiProvider } from '../aiProvider';
+
+interface MockConfig {
+    model: string;
+}
+
+// Prompts wrap their input in `---` fences; echo that part back so results stay related to the input.
+const extractBody = (prompt: string): string => {
+    const match = /---\n([\s\S]*?)\n---/.exec(prompt);
+    return (match ? match[1] : prompt).trim();
+};
+
+// Emits the text word by word to mimic a streaming backend.
+const streamWords = async function* (text: string, signal?: AbortSignal): AsyncGenerator<string> {
+    for (const word of text.match(/\S+\s*/g) || []) {
+        if (signal?.aborted) return;
+        await new Promise(resolve => setTimeout(resolve, 20));
+        yield word;
+    }
+};
+
+const MOCK_IMAGE_COLORS = ['#e0e7ff', '#fce7f3', '#dcfce7', '#fef3c7'];
+
+const escapeXml = (text: string) =>
+    text.replace(/[<>&"']/g, char => `&#${char.charCodeAt(0)};`);
+
+/**
+ * A deterministic, network-free provider for development without an API key or network.
+ * The same input always produces the same output.
+ */
+export const createMockProvider = ({ model }: MockConfig): AiProvider => ({
+    id: 'mock',
+
+    generateText: async (prompt) => `[${model}] ${extractBody(prompt)}`,
+
+    streamText: (prompt, options) => streamWords(`[${model}] ${extractBody(prompt)}`, options?.signal),
+
+    createChat: (history = []) => {
+        let turn = history.filter(entry => entry.role === 'user').length;
+        const reply = (message: string) => {
+            turn++;
+            return `[${model}] Reply #${turn} to: "${message}"`;
+        };
+        return {
+            sendMessageStream: (message, options) => streamWords(reply(message), options?.signal),
+        };
+    },
+
+    generateImage: async (prompt, aspectRatio, options) => {
+        const [w, h] = aspectRatio.split(':').map(Number);
+        const width = 512;
+        const height = Math.round((width * (h || 1)) / (w || 1));
+        // Each image in a batch gets its own background so they can be told apart.
+        return MOCK_IMAGE_COLORS.slice(0, options?.count ?? 1).map(fill => {
+            const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}"><rect width="100%" height="100%" fill="${fill}"/><text x="50%" y="50%" dominant-baseline="middle" text-anchor="middle" font-family="sans-serif" font-size="20" fill="#4338ca">${escapeXml(prompt.slice(0, 40))}</text></svg>`;
+            return `data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`;
+        });
+    },
+
+    startVideo: async (prompt) => `mock-video:${prompt.length}`,
+
+    pollVideo: async () => new Blob([], { type: 'video/mp4' }),
+
+    groundedSearch: async (prompt) => {
+        const first = `[${model}] Search results for: ${prompt}.`;
+        const second = 'Both sources agree on this point.';
+        return {
+            text: `${first} ${second}`,
+            sources: [
+                { uri: 'https://example.com/source-1', title: 'Example Source 1' },
+                { uri: 'https://example.org/source-2', title: 'Example Source 2' },
+            ],
+            supports: [
+                { startIndex: 0, endIndex: first.length, sourceIndices: [0] },
+                { startIndex: first.length + 1, endIndex: first.length + 1 + second.length, sourceIndices: [0, 1] },
+            ],
+        };
+    },
+});
@@ -0,0 +1,139 @@
+import { AiProvider } from '../aiProvider';
+
+interface OpenAiConfig {
+    baseUrl: string;
+    apiKey?: string;
+    model: string;
+    /** Used for image generation, e.g. `dall-e-3` or `gpt-image-1`. */
+    imageModel: string;
+}
+
+interface ChatMessage {
+    role: 'system' | 'user' | 'assistant';
+    content: string;
+}
+
+interface ImageModelLimits {
+    /** The sizes the model accepts, by aspect ratio. Other ratios are refused rather than distorted. */
+    sizes: Record<string, string>;
+    /** How many images one request may return. */
+    maxCount: number;
+    /** gpt-image-1 always returns base64 and rejects `response_format`. */
+    responseFormat: boolean;
+}
+
+const IMAGE_MODELS: Record<string, ImageModelLimits> = {
+    'dall-e-3': { sizes: { '1:1': '1024x1024', '16:9': '1792x1024', '9:16': '1024x1792' }, maxCount: 1, responseFormat: true },
+    'gpt-image-1': { sizes: { '1:1': '1024x1024', '3:2': '1536x1024', '2:3': '1024x1536' }, maxCount: 10, responseFormat: false },
+};
+
+/**
+ * Talks to any server implementing the OpenAI REST API (OpenAI itself, Ollama,
+ * LM Studio, vLLM...). Only text, chat and image generation are available.
+ */
+export const createOpenAiProvider = ({ baseUrl, apiKey, model, imageModel }: OpenAiConfig): AiProvider => {
+    const root = baseUrl.replace(/\/+$/, '');
+
+    const request = async (path: string, body: unknown, signal?: AbortSignal): Promise<Response> => {
+        const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+        if (apiKey) headers.Authorization = `Bearer ${apiKey}`;
+        const response = await fetch(`${root}${path}`, { method: 'POST', headers, body: JSON.stringify(body), signal });
+        if (!response.ok) {
+            const detail = await response.text().catch(() => '');
+            throw new Error(`AI server responded with ${response.status} ${response.statusText}${detail ? `: ${detail}` : ''}`);
+        }
+        return response;
+    };
+
+    const post = async <T>(path: string, body: unknown, signal?: AbortSignal): Promise<T> => (await request(path, body, signal)).json() as Promise<T>;
+
+    const complete = async (messages: ChatMessage[], signal?: AbortSignal) => {
+        const data = await post<{ choices?: { message?: { content?: string } }[] }>('/chat/completions', { model, messages }, signal);
+        return data.choices?.[0]?.message?.content ?? '';
+    };
+
+    // Parses the server-sent event stream returned for `stream: true` completions.
+    const completeStream = async function* (messages: ChatMessage[], signal?: AbortSignal): AsyncGenerator<string> {
+        const response = await request('/chat/completions', { model, messages, stream: true }, signal);
+        if (!response.body) throw new Error('AI server returned an empty stream.');
+        const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+        let buffer = '';
+        try {
+            while (true) {
+                const { value, done } = await reader.read();
+                if (done) break;
+                buffer += value;
+                const lines = buffer.split('\n');
+                buffer = lines.pop() ?? '';
+                for (const line of lines) {
+                    const data = line.replace(/^data:\s*/, '').trim();
+                    if (!line.startsWith('data:') || !data) continue;
+                    if (data === '[DONE]') return;
+                    const delta = (JSON.parse(data) as { choices?: { delta?: { content?: string } }[] }).choices?.[0]?.delta?.content;
+                    if (delta) yield delta;
+                }
+            }
+        } finally {
+            reader.releaseLock();
+        }
+    };
+
+    return {
+        id: 'openai',
+
+        generateText: (prompt, options) => complete([{ role: 'user', content: prompt }], options?.signal),
+
+        streamText: (prompt, options) => completeStream([{ role: 'user', content: prompt }], options?.signal),
+
+        createChat: (turns = []) => {
+            const history: ChatMessage[] = turns.map(turn => ({ role: turn.role === 'model' ? 'assistant' : 'user', content: turn.text }));
+            return {
+                sendMessageStream: async function* (message, options) {
+                    let reply = '';
+                    for await (const chunk of completeStream([...history, { role: 'user', content: message }], options?.signal)) {
+                        reply += chunk;
+                        yield chunk;
+                    }
+                    history.push({ role: 'user', content: message }, { role: 'assistant', content: reply });
+                },
+            };
+        },
+
+        generateImage: async (prompt, aspectRatio, options) => {
+            // Servers other than OpenAI name their image models freely; assume they follow DALL·E 3.
+            const limits = IMAGE_MODELS[imageModel] ?? IMAGE_MODELS['dall-e-3'];
+            const size = limits.sizes[aspectRatio];
+            if (!size) {
+                throw new Error(`The ${imageModel} image model does not support the ${aspectRatio} aspect ratio. Choose ${Object.keys(limits.sizes).join(', ')}.`);
+            }
+            const body = {
+                model: imageModel,
+                // The images API has no negative prompt; state it in the prompt instead.
+                prompt: options?.negativePrompt ? `${prompt}\n\nAvoid: ${options.negativePrompt}` : prompt,
+                size,
+                ...(limits.responseFormat ? { response_format: 'b64_json' } : {}),
+            };
+            // Models that return one image per request are asked once per image.
+            const count = options?.count ?? 1;
+            const batches: number[] = [];
+            for (let remaining = count; remaining > 0; remaining -= limits.maxCount) batches.push(Math.min(remaining, limits.maxCount));
+            const responses = await Promise.all(batches.map(n =>
+                post<{ data?: { b64_json?: string }[] }>('/images/generations', { ...body, n }, options?.signal)));
+            const images = responses.flatMap(data => data.data ?? []).map(image => image.b64_json).filter((base64): base64 is string => !!base64);
+            if (images.length === 0) throw new Error('No image was generated.');
+            return images.map(base64 => `data:image/png;base64,${base64}`);
+        },
+
+        startVideo: async () => {
+            throw new Error('Video generation is not supported by the OpenAI-compatible provider.');
+        },
+
+        pollVideo: async () => {
+            throw new Error('Video generation is not supported by the OpenAI-compatible provider.');
+        },
+
+        groundedSearch: async () => {
+            throw new Error('Grounded search is not supported by the OpenAI-compatible provider.');
+        },
+    };
+};
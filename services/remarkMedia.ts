@@ -0,0 +1,72 @@
+import { defaultUrlTransform } from 'react-markdown';
+import { ASSET_SCHEME, resolveAssetUrl } from './assets';
+
+interface MarkdownNode {
+    type: string;
+    value?: string;
+    children?: MarkdownNode[];
+    data?: Record<string, unknown>;
+}
+
+const MEDIA_TAG = /^\s*<(img|video)\b([^>]*?)\/?>\s*(?:<\/\1>)?\s*$/i;
+const ATTRIBUTE = /([\w-]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'>]+)))?/g;
+const ALLOWED_ATTRIBUTES = new Set(['src', 'alt', 'title', 'width', 'height', 'controls', 'poster', 'loop', 'muted']);
+
+const parseAttributes = (source: string): Record<string, string | boolean> => {
+    const attributes: Record<string, string | boolean> = {};
+    for (const [, name, double, single, bare] of source.matchAll(ATTRIBUTE)) {
+        const key = name.toLowerCase();
+        if (!ALLOWED_ATTRIBUTES.has(key)) continue;
+        attributes[key] = double ?? single ?? bare ?? true;
+    }
+    return attributes;
+};
+
+const CLOSING_TAG = /^\s*<\/(img|video)\s*>\s*$/i;
+
+const transform = (node: MarkdownNode) => {
+    const children = node.children;
+    if (!children) return;
+    for (let index = 0; index < children.length; index++) {
+        const child = children[index];
+        if (child.type !== 'html' || !child.value) {
+            transform(child);
+            continue;
+        }
+        const match = MEDIA_TAG.exec(child.value);
+        if (!match) continue;
+        const properties = parseAttributes(match[2]);
+        if (typeof properties.src !== 'string') continue;
+        // Unknown node types carrying hName/hProperties are turned into that element by remark-rehype.
+        children[index] = {
+            type: 'media',
+            data: { hName: match[1].toLowerCase(), hProperties: properties, hChildren: [] },
+        };
+        // Inside a paragraph the closing tag arrives as its own inline node.
+        const next = children[index + 1];
+        if (next?.type === 'html' && next.value && CLOSING_TAG.test(next.value)) {
+            children.splice(index + 1, 1);
+        }
+    }
+};
+
+/**
+ * Renders the single `<img>` and `<video>` tags the media generators insert,
+ * so they show even when raw HTML rendering is turned off. Only a few
+ * attributes survive.
+ */
+export const remarkMedia = () => transform;
+
+/**
+ * Like react-markdown's default, but keeps data:/blob: media URLs and resolves
+ * `asset://` references to the library's object URLs (none until loaded).
+ */
+export const mediaUrlTransform = (url: string, key: string): string | undefined => {
+    if ((key === 'src' || key === 'poster') && /^(data:(image|video)\/|blob:)/i.test(url)) {
+        return url;
+    }
+    if (url.startsWith(ASSET_SCHEME)) {
+        return resolveAssetUrl(url);
+    }
+    return defaultUrlTransform(url);
+};
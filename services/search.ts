@@ -0,0 +1,88 @@
+import { TextRange } from './textRanges';
+
+export interface SearchOptions {
+    caseSensitive: boolean;
+    wholeWord: boolean;
+    regex: boolean;
+}
+
+export interface SearchResult {
+    matches: TextRange[];
+    /** Set when the query is not a valid regular expression. */
+    error?: string;
+}
+
+/** Stops runaway patterns from freezing the editor on huge documents. */
+export const MAX_MATCHES = 5000;
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const buildPattern = (query: string, options: SearchOptions): RegExp => {
+    let source = options.regex ? query : escapeRegExp(query);
+    if (options.wholeWord) source = `(?<![\\w])(?:${source})(?![\\w])`;
+    return new RegExp(source, `g${options.caseSensitive ? '' : 'i'}${options.regex ? 'm' : ''}`);
+};
+
+/**
+ * Finds every non-empty match of `query` in `text`, optionally only those
+ * lying entirely inside `scope`.
+ */
+export const findMatches = (text: string, query: string, options: SearchOptions, scope?: TextRange | null): SearchResult => {
+    if (!query) return { matches: [] };
+    let pattern: RegExp;
+    try {
+        pattern = buildPattern(query, options);
+    } catch (error) {
+        return { matches: [], error: error instanceof SyntaxError ? error.message : 'Invalid regular expression' };
+    }
+    const matches: TextRange[] = [];
+    pattern.lastIndex = scope?.start ?? 0;
+    const limit = scope?.end ?? text.length;
+    let match: RegExpExecArray | null;
+    while (matches.length < MAX_MATCHES && (match = pattern.exec(text)) !== null) {
+        if (match[0].length === 0) {
+            // Zero-width matches (`^`, lookarounds) have nothing to show or replace.
+            pattern.lastIndex++;
+            continue;
+        }
+        const end = match.index + match[0].length;
+        if (end > limit) break;
+        matches.push({ start: match.index, end });
+    }
+    return { matches };
+};
+
+/**
+ * Expands `$&`, `$1`..`$99`, `$<name>` and `$$` in a regex replacement the
+ * way `String.prototype.replace` would.
+ */
+const expandReplacement = (replacement: string, match: RegExpExecArray) => replacement.replace(
+    /\$(\$|&|\d{1,2}|<([^>]*)>)/g,
+    (token, ref: string, name?: string) => {
+        if (ref === '$') return '$';
+        if (ref === '&') return match[0];
+        if (name !== undefined) return match.groups?.[name] ?? '';
+        const index = Number(ref);
+        return index > 0 && index < match.length ? (match[index] ?? '') : token;
+    },
+);
+
+/** The text that replaces the match at `range`. Plain searches insert the replacement literally. */
+const replacementFor = (text: string, range: TextRange, query: string, replacement: string, options: SearchOptions) => {
+    if (!options.regex) return replacement;
+    const pattern = buildPattern(query, options);
+    pattern.lastIndex = range.start;
+    const match = pattern.exec(text);
+    return match && match.index === range.start ? expandReplacement(replacement, match) : replacement;
+};
+
+/** Replaces the given matches (as found by `findMatches` on the same text) in one pass. */
+export const replaceMatches = (text: string, matches: TextRange[], query: string, replacement: string, options: SearchOptions): string => {
+    let output = '';
+    let last = 0;
+    for (const range of matches) {
+        output += text.substring(last, range.start) + replacementFor(text, range, query, replacement, options);
+        last = range.end;
+    }
+    return output + text.substring(last);
+};
@@ -0,0 +1,75 @@
+import { TextRange } from './textRanges';
+
+interface HastNode {
+    type: string;
+    tagName?: string;
+    properties?: Record<string, unknown>;
+    position?: { start: { line: number }; end: { line: number } };
+    children?: HastNode[];
+}
+
+const BLOCK_TAGS = new Set(['p', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'ul', 'ol', 'li', 'blockquote', 'pre', 'table', 'tr', 'hr', 'img', 'video', 'figure', 'section']);
+
+const annotate = (node: HastNode) => {
+    if (node.type === 'element' && node.tagName && BLOCK_TAGS.has(node.tagName) && node.position) {
+        node.properties = { ...node.properties, dataSourceLine: node.position.start.line };
+    }
+    node.children?.forEach(annotate);
+};
+
+/**
+ * Rehype plugin tagging rendered blocks with `data-source-line`, the 1-based
+ * markdown line they start on, taken from the AST position data.
+ */
+export const rehypeSourceLines = () => annotate;
+
+/** Returns the range of the given 1-based line (without its newline). */
+export const lineRange = (text: string, line: number): TextRange => {
+    let start = 0;
+    for (let current = 1; current < line; current++) {
+        const next = text.indexOf('\n', start);
+        if (next === -1) return { start: text.length, end: text.length };
+        start = next + 1;
+    }
+    const end = text.indexOf('\n', start);
+    return { start, end: end === -1 ? text.length : end };
+};
+
+const cache = new WeakMap<HTMLTextAreaElement, { value: string; width: number; tops: number[] }>();
+
+/**
+ * Measures where each source line starts inside a wrapping textarea, in
+ * scrollTop coordinates, by laying the text out in an off-screen mirror.
+ */
+export const measureTextareaLines = (textarea: HTMLTextAreaElement): number[] => {
+    const cached = cache.get(textarea);
+    if (cached && cached.value === textarea.value && cached.width === textarea.clientWidth) return cached.tops;
+
+    const style = window.getComputedStyle(textarea);
+    const mirror = document.createElement('div');
+    Object.assign(mirror.style, {
+        position: 'absolute',
+        visibility: 'hidden',
+        top: '0',
+        left: '-9999px',
+        boxSizing: 'border-box',
+        width: `${textarea.clientWidth}px`,
+        padding: style.padding,
+        font: style.font,
+        letterSpacing: style.letterSpacing,
+        tabSize: style.tabSize,
+        whiteSpace: 'pre-wrap',
+        overflowWrap: 'break-word',
+    });
+    for (const line of textarea.value.split('\n')) {
+        const row = document.createElement('div');
+        row.textContent = line || '\u200b';
+        mirror.appendChild(row);
+    }
+    document.body.appendChild(mirror);
+    const tops = Array.from(mirror.children, row => (row as HTMLElement).offsetTop);
+    mirror.remove();
+
+    cache.set(textarea, { value: textarea.value, width: textarea.clientWidth, tops });
+    return tops;
+};
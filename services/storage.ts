@@ -0,0 +1,72 @@
+// A minimal keyed collection abstraction. The browser build persists to IndexedDB;
+// the in-memory variant is used when IndexedDB is unavailable (e.g. some private windows).
+
+export interface Collection<T extends { id: string }> {
+    list: () => Promise<T[]>;
+    get: (id: string) => Promise<T | undefined>;
+    put: (record: T) => Promise<void>;
+    remove: (id: string) => Promise<void>;
+}
+
+const DB_PREFIX = 'sams-ai-writer';
+const STORE_NAME = 'records';
+
+const requestToPromise = <R>(request: IDBRequest<R>): Promise<R> =>
+    new Promise((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+
+// Each collection lives in its own database so new collections never require a schema migration.
+const openDatabase = (name: string): Promise<IDBDatabase> =>
+    new Promise((resolve, reject) => {
+        const request = indexedDB.open(`${DB_PREFIX}-${name}`, 1);
+        request.onupgradeneeded = () => {
+            if (!request.result.objectStoreNames.contains(STORE_NAME)) {
+                request.result.createObjectStore(STORE_NAME, { keyPath: 'id' });
+            }
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+
+export const createIndexedDbCollection = <T extends { id: string }>(name: string): Collection<T> => {
+    let dbPromise: Promise<IDBDatabase> | null = null;
+    const getStore = async (mode: IDBTransactionMode) => {
+        if (!dbPromise) dbPromise = openDatabase(name);
+        const db = await dbPromise;
+        return db.transaction(STORE_NAME, mode).objectStore(STORE_NAME);
+    };
+
+    return {
+        list: async () => requestToPromise((await getStore('readonly')).getAll() as IDBRequest<T[]>),
+        get: async (id) => requestToPromise((await getStore('readonly')).get(id) as IDBRequest<T | undefined>),
+        put: async (record) => { await requestToPromise((await getStore('readwrite')).put(record)); },
+        remove: async (id) => { await requestToPromise((await getStore('readwrite')).delete(id)); },
+    };
+};
+
+export const createMemoryCollection = <T extends { id: string }>(initial: T[] = []): Collection<T> => {
+    const records = new Map<string, T>(initial.map(record => [record.id, structuredClone(record)]));
+    return {
+        list: async () => Array.from(records.values()).map(record => structuredClone(record)),
+        get: async (id) => {
+            const record = records.get(id);
+            return record ? structuredClone(record) : undefined;
+        },
+        put: async (record) => { records.set(record.id, structuredClone(record)); },
+        remove: async (id) => { records.delete(id); },
+    };
+};
+
+/**
+ * Returns an IndexedDB-backed collection when the browser supports it,
+ * falling back to an in-memory collection otherwise.
+ */
+export const createCollection = <T extends { id: string }>(name: string): Collection<T> =>
+    typeof indexedDB !== 'undefined' ? createIndexedDbCollection<T>(name) : createMemoryCollection<T>();
+
+export const createId = (): string =>
+    typeof crypto !== 'undefined' && 'randomUUID' in crypto
+        ? crypto.randomUUID()
+        : `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
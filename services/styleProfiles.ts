@@ -0,0 +1,84 @@
+import { StyleProfile } from '../types';
+import { createId } from './storage';
+
+const PROFILES_KEY = 'sams-ai-writer:style-profiles';
+
+const profile = (id: string, name: string, description: string, dos: string[] = [], donts: string[] = []): StyleProfile =>
+    ({ id, name, description, dos, donts, bannedWords: [], readingLevel: null, examples: [] });
+
+// The five tones the app started with, as editable profiles.
+export const DEFAULT_STYLE_PROFILES: StyleProfile[] = [
+    profile('professional', 'Professional', 'Clear, polished and businesslike.', ['Lead with the main point', 'Use precise terms'], ['Use slang or exclamation marks']),
+    profile('casual', 'Casual', 'Relaxed and conversational, like talking to a colleague.', ['Use contractions', 'Keep sentences short'], ['Sound stiff or formal']),
+    profile('friendly', 'Friendly', 'Warm and approachable.', ['Address the reader as "you"', 'Be encouraging'], ['Lecture the reader']),
+    profile('confident', 'Confident', 'Direct and assured.', ['Use active voice', 'Make clear recommendations'], ['Hedge with "maybe", "perhaps" or "I think"']),
+    profile('humorous', 'Humorous', 'Light and playful, without losing the point.', ['Use wit and wordplay where it fits'], ['Joke about the reader', 'Let jokes obscure the facts']),
+];
+
+export const DEFAULT_STYLE_PROFILE_ID = DEFAULT_STYLE_PROFILES[0].id;
+
+/** Rendered into prompts as the style guide the model should follow. */
+export const formatStyleGuide = (style: StyleProfile): string => {
+    const sections = [`Style: ${style.name}${style.description ? ` - ${style.description}` : ''}`];
+    if (style.dos.length) sections.push(`Do:\n${style.dos.map(rule => `- ${rule}`).join('\n')}`);
+    if (style.donts.length) sections.push(`Don't:\n${style.donts.map(rule => `- ${rule}`).join('\n')}`);
+    if (style.bannedWords.length) sections.push(`Never use these words: ${style.bannedWords.join(', ')}`);
+    if (style.readingLevel) sections.push(`Target reading level: US grade ${style.readingLevel}.`);
+    if (style.examples.length) {
+        sections.push(`Examples of the style:\n${style.examples.map(example => `"""\n${example}\n"""`).join('\n')}`);
+    }
+    return sections.join('\n\n');
+};
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/** The banned words (or phrases) that appear in `text`, with how often, matched case-insensitively on word boundaries. */
+export const findBannedWords = (text: string, bannedWords: string[]): { word: string; count: number }[] =>
+    bannedWords.flatMap(word => {
+        const pattern = new RegExp(`(?<![\\p{L}\\p{N}])${escapeRegExp(word.trim())}(?![\\p{L}\\p{N}])`, 'giu');
+        const count = word.trim() ? text.match(pattern)?.length ?? 0 : 0;
+        return count ? [{ word, count }] : [];
+    });
+
+/** Splits a comma- or newline-separated list, dropping blanks and duplicates. */
+export const parseList = (text: string): string[] =>
+    Array.from(new Set(text.split(/[,\n]/).map(item => item.trim()).filter(Boolean)));
+
+const strings = (value: unknown): string[] =>
+    Array.isArray(value) ? value.filter((item): item is string => typeof item === 'string') : [];
+
+const toProfile = (value: unknown): StyleProfile | null => {
+    const entry = value as Partial<StyleProfile>;
+    if (typeof entry?.name !== 'string' || !entry.name.trim()) return null;
+    const level = Number(entry.readingLevel);
+    return {
+        id: typeof entry.id === 'string' && entry.id ? entry.id : createId(),
+        name: entry.name.trim(),
+        description: typeof entry.description === 'string' ? entry.description : '',
+        dos: strings(entry.dos),
+        donts: strings(entry.donts),
+        bannedWords: strings(entry.bannedWords),
+        readingLevel: entry.readingLevel != null && level > 0 ? level : null,
+        examples: strings(entry.examples),
+    };
+};
+
+export const loadStyleProfiles = (): StyleProfile[] => {
+    try {
+        const stored = localStorage.getItem(PROFILES_KEY);
+        if (!stored) return DEFAULT_STYLE_PROFILES;
+        const list = JSON.parse(stored);
+        return Array.isArray(list) ? list.flatMap(item => toProfile(item) ?? []) : DEFAULT_STYLE_PROFILES;
+    } catch (error) {
+        console.warn('Could not load style profiles:', error);
+        return DEFAULT_STYLE_PROFILES;
+    }
+};
+
+export const saveStyleProfiles = (profiles: StyleProfile[]) => {
+    try {
+        localStorage.setItem(PROFILES_KEY, JSON.stringify(profiles));
+    } catch (error) {
+        console.warn('Could not persist style profiles:', error);
+    }
+};
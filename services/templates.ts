@@ -0,0 +1,182 @@
+import { DocumentTemplate, MarkdownDocument } from '../types';
+import { Collection, createCollection, createId } from './storage';
+
+export type TemplateStore = Collection<DocumentTemplate>;
+
+/** Templates saved from the user's own documents. The built-in ones are not stored. */
+export const templateStore: TemplateStore = createCollection<DocumentTemplate>('templates');
+
+// `{{Name}}` placeholders, the same syntax as custom action templates. Names may contain spaces.
+const PLACEHOLDER = /\{\{\s*([\w][\w .'-]*?)\s*\}\}/g;
+
+const builtIn = (id: string, name: string, description: string, title: string, content: string): DocumentTemplate =>
+    ({ id: `builtin:${id}`, name, description, title, content, builtIn: true, createdAt: 0 });
+
+export const BUILT_IN_TEMPLATES: DocumentTemplate[] = [
+    builtIn('blog-post', 'Blog Post', 'An article with a hook, a few sections and a call to action.', '{{Title}}', `---
+title: {{Title}}
+author: {{Author}}
+date: {{Date}}
+status: Draft
+tags: []
+description:
+---
+
+{{One-sentence hook}}
+
+## Why this matters
+
+## The main idea
+
+## How to put it into practice
+
+## Wrapping up
+
+What should readers do next?
+`),
+    builtIn('prd', 'Product Requirements (PRD)', 'Problem, goals, requirements and open questions for a feature.', '{{Feature}} PRD', `# {{Feature}}: Product Requirements
+
+| | |
+|---|---|
+| **Owner** | {{Owner}} |
+| **Status** | Draft |
+| **Last updated** | {{Date}} |
+
+## Problem
+
+Who has the problem, and what does it cost them today?
+
+## Goals
+
+-
+
+## Non-goals
+
+-
+
+## User stories
+
+- As a …, I want … so that …
+
+## Requirements
+
+| Priority | Requirement | Notes |
+|---|---|---|
+| P0 | | |
+| P1 | | |
+
+## Success metrics
+
+## Open questions
+
+- [ ]
+`),
+    builtIn('meeting-notes', 'Meeting Notes', 'Attendees, agenda, decisions and action items.', '{{Meeting}} – {{Date}}', `# {{Meeting}}
+
+**Date:** {{Date}}
+**Attendees:** {{Attendees}}
+
+## Agenda
+
+1.
+
+## Notes
+
+## Decisions
+
+-
+
+## Action items
+
+- [ ] Owner – task – due date
+`),
+    builtIn('readme', 'README', 'Project overview, installation and usage for a repository.', '{{Project}} README', `# {{Project}}
+
+{{One-line description}}
+
+## Features
+
+-
+
+## Installation
+
+\`\`\`bash
+npm install {{Package name}}
+\`\`\`
+
+## Usage
+
+\`\`\`js
+\`\`\`
+
+## Contributing
+
+Issues and pull requests are welcome.
+
+## License
+
+{{License}}
+`),
+    builtIn('changelog', 'Changelog', 'Release history in the Keep a Changelog format.', '{{Project}} Changelog', `# Changelog
+
+All notable changes to {{Project}} are documented in this file.
+The format is based on [Keep a Changelog](https://keepachangelog.com/en/1.1.0/).
+
+## [Unreleased]
+
+## [{{Version}}] - {{Date}}
+
+### Added
+
+-
+
+### Changed
+
+-
+
+### Fixed
+
+-
+`),
+    builtIn('rfc', 'RFC', 'A design proposal with motivation, alternatives and rollout.', 'RFC: {{Title}}', `# RFC: {{Title}}
+
+- **Author:** {{Author}}
+- **Status:** Draft
+- **Created:** {{Date}}
+
+## Summary
+
+## Motivation
+
+## Detailed design
+
+## Drawbacks
+
+## Alternatives considered
+
+## Rollout and migration
+
+## Unresolved questions
+`),
+];
+
+/** The placeholder names in the given texts, each once, in order of first appearance. */
+export const templatePlaceholders = (...texts: string[]): string[] =>
+    Array.from(new Set(texts.flatMap(text => Array.from(text.matchAll(PLACEHOLDER), match => match[1]))));
+
+/** Substitutes placeholder values; placeholders left blank stay in the text to be filled in later. */
+export const fillTemplate = (text: string, values: Record<string, string>): string =>
+    text.replace(PLACEHOLDER, (match, name: string) => values[name]?.trim() || match);
+
+/** Values a placeholder starts with, e.g. today's date for `{{Date}}`. */
+export const defaultPlaceholderValue = (name: string): string =>
+    /^date$/i.test(name) ? new Date().toISOString().slice(0, 10) : '';
+
+export const templateFromDocument = (doc: MarkdownDocument, name: string): DocumentTemplate => ({
+    id: createId(),
+    name,
+    description: '',
+    title: doc.title,
+    content: doc.content,
+    createdAt: Date.now(),
+});
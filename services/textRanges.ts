@@ -0,0 +1,34 @@
+// Helpers for keeping character ranges meaningful while the document is edited.
+
+export interface TextRange {
+    start: number;
+    end: number;
+}
+
+/** Finds the range in `next` that differs from `prev`. */
+export const changedRange = (prev: string, next: string): TextRange => {
+    let start = 0;
+    const maxStart = Math.min(prev.length, next.length);
+    while (start < maxStart && prev[start] === next[start]) start++;
+    let suffix = 0;
+    const maxSuffix = Math.min(prev.length, next.length) - start;
+    while (suffix < maxSuffix && prev[prev.length - 1 - suffix] === next[next.length - 1 - suffix]) suffix++;
+    return { start, end: next.length - suffix };
+};
+
+/**
+ * Maps a range in `prev` to the equivalent range in `next`. Text inserted
+ * exactly at the range's start pushes it right; text inserted at its end is
+ * not absorbed. A range whose edges fall inside a replaced region is clamped
+ * to cover the replacement.
+ */
+export const mapRange = (range: TextRange, prev: string, next: string): TextRange => {
+    if (prev === next) return range;
+    const { start: editStart, end: newEnd } = changedRange(prev, next);
+    const oldEnd = prev.length - (next.length - newEnd);
+    const delta = newEnd - oldEnd;
+
+    const start = range.start < editStart ? range.start : range.start >= oldEnd ? range.start + delta : editStart;
+    const end = range.end <= editStart ? range.end : range.end >= oldEnd ? range.end + delta : newEnd;
+    return { start, end: Math.max(start, end) };
+};
@@ -0,0 +1,56 @@
+import { VideoAspectRatio, VideoJob } from '../types';
+import { getAiSettings } from './aiProvider';
+import { Collection, createCollection, createId } from './storage';
+
+export type VideoJobStore = Collection<VideoJob>;
+
+export const videoJobStore: VideoJobStore = createCollection<VideoJob>('video-jobs');
+
+export const VIDEO_POLL_INTERVAL_MS = 10000;
+export const VIDEO_TIMEOUT_MS = 10 * 60 * 1000;
+
+export interface VideoRequest {
+    prompt: string;
+    imageBase64: string;
+    aspectRatio: VideoAspectRatio;
+}
+
+export const newVideoJob = (request: VideoRequest): VideoJob => {
+    const now = Date.now();
+    return {
+        ...request,
+        id: createId(),
+        status: 'starting',
+        providerId: getAiSettings().providerId,
+        startedAt: now,
+        updatedAt: now,
+    };
+};
+
+/** Resets a finished or failed job so it runs again with the current provider. */
+export const restartVideoJob = (job: VideoJob): VideoJob => {
+    const now = Date.now();
+    return {
+        ...job,
+        status: 'starting',
+        providerId: getAiSettings().providerId,
+        operation: undefined,
+        assetId: undefined,
+        error: undefined,
+        startedAt: now,
+        updatedAt: now,
+    };
+};
+
+export const isVideoJobActive = (job: VideoJob) => job.status === 'starting' || job.status === 'running';
+
+/**
+ * Why a running job can't be polled any more, if it can't. Checked before
+ * every poll so a job left over from an earlier session fails cleanly.
+ */
+export const videoJobProblem = (job: VideoJob, now = Date.now()): string | null => {
+    if (now - job.startedAt > VIDEO_TIMEOUT_MS) return 'Video generation timed out.';
+    if (job.providerId !== getAiSettings().providerId) return 'The AI provider changed since this video was started.';
+    if (!job.operation) return 'The video service never confirmed this request.';
+    return null;
+};
@@ -13,14 +13,10 @@ export enum AiAction {
   GENERATE_OUTLINE = 'generate_outline',
   SUGGEST_TITLES = 'suggest_titles',
   GENERATE_OUTLINE_FROM_PROMPT = 'generate_outline_from_prompt',
-}
-
-export enum Tone {
-  PROFESSIONAL = 'Professional',
-  CASUAL = 'Casual',
-  FRIENDLY = 'Friendly',
-  CONFIDENT = 'Confident',
-  HUMOROUS = 'Humorous',
+  FIX_PROBLEM = 'fix_problem',
+  GENERATE_DIAGRAM = 'generate_diagram',
+  FILL_TEMPLATE = 'fill_template',
+  GENERATE_DESCRIPTION = 'generate_description',
 }
 
 export type FormatAction =
@@ -42,4 +38,168 @@ export type FormatAction =
 
 export type ViewMode = 'split' | 'editor' | 'preview';
 
+export type ExportFormat = 'html' | 'pdf' | 'docx';
+
 export type AiFeature = 'chat' | 'image' | 'video' | 'search' | 'map' | 'audio' | 'tts' | 'brain';
+
+export interface MarkdownDocument {
+  id: string;
+  title: string;
+  content: string;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export type ChatContextKind = 'document' | 'selection';
+
+/** Text attached to a chat message so the model knows what is being written. */
+export interface ChatContext {
+  kind: ChatContextKind;
+  /** The document's title at the time it was attached. */
+  title: string;
+  text: string;
+}
+
+export interface ChatMessage {
+  id: string;
+  sender: 'user' | 'bot';
+  text: string;
+  context?: ChatContext;
+  /** The reply is an error message rather than model output. */
+  isError?: boolean;
+}
+
+export interface ChatSession {
+  id: string;
+  title: string;
+  messages: ChatMessage[];
+  createdAt: number;
+  updatedAt: number;
+}
+
+/** Everything needed to (re)run an image generation. */
+export interface ImageRequest {
+  prompt: string;
+  /** Style description appended to the prompt, usually from a preset. */
+  style: string;
+  negativePrompt: string;
+  aspectRatio: string;
+  /** 1-4 */
+  count: number;
+}
+
+/** A saved style and negative prompt to start image prompts from. */
+export interface ImagePreset {
+  id: string;
+  name: string;
+  style: string;
+  negativePrompt: string;
+}
+
+export type VideoAspectRatio = '16:9' | '9:16';
+
+export type VideoJobStatus = 'starting' | 'running' | 'ready' | 'failed';
+
+/**
+ * A background video generation, persisted so it can be resumed after a
+ * reload. `operation` is the provider's handle for the long-running request.
+ */
+export interface VideoJob {
+  id: string;
+  prompt: string;
+  /** Base64 PNG the video starts from, kept so a failed job can be retried. */
+  imageBase64: string;
+  aspectRatio: VideoAspectRatio;
+  status: VideoJobStatus;
+  /** Operations can only be polled through the provider that started them. */
+  providerId: AiProviderId;
+  operation?: string;
+  /** The finished video in the media library. */
+  assetId?: string;
+  error?: string;
+  /** When the current attempt started; timeouts are measured from here. */
+  startedAt: number;
+  updatedAt: number;
+}
+
+export type AiProviderId = 'gemini' | 'openai' | 'mock';
+
+export interface AiSettings {
+  providerId: AiProviderId;
+  model: string;
+  /** Base URL for the OpenAI-compatible provider, e.g. http://localhost:11434/v1 for Ollama. */
+  baseUrl: string;
+  apiKey: string;
+  /** Image model for the OpenAI-compatible provider, e.g. dall-e-3 or gpt-image-1. */
+  imageModel: string;
+}
+
+export type AiTaskStatus = 'running' | 'done' | 'error' | 'cancelled';
+
+/** What an AI task is running: a built-in action, a feature modal, or a custom action by id. */
+export type AiTaskAction = AiAction | AiFeature | `custom:${string}`;
+
+export interface AiTask {
+  id: string;
+  action: AiTaskAction;
+  label: string;
+  documentId?: string;
+  status: AiTaskStatus;
+  startedAt: number;
+  finishedAt?: number;
+  error?: string;
+}
+
+/** Where an AI result goes relative to the caret or selection it was requested from. */
+export type InsertPosition = 'above' | 'below' | 'replace';
+
+export type CustomActionScope = 'selection' | 'document';
+
+export type CustomActionOutput = 'replace' | 'insert-below' | 'modal';
+
+/** A user-defined AI action. The template may reference {{selection}}, {{document}}, {{tone}} and {{style}}. */
+export interface CustomAction {
+  id: string;
+  name: string;
+  template: string;
+  scope: CustomActionScope;
+  output: CustomActionOutput;
+}
+
+/** A reusable writing style, passed to rewrites as a style guide. */
+export interface StyleProfile {
+  id: string;
+  name: string;
+  description: string;
+  dos: string[];
+  donts: string[];
+  /** Words or phrases the result must not contain; rewrites using them are flagged in review. */
+  bannedWords: string[];
+  /** US school grade to aim for, or null for no target. */
+  readingLevel: number | null;
+  /** Sample paragraphs written in the style. */
+  examples: string[];
+}
+
+/** A starting point for new documents; `{{Name}}` placeholders are asked for on creation. */
+export interface DocumentTemplate {
+  id: string;
+  name: string;
+  description: string;
+  /** Title for documents created from the template; may contain placeholders. */
+  title: string;
+  content: string;
+  /** Ships with the app; cannot be edited or deleted. */
+  builtIn?: boolean;
+  createdAt: number;
+}
+
+/** Metadata from a document's YAML front matter. Fields that aren't set are empty. */
+export interface FrontMatter {
+  title: string;
+  tags: string[];
+  author: string;
+  date: string;
+  status: string;
+  description: string;
+}